@@ -1,7 +1,8 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { 
   FileUp, 
+  FolderUp,
   Download, 
   Loader2, 
   Table as TableIcon, 
@@ -13,414 +14,1101 @@ import {
   X,
   Scan,
   Camera,
-  RotateCcw,
-  Check,
   Settings2,
-  Save,
   AlertTriangle,
-  Briefcase
+  Briefcase,
+  Layers,
+  PanelRight,
+  Undo2,
+  Redo2,
+  Plus,
+  Split,
+  Merge,
+  ShieldCheck,
+  Pause,
+  Play,
+  RefreshCw,
+  CircleStop,
+  History,
+  Cpu,
+  WifiOff,
+  Tags,
+  ScanEye,
+  ScanSearch,
+  PackageSearch
 } from 'lucide-react';
-import { ExtractionStatus, ExtractedItem, FileData } from './types';
-import { extractDataFromDocument } from './services/geminiService';
-import { downloadAsExcel } from './utils/excelUtils';
-import { extractTextFromPdf, performImageOcr } from './utils/ocrUtils';
+import {
+  CellFormat,
+  DocumentClassification,
+  DocumentType,
+  ExportOptions,
+  ExtractionStatus,
+  ExtractedItem,
+  ExtractionSchema,
+  FileData,
+  MappingColumn,
+  MappingProfile,
+  LanguageDetection,
+  OcrLanguageSettings,
+  OcrStatus,
+  PageOcrStatus,
+  PreprocessSummary,
+  ProviderSettings,
+  OcrResult,
+  RecordSet,
+  RowMeta,
+  RowSource,
+  BatchFinding,
+  CatalogAlias,
+  ProductCatalog,
+  RuleConfig,
+  RuleViolation,
+  WorkspaceBatch,
+  WorkspaceFile
+} from './types';
+import {
+  DEFAULT_CONCURRENCY,
+  DEFAULT_EXPORT_OPTIONS,
+  DEFAULT_SCHEMA_ID,
+  DOCUMENT_LOCALES,
+  OCR_LANGUAGES,
+  DOCUMENT_TYPES,
+  LOW_CONFIDENCE_THRESHOLD,
+  MAX_ARCHIVE_SIZE,
+  MAX_CONCURRENCY,
+  MAX_RETRIES,
+  RETRY_BASE_DELAY_MS,
+  SCAN_PDF_DPI,
+  SPREADSHEET_FILE_TYPES,
+  SPREADSHEET_IMPORT_MODEL,
+  UNASSIGNED_DOCUMENT_ID,
+  UPLOAD_ACCEPT,
+  WORKSPACE_SAVE_DELAY_MS
+} from './constants';
+import { loadProviderSettings, resolveProvider, saveProviderSettings } from './services/providers';
+import { ExtractionRequest } from './services/extractionProvider';
+import { extractInChunks, shouldChunk } from './services/chunkedExtraction';
+import { importSpreadsheet, spreadsheetText } from './services/spreadsheetImport';
+import { ExportDocument, exportData } from './utils/exportUtils';
+import { clearOcrCache, extractTextFromPdf, performImageOcr, preprocessImage, releaseOcrCache } from './utils/ocrUtils';
+import { documentFieldsOf, isDocumentField, lineFieldsOf, loadSchemas, mergeSchemas, saveSchemas } from './utils/schemaUtils';
+import { loadRuleConfig, runValidationBySchema, saveRuleConfig, violationsToRows } from './utils/validationRules';
+import { classifyDocument, schemaForType } from './utils/classifyUtils';
+import { crossCheckWithOcr } from './utils/confidenceUtils';
+import { deleteBatch, loadActiveBatchId, loadBatch, newBatchId, saveActiveBatchId, saveBatch } from './utils/workspaceUtils';
+import { CancelledError, QueueControl, QueueState, createQueueControl, runQueue, withRetry } from './utils/jobQueue';
+import {
+  applyColumns,
+  columnLabels,
+  defaultColumns,
+  deleteProfile,
+  detectVendor,
+  findMatchingProfile,
+  loadProfiles,
+  saveProfile,
+  withMissingFields
+} from './utils/mappingUtils';
+import { getLocale, loadLocaleId, normalizeDocument, normalizeValue, saveLocaleId } from './utils/normalizeUtils';
+import { denormalizedRows, headerFromResponse, joinHeaders, upsertDocuments } from './utils/documentUtils';
+import {
+  createHistory,
+  deleteRows,
+  describeEdits,
+  editCell,
+  editDocumentField,
+  insertRow,
+  mergeRows,
+  parseCellInput,
+  pushHistory,
+  redoHistory,
+  removeFileRecords,
+  setCatalogSku,
+  splitRow,
+  undoHistory
+} from './utils/recordEditUtils';
+import {
+  configuredLanguage,
+  detectLanguage,
+  loadOcrLanguageSettings,
+  localeForLanguage,
+  ocrLanguageOf,
+  ocrLanguagesFor,
+  saveOcrLanguageSettings
+} from './utils/languageUtils';
+import SchemaEditorModal from './components/SchemaEditorModal';
+import CellSourcePopover from './components/CellSourcePopover';
+import ResultsTable, { CellRef, HoveredCell } from './components/ResultsTable';
+import DocumentViewer, { ViewerHighlight } from './components/DocumentViewer';
+import RulesModal from './components/RulesModal';
+import ExportMenu from './components/ExportMenu';
+import MappingModal from './components/MappingModal';
+import HistoryModal from './components/HistoryModal';
+import ProviderSettingsModal from './components/ProviderSettingsModal';
+import DocumentHeadersPanel from './components/DocumentHeadersPanel';
+import BatchFindingsPanel from './components/BatchFindingsPanel';
+import CatalogModal from './components/CatalogModal';
+import CameraModal from './components/CameraModal';
+import PreprocessPreviewModal, { describePreprocessing } from './components/PreprocessPreviewModal';
+import { ScannedPage } from './utils/scanUtils';
+import { base64ToBytes, jpegPagesToPdf } from './utils/pdfWriter';
+import { groupByFile, provenanceOf, withSource } from './utils/provenanceUtils';
+import { PriceHistory, analyzeBatch, loadPriceHistory } from './utils/anomalyUtils';
+import {
+  aliasFromRow,
+  catalogColumnsOf,
+  deleteAlias,
+  deleteCatalog,
+  importCatalog,
+  loadAliases,
+  loadCatalog,
+  matchCatalog,
+  saveAlias,
+  saveCatalog
+} from './utils/catalogUtils';
+import {
+  IntakeFile,
+  IntakeRejection,
+  UploadEntry,
+  contentHash,
+  entriesFromDataTransfer,
+  entriesFromFileList,
+  prepareUpload,
+  sizeRejection
+} from './utils/intakeUtils';
 
 interface FileDataExtended extends FileData {
-  ocrStatus?: 'idle' | 'running' | 'done' | 'skipped' | 'error';
+  ocrStatus?: OcrStatus;
+  // Page ranges finished while a long PDF is extracted in chunks
+  chunkProgress?: { done: number; total: number };
+  // Where each page's text came from, for PDFs with scanned pages
+  pageOcr?: PageOcrStatus[];
 }
 
-const MappingModal: React.FC<{
-  headers: string[];
-  mapping: Record<string, string>;
-  onSave: (newMapping: Record<string, string>) => void;
-  onClose: () => void;
-}> = ({ headers, mapping, onSave, onClose }) => {
-  const [localMapping, setLocalMapping] = useState<Record<string, string>>({ ...mapping });
-
-  const handleChange = (original: string, updated: string) => {
-    setLocalMapping(prev => ({ ...prev, [original]: updated }));
-  };
-
-  return (
-    <div className="fixed inset-0 z-[110] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
-      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
-        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
-          <div>
-            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
-              <Settings2 size={20} className="text-blue-500" />
-              Column Mapping
-            </h3>
-            <p className="text-xs text-slate-500">Rename extracted headers for your final spreadsheet</p>
-          </div>
-          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
-            <X size={20} />
-          </button>
-        </div>
-        
-        <div className="flex-1 overflow-y-auto p-6 space-y-4">
-          {headers.map(header => (
-            <div key={header} className="space-y-1.5">
-              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">
-                Original: <span className="text-slate-600 font-mono lowercase">{header}</span>
-              </label>
-              <input
-                type="text"
-                value={localMapping[header] || header}
-                onChange={(e) => handleChange(header, e.target.value)}
-                placeholder={header}
-                className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-sm font-medium text-slate-700"
-              />
-            </div>
-          ))}
-        </div>
-
-        <div className="p-6 border-t border-slate-100 flex gap-3">
-          <button
-            onClick={onClose}
-            className="flex-1 py-3 px-4 rounded-xl border border-slate-200 text-slate-600 font-semibold hover:bg-slate-50 transition-all text-sm"
-          >
-            Cancel
-          </button>
-          <button
-            onClick={() => onSave(localMapping)}
-            className="flex-1 py-3 px-4 rounded-xl bg-blue-600 text-white font-semibold hover:bg-blue-700 transition-all shadow-md shadow-blue-200 flex items-center justify-center gap-2 text-sm"
-          >
-            <Save size={18} />
-            Apply Changes
-          </button>
-        </div>
-      </div>
-    </div>
-  );
+const PAGE_OCR_STYLES: Record<PageOcrStatus, { label: string; className: string }> = {
+  text: { label: 'text layer', className: 'bg-slate-300' },
+  queued: { label: 'waiting for OCR', className: 'bg-slate-200 ring-1 ring-inset ring-slate-300' },
+  running: { label: 'running OCR', className: 'bg-blue-500 animate-pulse' },
+  done: { label: 'OCR done', className: 'bg-green-500' },
+  error: { label: 'OCR failed', className: 'bg-red-500' }
 };
 
-const CameraModal: React.FC<{
-  onCapture: (base64: string) => void;
-  onClose: () => void;
-}> = ({ onCapture, onClose }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [stream, setStream] = useState<MediaStream | null>(null);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
-  const [currentDevice, setCurrentDevice] = useState<string>('');
-  const [cameraError, setCameraError] = useState<string | null>(null);
-
-  const startCamera = async (deviceId?: string) => {
-    try {
-      setCameraError(null);
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
+const App: React.FC = () => {
+  const [files, setFiles] = useState<FileDataExtended[]>([]);
+  const [status, setStatus] = useState<ExtractionStatus>(ExtractionStatus.IDLE);
+  const [history, setHistory] = useState(() => createHistory());
+  const [checkedRows, setCheckedRows] = useState<Set<number>>(new Set());
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [ruleConfig, setRuleConfig] = useState<RuleConfig>(() => loadRuleConfig());
+  const [showRulesModal, setShowRulesModal] = useState<boolean>(false);
+  const [localeId, setLocaleId] = useState<string>(() => loadLocaleId());
+  // Line items with their document header joined in; row indices match history.present.data
+  const { data, rowMeta } = useMemo(() => joinHeaders(history.present), [history.present]);
+  const documents = history.present.documents || [];
+  const [hoveredCell, setHoveredCell] = useState<HoveredCell | null>(null);
+  const [reviewMode, setReviewMode] = useState<boolean>(false);
+  const [reviewFileIndex, setReviewFileIndex] = useState<number>(0);
+  // Provenance columns and per-file grouping of the results table
+  const [showSourceColumns, setShowSourceColumns] = useState<boolean>(false);
+  const [groupRowsByFile, setGroupRowsByFile] = useState<boolean>(false);
+  // Batch analysis: findings are reviewed in a panel, kept ones are remembered with the batch
+  const [showFindings, setShowFindings] = useState<boolean>(false);
+  const [keptFindings, setKeptFindings] = useState<string[]>([]);
+  const [priceHistory, setPriceHistory] = useState<PriceHistory>({});
+  const [catalog, setCatalog] = useState<ProductCatalog | null>(null);
+  const [catalogAliases, setCatalogAliases] = useState<CatalogAlias[]>([]);
+  const [showCatalogModal, setShowCatalogModal] = useState<boolean>(false);
+  const [selectedCell, setSelectedCell] = useState<CellRef | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Uploads that were not queued, with the reason
+  const [intakeRejections, setIntakeRejections] = useState<IntakeRejection[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState<boolean>(false);
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [queueState, setQueueState] = useState<QueueState | null>(null);
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number }>({ done: 0, total: 0 });
+  const queueControlRef = useRef<QueueControl | null>(null);
+  const [workspace, setWorkspace] = useState<{ id: string; createdAt: number } | null>(null);
+  const [workspaceReady, setWorkspaceReady] = useState<boolean>(false);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => loadProviderSettings());
+  const [showProviderSettings, setShowProviderSettings] = useState<boolean>(false);
+  const [isOnline, setIsOnline] = useState<boolean>(() => navigator.onLine);
+  const [isOcrEnabled, setIsOcrEnabled] = useState<boolean>(true);
+  // Straighten and resize images before OCR and extraction
+  const [isPreprocessEnabled, setIsPreprocessEnabled] = useState<boolean>(true);
+  const [ocrLanguages, setOcrLanguages] = useState<OcrLanguageSettings>(() => loadOcrLanguageSettings());
+  const [previewFileId, setPreviewFileId] = useState<string | null>(null);
+  const [showCamera, setShowCamera] = useState<boolean>(false);
+  const [mappingColumns, setMappingColumns] = useState<MappingColumn[]>([]);
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [showMappingModal, setShowMappingModal] = useState<boolean>(false);
+  const [schemas, setSchemas] = useState<ExtractionSchema[]>(() => loadSchemas());
+  const [selectedSchemaId, setSelectedSchemaId] = useState<string>(DEFAULT_SCHEMA_ID);
+  const [resultSchema, setResultSchema] = useState<ExtractionSchema | null>(null);
+  const [showSchemaModal, setShowSchemaModal] = useState<boolean>(false);
+  // Classify each document and extract it with the schema of its type
+  const [routeByType, setRouteByType] = useState<boolean>(true);
+  const [typeFilter, setTypeFilter] = useState<DocumentType | null>(null);
 
-      const constraints: MediaStreamConstraints = {
-        video: deviceId 
-          ? { deviceId: { ideal: deviceId } } 
-          : { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } }
-      };
+  const selectedSchema = schemas.find(s => s.id === selectedSchemaId) || schemas[0];
+  const documentLocale = getLocale(localeId);
+  const headerMapping = useMemo(() => columnLabels(mappingColumns), [mappingColumns]);
+  const activeProvider = resolveProvider(providerSettings, isOnline);
+  const activeProfile = mappingProfiles.find(p => p.id === activeProfileId) || null;
 
-      const newStream = await navigator.mediaDevices.getUserMedia(constraints);
-      setStream(newStream);
-      if (videoRef.current) {
-        videoRef.current.srcObject = newStream;
-      }
-    } catch (err: any) {
-      console.error("Camera error:", err);
-      setCameraError(err.message || "Could not access camera. Please ensure you have granted permission.");
-    }
-  };
+  // Schema each file was extracted with; files extracted before routing use the batch schema
+  const fileSchemaResolver = (sourceFiles: WorkspaceFile[], fallback: ExtractionSchema | null) =>
+    (fileId?: string): ExtractionSchema | null => {
+      const schemaId = sourceFiles.find(f => f.id === fileId)?.schemaId;
+      if (!schemaId) return fallback;
+      return schemaId === fallback?.id ? fallback : schemas.find(s => s.id === schemaId) || fallback;
+    };
+  const schemaOfFile = fileSchemaResolver(files, resultSchema);
+  // Union of the schemas the queue was extracted with, for table columns, mapping and export
+  const batchSchema = useMemo(() => {
+    const used = files.map(f => f.schemaId ? schemaOfFile(f.id) : null).filter((s): s is ExtractionSchema => !!s);
+    return mergeSchemas(used) || resultSchema;
+  }, [files, schemas, resultSchema]);
 
   useEffect(() => {
-    const init = async () => {
-      try {
-        const allDevices = await navigator.mediaDevices.enumerateDevices();
-        const videoDevices = allDevices.filter(d => d.kind === 'videoinput');
-        setDevices(videoDevices);
-        
-        const backCamera = videoDevices.find(d => d.label.toLowerCase().includes('back')) || videoDevices[0];
-        if (backCamera) setCurrentDevice(backCamera.deviceId);
-        
-        await startCamera(backCamera?.deviceId);
-      } catch (err) {
-        setCameraError("Failed to list camera devices.");
-      }
-    };
-    init();
+    loadProfiles().then(setMappingProfiles);
+    loadCatalog().then(setCatalog);
+    loadAliases().then(setCatalogAliases);
+  }, []);
 
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
     return () => {
-      stream?.getTracks().forEach(track => track.stop());
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
     };
   }, []);
 
-  const switchCamera = async () => {
-    if (devices.length < 2) return;
-    const currentIndex = devices.findIndex(d => d.deviceId === currentDevice);
-    const nextIndex = (currentIndex + 1) % devices.length;
-    const nextDevice = devices[nextIndex];
-    setCurrentDevice(nextDevice.deviceId);
-    await startCamera(nextDevice.deviceId);
-  };
-
-  const capture = () => {
-    if (!videoRef.current || !canvasRef.current) return;
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-    const base64 = canvas.toDataURL('image/jpeg', 0.85);
-    setCapturedImage(base64);
-  };
-
-  const confirmCapture = () => {
-    if (capturedImage) {
-      onCapture(capturedImage.split(',')[1]);
-      onClose();
+  useEffect(() => {
+    const activeId = loadActiveBatchId();
+    if (!activeId) {
+      setWorkspaceReady(true);
+      return;
     }
-  };
+    loadBatch(activeId)
+      .then(saved => {
+        if (saved) applyWorkspace(saved.batch, saved.files);
+      })
+      .catch(err => console.warn('Could not restore workspace:', err))
+      .finally(() => setWorkspaceReady(true));
+  }, []);
 
-  return (
-    <div className="fixed inset-0 z-[100] bg-slate-900/95 backdrop-blur-sm flex flex-col items-center justify-center p-4">
-      <div className="relative w-full max-w-2xl bg-black rounded-3xl overflow-hidden shadow-2xl border border-white/10 aspect-[3/4] sm:aspect-video flex flex-col">
-        <button 
-          onClick={onClose}
-          className="absolute top-4 right-4 z-10 bg-black/40 hover:bg-black/60 text-white p-2 rounded-full backdrop-blur-md transition-colors"
-        >
-          <X size={20} />
-        </button>
-
-        {cameraError ? (
-          <div className="flex-1 flex flex-col items-center justify-center p-8 text-center space-y-4">
-            <div className="w-16 h-16 bg-red-500/10 rounded-full flex items-center justify-center text-red-500">
-              <AlertTriangle size={32} />
-            </div>
-            <h3 className="text-white text-lg font-bold">Camera Access Error</h3>
-            <p className="text-slate-400 text-sm max-w-xs">{cameraError}</p>
-            <button 
-              onClick={() => startCamera(currentDevice)}
-              className="px-6 py-2 bg-blue-600 text-white rounded-full font-semibold hover:bg-blue-700 transition-colors"
-            >
-              Try Again
-            </button>
-          </div>
-        ) : !capturedImage ? (
-          <div className="relative flex-1 bg-black flex items-center justify-center overflow-hidden">
-            <video 
-              ref={videoRef} 
-              autoPlay 
-              playsInline 
-              muted
-              className="w-full h-full object-cover"
-            />
-            <div className="absolute inset-0 border-[2px] border-white/20 m-12 rounded-xl flex items-center justify-center pointer-events-none">
-              <div className="absolute top-0 left-0 w-8 h-8 border-t-4 border-l-4 border-blue-500 rounded-tl-lg" />
-              <div className="absolute top-0 right-0 w-8 h-8 border-t-4 border-r-4 border-blue-500 rounded-tr-lg" />
-              <div className="absolute bottom-0 left-0 w-8 h-8 border-b-4 border-l-4 border-blue-500 rounded-bl-lg" />
-              <div className="absolute bottom-0 right-0 w-8 h-8 border-b-4 border-r-4 border-blue-500 rounded-br-lg" />
-              <div className="w-full h-[2px] bg-blue-500/50 shadow-[0_0_15px_rgba(59,130,246,0.8)] animate-scan" />
-            </div>
-            
-            <div className="absolute bottom-8 left-0 right-0 flex items-center justify-center gap-6 px-4">
-              {devices.length > 1 && (
-                <button 
-                  onClick={switchCamera}
-                  className="p-4 bg-white/10 hover:bg-white/20 text-white rounded-full backdrop-blur-md transition-all"
-                >
-                  <RotateCcw size={24} />
-                </button>
-              )}
-              <button 
-                onClick={capture}
-                className="w-16 h-16 bg-white rounded-full border-[4px] border-blue-500/50 flex items-center justify-center group active:scale-95 transition-all shadow-lg"
-              >
-                <div className="w-12 h-12 bg-white rounded-full border-[2px] border-slate-200 group-hover:bg-slate-50 transition-colors" />
-              </button>
-              <div className="w-14" />
-            </div>
-          </div>
-        ) : (
-          <div className="relative flex-1 bg-black flex flex-col items-center justify-center">
-            <img src={capturedImage} className="w-full h-full object-contain" alt="Captured document" />
-            <div className="absolute bottom-8 flex gap-4">
-              <button 
-                onClick={() => setCapturedImage(null)}
-                className="bg-slate-800 hover:bg-slate-700 text-white px-6 py-3 rounded-full font-semibold flex items-center gap-2 transition-all shadow-lg"
-              >
-                <RotateCcw size={18} />
-                Retake
-              </button>
-              <button 
-                onClick={confirmCapture}
-                className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 rounded-full font-semibold flex items-center gap-2 transition-all shadow-lg"
-              >
-                <Check size={18} />
-                Use Photo
-              </button>
-            </div>
-          </div>
-        )}
-      </div>
-      <canvas ref={canvasRef} className="hidden" />
-      
-      {!cameraError && <p className="mt-4 text-white/60 text-sm font-medium">Position your document within the frame</p>}
-
-      <style>{`
-        @keyframes scan {
-          0% { top: 10%; }
-          100% { top: 90%; }
-        }
-        .animate-scan {
-          position: absolute;
-          animation: scan 3s linear infinite alternate;
-        }
-      `}</style>
-    </div>
-  );
-};
+  const persistWorkspace = (target: { id: string; createdAt: number } | null = workspace) => {
+    if (!target || (files.length === 0 && history.present.data.length === 0)) return Promise.resolve();
+    return saveBatch(
+      {
+        ...target,
+        name: `${files[0]?.name || 'Batch'}${files.length > 1 ? ` + ${files.length - 1} more` : ''}`,
+        updatedAt: Date.now(),
+        records: history.present,
+        mappingColumns,
+        activeProfileId,
+        schema: batchSchema,
+        localeId,
+        keptFindings
+      },
+      files
+    ).catch(err => {
+      console.warn('Could not save workspace:', err);
+      setError(`Could not save the workspace locally: ${err.message}. Free up space from the History panel.`);
+    });
+  };
 
-const App: React.FC = () => {
-  const [files, setFiles] = useState<FileDataExtended[]>([]);
-  const [status, setStatus] = useState<ExtractionStatus>(ExtractionStatus.IDLE);
-  const [data, setData] = useState<ExtractedItem[]>([]);
-  const [error, setError] = useState<string | null>(null);
-  const [currentFileIndex, setCurrentFileIndex] = useState<number>(-1);
-  const [isOcrEnabled, setIsOcrEnabled] = useState<boolean>(true);
-  const [showCamera, setShowCamera] = useState<boolean>(false);
-  const [headerMapping, setHeaderMapping] = useState<Record<string, string>>({});
-  const [showMappingModal, setShowMappingModal] = useState<boolean>(false);
+  // Autosave the open batch so the queue, records, edits and mapping survive a reload
+  useEffect(() => {
+    if (!workspaceReady || (files.length === 0 && history.present.data.length === 0)) return;
+    if (!workspace) {
+      const created = { id: newBatchId(), createdAt: Date.now() };
+      setWorkspace(created);
+      saveActiveBatchId(created.id);
+      return;
+    }
+    const timer = setTimeout(() => persistWorkspace(), WORKSPACE_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [workspaceReady, workspace, files, history.present, mappingColumns, activeProfileId, batchSchema, localeId, keptFindings]);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFiles = e.target.files;
-    if (!selectedFiles) return;
+  // Content hashes of queued files with their names. Files are added as they are queued, so
+  // uploads ingested at the same time see each other before the queue re-renders
+  const queuedHashesRef = useRef<Map<string, string>>(new Map());
+  useEffect(() => {
+    queuedHashesRef.current = new Map(files.filter(f => f.contentHash).map(f => [f.contentHash!, f.name]));
+  }, [files]);
 
-    const fileArray = Array.from(selectedFiles) as File[];
+  /**
+   * Queues a file unless the same content already is, returning why it was not queued.
+   */
+  const queueIfNew = (file: IntakeFile): IntakeRejection | null => {
+    const existing = queuedHashesRef.current.get(file.hash);
+    if (existing) {
+      return { name: file.name, reason: existing === file.name ? 'Already in the queue' : `Duplicate of ${existing}, already in the queue` };
+    }
+    queuedHashesRef.current.set(file.hash, file.name);
+    addFileToQueue(file);
+    return null;
+  };
 
-    fileArray.forEach((selectedFile) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const base64 = (reader.result as string).split(',')[1];
-        addFileToQueue(base64, selectedFile.type, selectedFile.name);
-      };
-      reader.readAsDataURL(selectedFile);
-    });
-    
+  /**
+   * Queues uploaded, dropped and pasted files. Each is identified by its content: archives and
+   * emails expand into the files they contain, and content already in the queue is reported
+   * instead of being extracted a second time.
+   */
+  const ingestUploads = async (entries: UploadEntry[]) => {
+    if (entries.length === 0) return;
     setError(null);
     setStatus(ExtractionStatus.IDLE);
+
+    const rejected: IntakeRejection[] = [];
+    for (const entry of entries) {
+      const tooLarge = sizeRejection(entry.file.size, MAX_ARCHIVE_SIZE);
+      if (tooLarge) {
+        rejected.push({ name: entry.name, reason: tooLarge });
+        continue;
+      }
+      const intake = await prepareUpload(entry.name, new Uint8Array(await entry.file.arrayBuffer()));
+      intake.files.forEach(file => {
+        const duplicate = queueIfNew(file);
+        if (duplicate) rejected.push(duplicate);
+      });
+      rejected.push(...intake.rejected);
+    }
+    setIntakeRejections(rejected);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files) return;
+    const entries = entriesFromFileList(e.target.files);
+    // Picking the same files again should fire another change
+    e.target.value = '';
+    ingestUploads(entries);
   };
 
-  const addFileToQueue = (base64: string, mimeType: string, name: string) => {
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    ingestUploads(await entriesFromDataTransfer(e.dataTransfer));
+  };
+
+  const addFileToQueue = ({ base64, mimeType, name, hash }: IntakeFile) => {
     const fileData: FileDataExtended = {
-      id: Math.random().toString(36).substr(2, 9),
+      // Stable across sessions and unique in the queue, which never holds the same content twice
+      id: hash.slice(0, 16),
       base64,
       mimeType,
       name,
+      contentHash: hash,
       status: 'pending',
       ocrStatus: 'idle'
     };
     setFiles(prev => [...prev, fileData]);
     setError(null);
     setStatus(ExtractionStatus.IDLE);
+
+    // The text layer and spreadsheet cells are cheap to read, so PDFs and spreadsheets show
+    // their type before extraction starts; images are classified once OCR has run
+    if (mimeType === 'application/pdf') {
+      extractTextFromPdf({ base64, contentHash: hash })
+        .then(({ text }) => setFiles(prev => prev.map(f =>
+          f.id === fileData.id && !f.classification ? { ...f, classification: classifyDocument(text, name) } : f
+        )))
+        .catch(err => console.warn(`Could not classify ${name}:`, err));
+    } else if (SPREADSHEET_FILE_TYPES.includes(mimeType)) {
+      try {
+        const classification = classifyDocument(spreadsheetText(base64, mimeType), name);
+        setFiles(prev => prev.map(f => f.id === fileData.id && !f.classification ? { ...f, classification } : f));
+      } catch (err) {
+        console.warn(`Could not classify ${name}:`, err);
+      }
+    }
   };
 
-  const handleCameraCapture = (base64: string) => {
+  // Several captured pages become one PDF so they are extracted as a single document
+  const handleCameraCapture = async (pages: ScannedPage[]) => {
     const timestamp = new Date().toLocaleTimeString().replace(/:/g, '-');
-    addFileToQueue(base64, 'image/jpeg', `Scan_${timestamp}.jpg`);
+    const file = pages.length === 1
+      ? { name: `Scan_${timestamp}.jpg`, mimeType: 'image/jpeg', base64: pages[0].base64 }
+      : { name: `Scan_${timestamp}.pdf`, mimeType: 'application/pdf', base64: jpegPagesToPdf(pages, SCAN_PDF_DPI) };
+    const duplicate = queueIfNew({ ...file, hash: await contentHash(base64ToBytes(file.base64)) });
+    setIntakeRejections(duplicate ? [duplicate] : []);
   };
 
   const removeFile = (id: string) => {
     setFiles(prev => prev.filter(f => f.id !== id));
+    applyEdit(records => removeFileRecords(records, id), true);
+    releaseOcrCache(files.find(f => f.id === id)?.contentHash);
     if (files.length <= 1) {
-      setData([]);
+      resetRecords();
       setStatus(ExtractionStatus.IDLE);
-      setHeaderMapping({});
+      setMappingColumns([]);
+      setActiveProfileId(null);
+      // An emptied queue is not worth keeping in history
+      if (workspace) deleteBatch(workspace.id).catch(err => console.warn('Could not delete batch:', err));
+      setWorkspace(null);
+      saveActiveBatchId(null);
     }
   };
 
-  const processBatch = async () => {
+  const updateFile = (id: string, changes: Partial<FileDataExtended>) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, ...changes } : f));
+  };
+
+  /**
+   * Sets the document type by hand, or clears it for detection on the next run. A completed
+   * file whose new type maps to another schema loses its records and is queued again.
+   */
+  const overrideFileType = (id: string, type: DocumentType | '') => {
+    const file = files.find(f => f.id === id);
+    if (!file) return;
+    const classification: DocumentClassification | undefined = type ? { type, confidence: 1, source: 'manual' } : undefined;
+    const needsRerun = file.status === 'completed' && !!type && schemaForType(type, schemas, selectedSchema).id !== file.schemaId;
+    if (needsRerun) {
+      applyEdit(records => removeFileRecords(records, id), true);
+      updateFile(id, { classification, status: 'pending', schemaId: undefined });
+      setStatus(ExtractionStatus.IDLE);
+    } else {
+      updateFile(id, { classification });
+    }
+  };
+
+  /**
+   * Runs the extraction queue. By default every file that has not completed yet is processed
+   * (all files when everything already completed); `failedOnly` re-runs just the failed ones.
+   * Rows are appended as each file completes so an interrupted batch keeps its progress.
+   */
+  const processBatch = async (failedOnly: boolean = false) => {
     if (files.length === 0) return;
 
+    const remaining = files.filter(f => failedOnly ? f.status === 'error' : f.status !== 'completed');
+    const jobs = remaining.length > 0 || failedOnly ? remaining : files;
+    if (jobs.length === 0) return;
+
+    const provider = resolveProvider(providerSettings, navigator.onLine);
+    const providerProblem = provider.checkSettings(providerSettings);
+    if (providerProblem) {
+      setError(providerProblem);
+      return;
+    }
+    const isFullRun = jobs.length === files.length;
+    const jobIds = new Set(jobs.map(f => f.id));
+
+    const control = createQueueControl(setQueueState);
+    queueControlRef.current = control;
+    setQueueState('running');
     setStatus(ExtractionStatus.PROCESSING);
     setError(null);
-    const allExtractedData: ExtractedItem[] = [];
-    
-    for (let i = 0; i < files.length; i++) {
-      setCurrentFileIndex(i);
-      setFiles(prev => prev.map((f, idx) => idx === i ? { ...f, status: 'processing' } : f));
+    setBatchProgress({ done: 0, total: jobs.length });
+    if (isFullRun) {
+      setResultSchema(selectedSchema);
+      resetRecords();
+    }
+    setFiles(prev => prev.map(f => jobIds.has(f.id) ? { ...f, status: 'pending', error: undefined, retryCount: 0, schemaId: undefined, preprocessed: undefined, language: undefined, pageOcr: undefined } : f));
+
+    const extractedRows: ExtractedItem[] = [];
+    const usedSchemas: ExtractionSchema[] = [];
+    let extractedDocuments = 0;
+    let failures = 0;
+
+    await runQueue(jobs, async (file) => {
+      updateFile(file.id, { status: 'processing' });
 
       try {
-        let ocrText = '';
-        if (isOcrEnabled) {
-          setFiles(prev => prev.map((f, idx) => idx === i ? { ...f, ocrStatus: 'running' } : f));
-          
+        // OCR and the model both read the preprocessed copy of an image
+        let source = { base64: file.base64, mimeType: file.mimeType };
+        let preprocessed: PreprocessSummary | undefined;
+        if (isPreprocessEnabled && file.mimeType.startsWith('image/')) {
+          try {
+            const prepared = await preprocessImage(file);
+            if (prepared.changed) {
+              source = { base64: prepared.base64, mimeType: prepared.mimeType };
+              preprocessed = prepared.summary;
+            }
+          } catch (prepErr) {
+            console.warn('Preprocessing failed, using the original image:', prepErr);
+          }
+        }
+
+        // Spreadsheets are already structured: their columns are mapped, not read or extracted
+        const isSpreadsheet = SPREADSHEET_FILE_TYPES.includes(file.mimeType);
+        const detectLanguages = ocrLanguages.autoDetect && ocrLanguages.languages.length > 1;
+        let language: LanguageDetection | null = null;
+        let ocr: OcrResult = { text: '', words: [] };
+        if (isSpreadsheet) {
+          updateFile(file.id, { ocrStatus: 'skipped' });
+        } else if (isOcrEnabled) {
+          updateFile(file.id, { ocrStatus: 'running' });
+
           try {
-            if (files[i].mimeType === 'application/pdf') {
-              ocrText = await extractTextFromPdf(files[i].base64);
-            } else if (files[i].mimeType.startsWith('image/')) {
-              ocrText = await performImageOcr(files[i].base64, files[i].mimeType);
+            if (file.mimeType === 'application/pdf') {
+              // Scanned pages are OCR'd; pages with a text layer are read directly
+              ocr = await extractTextFromPdf(file, {
+                ocrLanguages: ocrLanguages.languages,
+                onPageStatus: pageOcr => updateFile(file.id, { pageOcr })
+              });
+            } else if (file.mimeType.startsWith('image/')) {
+              ocr = await performImageOcr(source.base64, source.mimeType, ocrLanguages.languages);
+              // A second pass with only the detected language reads better than the combination
+              language = detectLanguages ? detectLanguage(ocr.text, ocrLanguages.languages) : null;
+              if (language) ocr = await performImageOcr(source.base64, source.mimeType, ocrLanguagesFor(ocrLanguages, language));
             }
-            setFiles(prev => prev.map((f, idx) => idx === i ? { ...f, ocrStatus: 'done' } : f));
+            updateFile(file.id, { ocrStatus: 'done' });
           } catch (ocrErr) {
             console.warn('OCR Failed:', ocrErr);
-            setFiles(prev => prev.map((f, idx) => idx === i ? { ...f, ocrStatus: 'error' } : f));
+            updateFile(file.id, { ocrStatus: 'error' });
           }
         }
 
-        const result = await extractDataFromDocument(files[i].base64, files[i].mimeType, ocrText);
-        allExtractedData.push(...result.extracted_data);
-        setFiles(prev => prev.map((f, idx) => idx === i ? { ...f, status: 'completed' } : f));
+        const needsText = (routeByType && file.classification?.source !== 'manual') || (ocrLanguages.autoDetect && !language);
+        const text = !needsText
+          ? ''
+          : isSpreadsheet
+            ? spreadsheetText(file.base64, file.mimeType)
+            : ocr.text || (file.mimeType === 'application/pdf' ? (await extractTextFromPdf(file)).text : '');
+        if (ocrLanguages.autoDetect && !language) language = detectLanguage(text, ocrLanguages.languages);
+        const documentLanguage = language || configuredLanguage(ocrLanguages);
+
+        let classification = file.classification;
+        if (routeByType && classification?.source !== 'manual') {
+          classification = classifyDocument(text, file.name);
+          updateFile(file.id, { classification });
+        }
+        const schema = routeByType ? schemaForType(classification?.type, schemas, selectedSchema) : selectedSchema;
+
+        const request: ExtractionRequest = {
+          base64: source.base64,
+          mimeType: source.mimeType,
+          contentHash: source.base64 === file.base64 ? file.contentHash : undefined,
+          ocr,
+          schema,
+          settings: providerSettings,
+          documentType: routeByType ? classification?.type : undefined,
+          language: documentLanguage?.language
+        };
+        const retrying = <T,>(task: () => Promise<T>) => withRetry(task, {
+          maxRetries: MAX_RETRIES,
+          baseDelayMs: RETRY_BASE_DELAY_MS,
+          control,
+          onRetry: (attempt, err, delay) => updateFile(file.id, {
+            retryCount: attempt,
+            error: `${err.message} (retrying in ${Math.ceil(delay / 1000)}s)`
+          })
+        });
+        const result = isSpreadsheet
+          ? importSpreadsheet(file.base64, file.mimeType, schema)
+          : await shouldChunk(request, provider)
+          ? await extractInChunks(request, provider, {
+              run: retrying,
+              onProgress: (done, total) => updateFile(file.id, { chunkProgress: { done, total } })
+            })
+          : await retrying(() => provider.extract(request));
+        const { lines, header } = normalizeDocument(
+          { data: result.extracted_data, rowMeta: crossCheckWithOcr(result, ocr.words, file.id) },
+          headerFromResponse(result, ocr.words, file.id),
+          localeForLanguage(documentLanguage, documentLocale),
+          schema
+        );
+        extractedRows.push(...lines.data.map(row => ({ ...header?.fields, ...row })));
+        if (header) extractedDocuments++;
+        if (!usedSchemas.includes(schema)) usedSchemas.push(schema);
+        const rowSource: RowSource = isSpreadsheet
+          ? { fileName: file.name, extractedAt: new Date().toISOString(), provider: 'spreadsheet', model: SPREADSHEET_IMPORT_MODEL }
+          : {
+              fileName: file.name,
+              extractedAt: new Date().toISOString(),
+              provider: provider.id,
+              model: provider.modelName(providerSettings),
+              promptVersion: provider.promptVersion ?? undefined
+            };
+        appendRecords(file.id, {
+          ...lines,
+          rowMeta: withSource(lines.rowMeta, rowSource),
+          documents: header ? [{ ...header, meta: { ...header.meta, source: rowSource } }] : []
+        }, !isFullRun);
+        updateFile(file.id, { status: 'completed', error: undefined, chunkProgress: undefined, schemaId: schema.id, preprocessed, language: documentLanguage });
       } catch (err: any) {
-        console.error(`Error processing ${files[i].name}:`, err);
-        setError(`Failed to extract data from ${files[i].name}: ${err.message}`);
-        setFiles(prev => prev.map((f, idx) => idx === i ? { ...f, status: 'error' } : f));
-        setStatus(ExtractionStatus.ERROR);
-        return; // Stop processing on critical error
+        if (err instanceof CancelledError) {
+          updateFile(file.id, { status: 'pending', error: undefined, chunkProgress: undefined });
+          return;
+        }
+        console.error(`Error processing ${file.name}:`, err);
+        failures++;
+        updateFile(file.id, { status: 'error', error: err.message, chunkProgress: undefined });
       }
+      releaseOcrCache(file.contentHash);
+      setBatchProgress(prev => ({ ...prev, done: prev.done + 1 }));
+    }, concurrency, control);
+
+    queueControlRef.current = null;
+    setQueueState(null);
+
+    if (failures > 0) {
+      setError(`${failures} of ${jobs.length} file${jobs.length === 1 ? '' : 's'} failed. See the queue for details and use "Retry failed" to re-run them.`);
     }
+    const hasData = extractedRows.length > 0 || extractedDocuments > 0 || (!isFullRun && (data.length > 0 || documents.length > 0));
+    setStatus(hasData ? ExtractionStatus.SUCCESS : failures > 0 ? ExtractionStatus.ERROR : ExtractionStatus.IDLE);
+    if (hasData) reviewBatch();
 
-    setData(allExtractedData);
-    setStatus(ExtractionStatus.SUCCESS);
-    setCurrentFileIndex(-1);
+    if (isFullRun && extractedRows.length > 0) {
+      const keys = (mergeSchemas(usedSchemas) || selectedSchema).fields.map(f => f.name);
+      const profile = findMatchingProfile(mappingProfiles, extractedRows, keys);
+      setMappingColumns(profile ? withMissingFields(profile.columns, keys) : defaultColumns(keys));
+      setActiveProfileId(profile ? profile.id : null);
+    }
+  };
+
+  const exportRecords = (
+    records: RecordSet,
+    columns: MappingColumn[],
+    sourceFiles: WorkspaceFile[],
+    schema: ExtractionSchema | null,
+    baseName: string
+  ) => {
+    if (records.data.length === 0 && !records.documents?.length) return;
 
-    if (allExtractedData.length > 0) {
-      const keys = Object.keys(allExtractedData[0]);
-      const initialMapping: Record<string, string> = {};
-      keys.forEach(k => {
-        initialMapping[k] = k;
+    // Line items with their header repeated, plus header-only rows for documents without lines
+    const rows = denormalizedRows(records, schema);
+    const headers = schema ? schema.fields.map(f => f.name) : Object.keys(rows.data[0]);
+    const sourceFormats = rows.rowMeta.map(meta => {
+      const formats: Record<string, CellFormat> = {};
+      Object.entries(meta.cells).forEach(([key, cell]) => {
+        if (cell.format) formats[key] = cell.format;
       });
-      setHeaderMapping(initialMapping);
+      return formats;
+    });
+    const exportColumns = withMissingFields(columns, headers);
+    const { rows: mappedData, cellFormats } = applyColumns(rows.data, sourceFormats, exportColumns);
+
+    if (exportOptions.includeCatalog && catalog) {
+      const matches = matchCatalog(rows.data, rows.rowMeta, catalog, catalogAliases);
+      mappedData.forEach((newItem, idx) => Object.assign(newItem, catalogColumnsOf(matches[idx])));
     }
+    if (exportOptions.includeProvenance) {
+      const names = Object.fromEntries(sourceFiles.map(f => [f.id, f.name]));
+      mappedData.forEach((newItem, idx) => Object.assign(newItem, provenanceOf(rows.rowMeta[idx], names)));
+    }
+    if (exportOptions.includeAuditColumn) {
+      mappedData.forEach((newItem, idx) => {
+        newItem['Human_Edits'] = describeEdits(rows.data[idx], rows.rowMeta[idx]) || null;
+      });
+    }
+
+    const documents: ExportDocument[] = sourceFiles
+      .map(file => ({
+        id: file.id,
+        name: file.name,
+        rows: rows.rowMeta.map((meta, idx) => meta.fileId === file.id ? idx : -1).filter(idx => idx !== -1),
+        headerOnly: !records.rowMeta.some(meta => meta.fileId === file.id)
+      }))
+      .filter(doc => doc.rows.length > 0);
+    // Rows of files no longer in the queue, and rows added by hand to a table without line items
+    const assigned = new Set(documents.flatMap(doc => doc.rows));
+    const unassigned = rows.data.map((_, idx) => idx).filter(idx => !assigned.has(idx));
+    if (unassigned.length > 0) documents.push({ id: UNASSIGNED_DOCUMENT_ID, name: 'Unassigned', rows: unassigned });
+
+    const headerFieldNames = documentFieldsOf(schema).map(f => f.name);
+    const headerColumns = exportColumns
+      .filter(col => !col.hidden && (col.kind === 'field' || col.kind === 'merge'))
+      .filter(col => col.sources.length > 0 && col.sources.every(source => headerFieldNames.includes(source)))
+      .map(col => col.header);
+
+    const schemaOf = fileSchemaResolver(sourceFiles, schema);
+    const issues = exportOptions.includeValidationSheet
+      ? violationsToRows(runValidationBySchema(rows.data, rows.rowMeta, meta => schemaOf(meta?.fileId), ruleConfig))
+      : [];
+
+    exportData(
+      {
+        rows: mappedData,
+        cellFormats,
+        documents,
+        headerColumns,
+        extraSheets: issues.length > 0 ? [{ name: 'Validation', rows: issues }] : []
+      },
+      exportOptions,
+      baseName
+    );
   };
 
   const handleExport = () => {
-    if (data.length === 0) return;
+    exportRecords(history.present, mappingColumns, files, batchSchema, `Extracted_Data_${new Date().toISOString().split('T')[0]}`);
+  };
 
-    const mappedData = data.map(item => {
-      const newItem: ExtractedItem = {};
-      Object.keys(item).forEach(key => {
-        const mappedKey = headerMapping[key] || key;
-        newItem[mappedKey] = item[key];
-      });
-      return newItem;
-    });
+  const exportSavedBatch = async (id: string) => {
+    const saved = await loadBatch(id);
+    if (!saved) return;
+    const { batch } = saved;
+    exportRecords(
+      batch.records,
+      batch.mappingColumns,
+      batch.files,
+      batch.schema,
+      `Extracted_Data_${new Date(batch.createdAt).toISOString().split('T')[0]}`
+    );
+  };
+
+  const openSavedBatch = async (id: string) => {
+    await persistWorkspace();
+    const saved = await loadBatch(id);
+    if (!saved) {
+      setError('That batch could not be found in local storage.');
+      return;
+    }
+    applyWorkspace(saved.batch, saved.files);
+    saveActiveBatchId(id);
+    setShowHistory(false);
+  };
 
-    downloadAsExcel(mappedData, `Extracted_Data_${new Date().toISOString().split('T')[0]}.xlsx`);
+  const applyWorkspace = (batch: WorkspaceBatch, restoredFiles: FileDataExtended[]) => {
+    setWorkspace({ id: batch.id, createdAt: batch.createdAt });
+    setFiles(restoredFiles);
+    resetRecords(batch.records);
+    setMappingColumns(batch.mappingColumns);
+    setActiveProfileId(batch.activeProfileId);
+    setResultSchema(batch.schema);
+    setLocaleId(batch.localeId);
+    setKeptFindings(batch.keptFindings || []);
+    setShowFindings(false);
+    setReviewMode(false);
+    setError(null);
+    setStatus(batch.records.data.length > 0 || batch.records.documents?.length ? ExtractionStatus.SUCCESS : ExtractionStatus.IDLE);
   };
 
-  const reset = () => {
+  // The open batch stays in history unless it was just deleted from there
+  const reset = (persist: boolean = true) => {
+    if (persist) persistWorkspace();
+    setWorkspace(null);
+    saveActiveBatchId(null);
     setFiles([]);
-    setData([]);
+    resetRecords();
+    setReviewMode(false);
+    setSelectedCell(null);
     setStatus(ExtractionStatus.IDLE);
     setError(null);
-    setCurrentFileIndex(-1);
-    setHeaderMapping({});
+    setMappingColumns([]);
+    setActiveProfileId(null);
+    setResultSchema(null);
+    setKeptFindings([]);
+    setShowFindings(false);
+  };
+
+  const resetRecords = (records?: RecordSet) => {
+    setHistory(createHistory(records));
+    clearOcrCache();
+    setCheckedRows(new Set());
+    setSelectedCell(null);
+  };
+
+  const appendRecords = (fileId: string, extracted: RecordSet, asEdit: boolean) => {
+    // A file extracted again replaces its earlier records
+    const append = (current: RecordSet): RecordSet => {
+      const records = removeFileRecords(current, fileId);
+      return {
+        data: [...records.data, ...extracted.data],
+        rowMeta: [...records.rowMeta, ...extracted.rowMeta],
+        documents: upsertDocuments(records.documents, extracted.documents || [])
+      };
+    };
+    if (asEdit) applyEdit(append, true);
+    else setHistory(prev => createHistory(append(prev.present)));
+  };
+
+  const applyEdit = (edit: (records: RecordSet) => RecordSet, structural: boolean = false) => {
+    setHistory(prev => {
+      const next = edit(prev.present);
+      return next === prev.present ? prev : pushHistory(prev, next);
+    });
+    if (structural) {
+      setCheckedRows(new Set());
+      setSelectedCell(null);
+    }
+  };
+
+  const updateOcrLanguages = (next: OcrLanguageSettings) => {
+    setOcrLanguages(next);
+    saveOcrLanguageSettings(next);
+  };
+
+  const toggleOcrLanguage = (id: string) => {
+    const languages = ocrLanguages.languages.includes(id)
+      ? ocrLanguages.languages.filter(l => l !== id)
+      : [...ocrLanguages.languages, id];
+    // OCR always needs at least one language
+    if (languages.length > 0) updateOcrLanguages({ ...ocrLanguages, languages });
+  };
+
+  const cellValueFor = (header: string, input: string, previous: ExtractedItem[string] | undefined, fileId: string | undefined) => {
+    const fieldType = batchSchema?.fields.find(f => f.name === header)?.type;
+    const locale = localeForLanguage(files.find(f => f.id === fileId)?.language, documentLocale);
+    return fieldType && fieldType !== 'string' && fieldType !== 'enum'
+      ? normalizeValue(input, locale, fieldType).value
+      : parseCellInput(input, previous);
+  };
+
+  const handleEditDocumentField = (fileId: string, field: string, input: string) => {
+    applyEdit(records => {
+      const previous = records.documents?.find(doc => doc.fileId === fileId)?.fields[field];
+      return editDocumentField(records, fileId, field, cellValueFor(field, input, previous, fileId));
+    });
+  };
+
+  const handleEditCell = (row: number, header: string, input: string) => {
+    const field = batchSchema?.fields.find(f => f.name === header);
+    const fileId = rowMeta[row]?.fileId;
+    // Header columns shown on a line item edit the document they belong to
+    if (field && isDocumentField(field) && fileId) {
+      handleEditDocumentField(fileId, header, input);
+      return;
+    }
+    applyEdit(records => editCell(records, row, header, cellValueFor(header, input, records.data[row]?.[header], fileId)));
+  };
+
+  /**
+   * Opens the batch review with unit prices of the saved batches loaded for comparison.
+   */
+  const reviewBatch = () => {
+    loadPriceHistory(workspace?.id ?? null)
+      .then(setPriceHistory)
+      .catch(err => console.warn('Could not load price history:', err))
+      .finally(() => setShowFindings(true));
+  };
+
+  const keepFinding = (finding: BatchFinding) => {
+    setKeptFindings(prev => prev.includes(finding.id) ? prev : [...prev, finding.id]);
+  };
+
+  const dropFinding = (finding: BatchFinding) => {
+    applyEdit(records => finding.kind === 'duplicate-document'
+      ? removeFileRecords(records, finding.fileId)
+      : deleteRows(records, finding.rows), true);
+  };
+
+  const toggleCheckedRow = (row: number) => {
+    setCheckedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(row)) next.delete(row);
+      else next.add(row);
+      return next;
+    });
+  };
+
+  const checkedList = Array.from(checkedRows).sort((a, b) => a - b);
+  const completedCount = files.filter(f => f.status === 'completed').length;
+  const failedCount = files.filter(f => f.status === 'error').length;
+  const pendingCount = files.length - completedCount;
+
+  const undo = useCallback(() => {
+    setHistory(prev => undoHistory(prev));
+    setCheckedRows(new Set());
+    setSelectedCell(null);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => redoHistory(prev));
+    setCheckedRows(new Set());
+    setSelectedCell(null);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Pasted screenshots are queued like uploads; pasting into a field is left alone
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      const pasted = Array.from(e.clipboardData?.files || []);
+      if (pasted.length === 0) return;
+      e.preventDefault();
+      const timestamp = new Date().toLocaleTimeString().replace(/:/g, '-');
+      // Browsers name every pasted image "image.png"
+      ingestUploads(pasted.map((file, idx) => ({
+        file,
+        name: file.type.startsWith('image/')
+          ? `Paste_${timestamp}${pasted.length > 1 ? `_${idx + 1}` : ''}.${file.type.split('/')[1].replace('jpeg', 'jpg')}`
+          : file.name
+      })));
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [files]);
+
+  const handleSaveProfile = async (profile: MappingProfile) => {
+    await saveProfile(profile);
+    setMappingProfiles(await loadProfiles());
+  };
+
+  const handleDeleteProfile = async (id: string) => {
+    await deleteProfile(id);
+    setMappingProfiles(await loadProfiles());
+    if (activeProfileId === id) setActiveProfileId(null);
+  };
+
+  const handleImportCatalog = async (file: File) => {
+    const imported = await importCatalog(file.name, new Uint8Array(await file.arrayBuffer()));
+    await saveCatalog(imported);
+    setCatalog(imported);
+  };
+
+  const handleRemoveCatalog = () => {
+    deleteCatalog().catch(err => console.warn('Could not remove the product catalog:', err));
+    setCatalog(null);
   };
 
-  const originalHeaders = data.length > 0 
-    ? Array.from(new Set(Object.keys(data[0]))) 
+  const handleDeleteAlias = (key: string) => {
+    deleteAlias(key).catch(err => console.warn('Could not delete the catalog alias:', err));
+    setCatalogAliases(prev => prev.filter(alias => alias.key !== key));
+  };
+
+  /**
+   * Pins a row to a catalog product and learns the supplier's code for it, so the same code
+   * from the same supplier matches automatically from now on.
+   */
+  const handlePickCatalogEntry = (row: number, sku: string | null | undefined) => {
+    applyEdit(records => setCatalogSku(records, row, sku));
+    const alias = sku ? aliasFromRow(data[row], sku) : null;
+    if (!alias) return;
+    saveAlias(alias).catch(err => console.warn('Could not save the catalog alias:', err));
+    setCatalogAliases(prev => [...prev.filter(a => a.key !== alias.key), alias]);
+  };
+
+  const handleSchemasSave = (updated: ExtractionSchema[], selectedId: string) => {
+    saveSchemas(updated);
+    setSchemas(updated);
+    setSelectedSchemaId(selectedId);
+    setShowSchemaModal(false);
+  };
+
+  const hasResults = data.length > 0 || documents.length > 0;
+  const originalHeaders = hasResults
+    ? batchSchema
+      ? batchSchema.fields.map(f => f.name)
+      : Array.from(new Set(Object.keys(data[0] || {})))
     : [];
 
+  // Files with results per document type, for the type filter
+  const resultTypes = useMemo(() => {
+    const withResults = new Set([...rowMeta.map(meta => meta.fileId), ...documents.map(doc => doc.fileId)]);
+    const counts = new Map<DocumentType, number>();
+    files.forEach(f => {
+      if (f.classification && withResults.has(f.id)) counts.set(f.classification.type, (counts.get(f.classification.type) || 0) + 1);
+    });
+    return counts;
+  }, [files, rowMeta, documents]);
+  const activeTypeFilter = typeFilter && resultTypes.has(typeFilter) ? typeFilter : null;
+  const fileTypeOf = (fileId?: string) => files.find(f => f.id === fileId)?.classification?.type;
+  const typeRowIndices = useMemo(() => {
+    if (resultTypes.size < 2) return undefined;
+    const indices = data.map((_, idx) => idx);
+    if (activeTypeFilter) return indices.filter(idx => fileTypeOf(rowMeta[idx]?.fileId) === activeTypeFilter);
+    // Without a filter, rows are grouped by type
+    const order = (idx: number) => DOCUMENT_TYPES.findIndex(t => t.id === (fileTypeOf(rowMeta[idx]?.fileId) || 'other'));
+    return indices.sort((a, b) => order(a) - order(b) || a - b);
+  }, [data, rowMeta, files, resultTypes, activeTypeFilter]);
+  const tableRowIndices = useMemo(() => {
+    if (!groupRowsByFile) return typeRowIndices;
+    return groupByFile(typeRowIndices || data.map((_, idx) => idx), rowMeta);
+  }, [typeRowIndices, groupRowsByFile, data, rowMeta]);
+  const fileNames = useMemo(() => Object.fromEntries(files.map(f => [f.id, f.name])), [files]);
+
+  // A filtered view shows the columns of the filtered type only
+  const viewSchema = activeTypeFilter
+    ? mergeSchemas(
+        files
+          .filter(f => f.classification?.type === activeTypeFilter && f.schemaId)
+          .map(f => schemaOfFile(f.id))
+          .filter((s): s is ExtractionSchema => !!s)
+      ) || batchSchema
+    : batchSchema;
+  const viewHeaders = viewSchema && hasResults ? viewSchema.fields.map(f => f.name) : originalHeaders;
+  const headerFields = documentFieldsOf(viewSchema);
+  // Header fields move out of the table into the headers panel unless denormalized
+  const tableHeaders = exportOptions.denormalize || headerFields.length === 0
+    ? viewHeaders
+    : viewHeaders.filter(h => !headerFields.some(f => f.name === h));
+
+  // Analysed once extraction is done, not on every row that arrives
+  const findings = useMemo(
+    () => status === ExtractionStatus.PROCESSING ? [] : analyzeBatch(history.present, files, priceHistory),
+    [history.present, files, priceHistory, status]
+  );
+  const openFindings = findings.filter(finding => !keptFindings.includes(finding.id));
+  const catalogMatches = useMemo(
+    () => catalog ? matchCatalog(data, rowMeta, catalog, catalogAliases) : undefined,
+    [data, rowMeta, catalog, catalogAliases]
+  );
+
+  const violations = useMemo(
+    () => runValidationBySchema(data, rowMeta, meta => schemaOfFile(meta?.fileId), ruleConfig),
+    [data, rowMeta, files, schemas, resultSchema, ruleConfig]
+  );
+  const rowViolations = useMemo(() => {
+    const grouped: RuleViolation[][] = data.map(() => []);
+    violations.forEach(v => grouped[v.row]?.push(v));
+    return grouped;
+  }, [data, violations]);
+  const invalidRowCount = rowViolations.filter(v => v.length > 0).length;
+  const lowConfidenceCount = rowMeta.reduce(
+    (count, meta) => count + Object.values(meta.cells).filter(c => c.confidence < LOW_CONFIDENCE_THRESHOLD).length,
+    0
+  );
+  const hoveredMeta = hoveredCell ? rowMeta[hoveredCell.row]?.cells[hoveredCell.header] : undefined;
+
+  const reviewFile = files[Math.min(reviewFileIndex, files.length - 1)];
+  const reviewRowIndices = useMemo(
+    () => data.map((_, idx) => idx).filter(idx => rowMeta[idx]?.fileId === reviewFile?.id),
+    [data, rowMeta, reviewFile]
+  );
+  const visibleDocuments = reviewMode
+    ? documents.filter(doc => doc.fileId === reviewFile?.id)
+    : activeTypeFilter ? documents.filter(doc => fileTypeOf(doc.fileId) === activeTypeFilter) : documents;
+
+  const viewerHighlight = useMemo<ViewerHighlight | null>(() => {
+    if (!selectedCell) return null;
+    const meta = rowMeta[selectedCell.row];
+    if (!meta) return null;
+    const candidates = selectedCell.header
+      ? [meta.cells[selectedCell.header]].filter(Boolean)
+      : Object.values(meta.cells);
+    const located = candidates.filter(c => c.bbox && c.page);
+    if (located.length === 0) return meta.page ? { page: meta.page, boxes: [] } : null;
+    const page = located[0].page!;
+    return { page, boxes: located.filter(c => c.page === page).map(c => c.bbox!) };
+  }, [selectedCell, rowMeta]);
+
+  const stepReviewFile = (delta: number) => {
+    setReviewFileIndex(prev => Math.max(0, Math.min(files.length - 1, prev + delta)));
+    setSelectedCell(null);
+  };
+
+  const toggleReviewMode = () => {
+    if (!reviewMode) {
+      const firstWithRows = files.findIndex(f => rowMeta.some(m => m.fileId === f.id));
+      setReviewFileIndex(Math.max(0, firstWithRows));
+    }
+    setSelectedCell(null);
+    setReviewMode(!reviewMode);
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 pb-12">
       {showCamera && (
@@ -430,14 +1118,94 @@ const App: React.FC = () => {
         />
       )}
 
+      {hoveredCell && hoveredMeta && (
+        <CellSourcePopover
+          file={files.find(f => f.id === rowMeta[hoveredCell.row]?.fileId)}
+          meta={hoveredMeta}
+          anchor={hoveredCell.rect}
+        />
+      )}
+
+      {previewFileId && files.some(f => f.id === previewFileId) && (
+        <PreprocessPreviewModal
+          file={files.find(f => f.id === previewFileId)!}
+          onClose={() => setPreviewFileId(null)}
+        />
+      )}
+
+      {showProviderSettings && (
+        <ProviderSettingsModal
+          settings={providerSettings}
+          onSave={(settings) => {
+            saveProviderSettings(settings);
+            setProviderSettings(settings);
+            setShowProviderSettings(false);
+          }}
+          onClose={() => setShowProviderSettings(false)}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryModal
+          activeBatchId={workspace?.id || null}
+          busy={status === ExtractionStatus.PROCESSING}
+          onOpen={openSavedBatch}
+          onExport={exportSavedBatch}
+          onDeleted={(id) => {
+            if (id === workspace?.id) reset(false);
+          }}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showCatalogModal && (
+        <CatalogModal
+          catalog={catalog}
+          aliases={catalogAliases}
+          onImport={handleImportCatalog}
+          onRemoveCatalog={handleRemoveCatalog}
+          onDeleteAlias={handleDeleteAlias}
+          onClose={() => setShowCatalogModal(false)}
+        />
+      )}
+
+      {showRulesModal && (
+        <RulesModal
+          config={ruleConfig}
+          fields={originalHeaders}
+          onSave={(config) => {
+            saveRuleConfig(config);
+            setRuleConfig(config);
+            setShowRulesModal(false);
+          }}
+          onClose={() => setShowRulesModal(false)}
+        />
+      )}
+
+      {showSchemaModal && (
+        <SchemaEditorModal
+          schemas={schemas}
+          selectedId={selectedSchemaId}
+          onSave={handleSchemasSave}
+          onClose={() => setShowSchemaModal(false)}
+        />
+      )}
+
       {showMappingModal && (
         <MappingModal
-          headers={originalHeaders}
-          mapping={headerMapping}
-          onSave={(newMapping) => {
-            setHeaderMapping(newMapping);
+          fields={originalHeaders}
+          columns={withMissingFields(mappingColumns, originalHeaders)}
+          sampleRows={data}
+          vendor={detectVendor(data)}
+          profiles={mappingProfiles}
+          activeProfileId={activeProfileId}
+          onApply={(columns, profileId) => {
+            setMappingColumns(columns);
+            setActiveProfileId(profileId);
             setShowMappingModal(false);
           }}
+          onSaveProfile={handleSaveProfile}
+          onDeleteProfile={handleDeleteProfile}
           onClose={() => setShowMappingModal(false)}
         />
       )}
@@ -461,31 +1229,71 @@ const App: React.FC = () => {
                </button>
             </div>
 
+            <button
+              onClick={() => setShowProviderSettings(true)}
+              title="Extraction engine"
+              className="flex items-center gap-2 text-slate-500 hover:text-blue-600 px-3 py-2 rounded-lg font-medium transition-all"
+            >
+              {activeProvider.id !== providerSettings.provider ? <WifiOff size={18} className="text-amber-500" /> : <Cpu size={18} />}
+              <span className="hidden lg:inline text-sm">
+                {activeProvider.label}
+                {activeProvider.id !== providerSettings.provider && ' (offline)'}
+              </span>
+            </button>
+
+            <button
+              onClick={() => setShowCatalogModal(true)}
+              title="Product catalog"
+              className="flex items-center gap-2 text-slate-500 hover:text-blue-600 px-3 py-2 rounded-lg font-medium transition-all"
+            >
+              <PackageSearch size={18} />
+              <span className="hidden md:inline">Catalog</span>
+            </button>
+
+            <button
+              onClick={() => setShowHistory(true)}
+              title="Batch history"
+              className="flex items-center gap-2 text-slate-500 hover:text-blue-600 px-3 py-2 rounded-lg font-medium transition-all"
+            >
+              <History size={18} />
+              <span className="hidden md:inline">History</span>
+            </button>
+
             {files.length > 0 && status !== ExtractionStatus.PROCESSING && (
                <button
-               onClick={reset}
+               onClick={() => reset()}
                className="flex items-center gap-2 text-slate-500 hover:text-red-500 px-3 py-2 rounded-lg font-medium transition-all"
              >
                <Trash2 size={18} />
                Clear
              </button>
             )}
-            {data.length > 0 && (
+            {hasResults && (
               <div className="flex items-center gap-2">
                 <button
-                  onClick={() => setShowMappingModal(true)}
-                  className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-4 py-2 rounded-lg font-medium transition-all border border-slate-200"
+                  onClick={toggleReviewMode}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all border ${
+                    reviewMode
+                      ? 'bg-blue-50 text-blue-700 border-blue-200'
+                      : 'bg-slate-100 hover:bg-slate-200 text-slate-700 border-slate-200'
+                  }`}
                 >
-                  <Settings2 size={18} />
-                  <span className="hidden md:inline">Headers</span>
+                  <PanelRight size={18} />
+                  <span className="hidden md:inline">Review</span>
                 </button>
                 <button
-                  onClick={handleExport}
-                  className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-all shadow-md active:shadow-sm"
+                  onClick={() => setShowMappingModal(true)}
+                  className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-4 py-2 rounded-lg font-medium transition-all border border-slate-200"
                 >
-                  <Download size={18} />
-                  Export
+                  <Settings2 size={18} />
+                  <span className="hidden md:inline">{activeProfile ? activeProfile.name : 'Headers'}</span>
                 </button>
+                <ExportMenu
+                  options={exportOptions}
+                  onChange={setExportOptions}
+                  onExport={handleExport}
+                  hasCatalog={!!catalog}
+                />
               </div>
             )}
           </div>
@@ -506,22 +1314,170 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {intakeRejections.length > 0 && (
+          <div className="mb-8 p-4 bg-amber-50 border border-amber-200 rounded-xl flex items-start gap-3 text-amber-800 animate-in fade-in slide-in-from-top-4">
+            <AlertTriangle className="shrink-0 mt-0.5" size={20} />
+            <div className="flex-1 min-w-0">
+              <p className="font-bold text-sm">
+                {intakeRejections.length} file{intakeRejections.length === 1 ? ' was' : 's were'} not added
+              </p>
+              <ul className="text-xs opacity-90 space-y-0.5 mt-1">
+                {intakeRejections.map((rejection, idx) => (
+                  <li key={idx} className="truncate">
+                    <span className="font-semibold">{rejection.name}</span>: {rejection.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <button onClick={() => setIntakeRejections([])} className="p-1 hover:bg-amber-100 rounded">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           
-          <div className="lg:col-span-4 space-y-6">
-            <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+          <div className={`lg:col-span-4 space-y-6 ${reviewMode ? 'hidden' : ''}`}>
+            <div
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDraggingFiles(true);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+              }}
+              onDrop={handleDrop}
+              className={`relative bg-white p-6 rounded-2xl shadow-sm border transition-all ${isDraggingFiles ? 'border-blue-400 ring-4 ring-blue-100' : 'border-slate-200'}`}
+            >
+              {isDraggingFiles && (
+                <div className="absolute inset-0 z-30 rounded-2xl bg-blue-50/90 flex flex-col items-center justify-center gap-2 text-blue-600 pointer-events-none">
+                  <FileUp size={28} />
+                  <p className="text-sm font-bold">Drop files, folders or ZIP archives</p>
+                </div>
+              )}
               <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
                 <Files size={20} className="text-blue-500" />
                 Document Queue
               </h2>
               
-              <div className="grid grid-cols-2 gap-3 mb-6">
+              <div className="mb-4 space-y-1.5">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">Extraction Schema</label>
+                <div className="flex gap-2">
+                  <select
+                    value={selectedSchema.id}
+                    onChange={(e) => setSelectedSchemaId(e.target.value)}
+                    disabled={status === ExtractionStatus.PROCESSING}
+                    className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {schemas.map(schema => (
+                      <option key={schema.id} value={schema.id}>{schema.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setShowSchemaModal(true)}
+                    disabled={status === ExtractionStatus.PROCESSING}
+                    title="Manage schemas"
+                    className="p-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg border border-slate-200 transition-all"
+                  >
+                    <Layers size={16} />
+                  </button>
+                </div>
+                <p className="text-[10px] text-slate-400 px-1">
+                  {routeByType && 'For unrecognised documents \u00b7 '}
+                  {selectedSchema.fields.length} fields &middot; {selectedSchema.fields.filter(f => f.required).length} required
+                </p>
+                <label className="flex items-center gap-1.5 px-1 pt-1 text-[11px] font-medium text-slate-500 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={routeByType}
+                    onChange={(e) => setRouteByType(e.target.checked)}
+                    disabled={status === ExtractionStatus.PROCESSING}
+                    className="accent-blue-600"
+                  />
+                  Detect the document type and use its schema
+                </label>
+              </div>
+
+              <div className="mb-4 space-y-1.5">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">Document Locale</label>
+                <select
+                  value={documentLocale.id}
+                  onChange={(e) => {
+                    setLocaleId(e.target.value);
+                    saveLocaleId(e.target.value);
+                  }}
+                  disabled={status === ExtractionStatus.PROCESSING}
+                  className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {DOCUMENT_LOCALES.map(locale => (
+                    <option key={locale.id} value={locale.id}>{locale.label} &middot; {locale.decimal === ',' ? '1.234,56' : '1,234.56'} &middot; {locale.currency}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="mb-4 space-y-1.5">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">OCR Languages</label>
+                <div className="flex flex-wrap gap-1.5">
+                  {OCR_LANGUAGES.map(language => (
+                    <button
+                      key={language.id}
+                      onClick={() => toggleOcrLanguage(language.id)}
+                      disabled={status === ExtractionStatus.PROCESSING}
+                      className={`px-2.5 py-1 rounded-full text-[11px] font-semibold border transition-all ${
+                        ocrLanguages.languages.includes(language.id)
+                          ? 'bg-blue-50 text-blue-700 border-blue-200'
+                          : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+                      }`}
+                    >
+                      {language.label}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-1.5 px-1 pt-1 text-[11px] font-medium text-slate-500 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={ocrLanguages.autoDetect}
+                    onChange={(e) => updateOcrLanguages({ ...ocrLanguages, autoDetect: e.target.checked })}
+                    disabled={status === ExtractionStatus.PROCESSING}
+                    className="accent-blue-600"
+                  />
+                  Detect each document's language among these
+                </label>
+              </div>
+
+              <label className="mb-4 flex items-center justify-between px-1 cursor-pointer">
+                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Straighten &amp; resize images</span>
+                <input
+                  type="checkbox"
+                  checked={isPreprocessEnabled}
+                  onChange={(e) => setIsPreprocessEnabled(e.target.checked)}
+                  disabled={status === ExtractionStatus.PROCESSING}
+                  className="accent-blue-600"
+                />
+              </label>
+
+              <div className="mb-4 flex items-center justify-between px-1">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Files in parallel</label>
+                <select
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Number(e.target.value))}
+                  disabled={status === ExtractionStatus.PROCESSING}
+                  className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 outline-none"
+                >
+                  {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3 mb-2">
                 <div className="relative group">
                   <input
                     type="file"
                     onChange={handleFileUpload}
                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
-                    accept="image/*,.pdf"
+                    accept={UPLOAD_ACCEPT}
                     multiple
                   />
                   <div className="h-full border-2 border-dashed border-slate-300 rounded-xl p-4 text-center group-hover:border-blue-400 transition-all bg-slate-50 group-hover:bg-blue-50/30">
@@ -532,6 +1488,23 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                <div className="relative group">
+                  <input
+                    type="file"
+                    // Folder picking has no React prop; the attribute makes the input pick a folder
+                    ref={(input) => input?.setAttribute('webkitdirectory', '')}
+                    onChange={handleFileUpload}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
+                    multiple
+                  />
+                  <div className="h-full border-2 border-dashed border-slate-300 rounded-xl p-4 text-center group-hover:border-blue-400 transition-all bg-slate-50 group-hover:bg-blue-50/30">
+                    <div className="mx-auto w-8 h-8 bg-blue-50 text-blue-500 rounded-full flex items-center justify-center mb-2 group-hover:scale-110 transition-transform">
+                      <FolderUp size={16} />
+                    </div>
+                    <p className="text-[11px] font-bold text-slate-600 uppercase tracking-tight">Upload Folder</p>
+                  </div>
+                </div>
+
                 <button 
                   onClick={() => setShowCamera(true)}
                   className="group h-full border-2 border-dashed border-slate-300 rounded-xl p-4 text-center hover:border-blue-400 transition-all bg-slate-50 hover:bg-blue-50/30"
@@ -542,13 +1515,16 @@ const App: React.FC = () => {
                   <p className="text-[11px] font-bold text-slate-600 uppercase tracking-tight">Scan via Camera</p>
                 </button>
               </div>
+              <p className="text-[10px] text-slate-400 text-center mb-6">
+                Or drop files, folders and ZIP archives here, or paste a screenshot.
+              </p>
 
               <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
                 {files.map((file, idx) => (
                   <div 
                     key={file.id} 
                     className={`flex items-center justify-between p-3 rounded-lg border transition-all ${
-                      idx === currentFileIndex 
+                      file.status === 'processing'
                         ? 'bg-blue-50 border-blue-200 ring-1 ring-blue-100' 
                         : file.status === 'completed' 
                         ? 'bg-green-50/50 border-green-100'
@@ -576,9 +1552,85 @@ const App: React.FC = () => {
                         <p className="text-sm font-medium text-slate-700 truncate">{file.name}</p>
                         <div className="flex items-center gap-2">
                            <p className="text-[10px] text-slate-400 uppercase font-mono">{file.mimeType.split('/')[1]}</p>
+                           {routeByType && (
+                             <select
+                               value={file.classification?.type || ''}
+                               onChange={(e) => overrideFileType(file.id, e.target.value as DocumentType | '')}
+                               disabled={status === ExtractionStatus.PROCESSING}
+                               title={
+                                 !file.classification
+                                   ? 'Detected when extraction starts'
+                                   : file.classification.source === 'manual'
+                                   ? 'Set by hand'
+                                   : file.classification.type === 'other'
+                                   ? `No known type recognised (closest match ${Math.round(file.classification.confidence * 100)}% confidence)`
+                                   : `Detected with ${Math.round(file.classification.confidence * 100)}% confidence`
+                               }
+                               className="text-[10px] font-bold text-indigo-600 bg-transparent outline-none cursor-pointer max-w-[110px]"
+                             >
+                               {(file.status !== 'completed' || !file.classification) && <option value="">Auto-detect</option>}
+                               {DOCUMENT_TYPES.map(t => (
+                                 <option key={t.id} value={t.id}>{t.label}</option>
+                               ))}
+                             </select>
+                           )}
+                           {routeByType && file.classification?.source === 'keywords' && (
+                             <span className={`text-[10px] font-mono ${file.classification.confidence < LOW_CONFIDENCE_THRESHOLD ? 'text-amber-600' : 'text-slate-400'}`}>
+                               {Math.round(file.classification.confidence * 100)}%
+                             </span>
+                           )}
+                           {file.language && (
+                             <span
+                               title={file.language.source === 'auto'
+                                 ? `${ocrLanguageOf(file.language.language)?.label} detected with ${Math.round(file.language.confidence * 100)}% confidence`
+                                 : `${ocrLanguageOf(file.language.language)?.label} (configured)`}
+                               className="text-[10px] font-bold text-teal-600 uppercase font-mono"
+                             >
+                               {file.language.language}
+                             </span>
+                           )}
+                           {file.status === 'processing' && file.chunkProgress && (
+                             <span className="text-[10px] font-bold text-blue-600">
+                               pages part {Math.min(file.chunkProgress.done + 1, file.chunkProgress.total)}/{file.chunkProgress.total}
+                             </span>
+                           )}
+                           {!!file.retryCount && (
+                             <span className="text-[10px] font-bold text-amber-600">retry {file.retryCount}/{MAX_RETRIES}</span>
+                           )}
                         </div>
+                        {file.pageOcr?.some(page => page !== 'text') && (
+                          <div className="flex flex-wrap items-center gap-0.5 mt-1">
+                            {file.pageOcr.map((page, pageIdx) => (
+                              <span
+                                key={pageIdx}
+                                title={`Page ${pageIdx + 1}: ${PAGE_OCR_STYLES[page].label}`}
+                                className={`w-1.5 h-1.5 rounded-sm ${PAGE_OCR_STYLES[page].className}`}
+                              />
+                            ))}
+                            <span className="ml-1 text-[10px] font-mono text-slate-400">
+                              OCR {file.pageOcr.filter(page => page === 'done').length}/{file.pageOcr.filter(page => page !== 'text').length}
+                            </span>
+                          </div>
+                        )}
+                        {file.error && (
+                          <p
+                            title={file.error}
+                            className={`text-[10px] truncate ${file.status === 'error' ? 'text-red-600' : 'text-amber-600'}`}
+                          >
+                            {file.error}
+                          </p>
+                        )}
                       </div>
                     </div>
+                    {isPreprocessEnabled && file.mimeType.startsWith('image/') && (
+                      <button
+                        onClick={() => setPreviewFileId(file.id)}
+                        title={file.preprocessed ? `Preprocessed: ${describePreprocessing(file.preprocessed)}` : 'Preview preprocessing'}
+                        className={`p-1 hover:bg-slate-100 transition-colors rounded ${file.preprocessed ? 'text-blue-500' : 'text-slate-400 hover:text-blue-500'}`}
+                      >
+                        <ScanEye size={14} />
+                      </button>
+                    )}
                     {status !== ExtractionStatus.PROCESSING && (
                       <button 
                         onClick={() => removeFile(file.id)}
@@ -599,27 +1651,65 @@ const App: React.FC = () => {
               </div>
 
               {files.length > 0 && status !== ExtractionStatus.PROCESSING && (
-                <button
-                  onClick={processBatch}
-                  className="w-full mt-6 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-xl transition-all shadow-md active:scale-[0.98] flex items-center justify-center gap-2"
-                >
-                  <Scan size={18} />
-                  Extract Data
-                </button>
+                <div className="mt-6 space-y-2">
+                  <button
+                    onClick={() => processBatch()}
+                    className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-xl transition-all shadow-md active:scale-[0.98] flex items-center justify-center gap-2"
+                  >
+                    <Scan size={18} />
+                    {completedCount > 0 && pendingCount > 0 ? `Resume (${pendingCount} remaining)` : 'Extract Data'}
+                  </button>
+                  {failedCount > 0 && (
+                    <button
+                      onClick={() => processBatch(true)}
+                      className="w-full bg-white hover:bg-red-50 text-red-600 font-semibold py-2 px-4 rounded-xl border border-red-200 transition-all flex items-center justify-center gap-2 text-sm"
+                    >
+                      <RefreshCw size={16} />
+                      Retry failed ({failedCount})
+                    </button>
+                  )}
+                </div>
               )}
 
               {status === ExtractionStatus.PROCESSING && (
                 <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-xl space-y-3">
                   <div className="flex justify-between text-xs font-bold text-blue-600 uppercase tracking-wide">
-                    <span>{files[currentFileIndex]?.ocrStatus === 'running' ? 'Running OCR...' : 'Extracting Data...'}</span>
-                    <span>{currentFileIndex + 1} / {files.length}</span>
+                    <span>
+                      {queueState === 'paused'
+                        ? 'Paused'
+                        : queueState === 'cancelled'
+                        ? 'Cancelling...'
+                        : files.some(f => f.status === 'processing' && f.ocrStatus === 'running') ? 'Running OCR...' : 'Extracting Data...'}
+                    </span>
+                    <span>{batchProgress.done} / {batchProgress.total}</span>
                   </div>
                   <div className="w-full bg-slate-200 rounded-full h-1.5 overflow-hidden">
                     <div 
                       className="bg-blue-500 h-full transition-all duration-700 ease-out"
-                      style={{ width: `${((currentFileIndex + 0.5) / files.length) * 100}%` }}
+                      style={{ width: `${((batchProgress.done + 0.5) / Math.max(1, batchProgress.total)) * 100}%` }}
                     />
                   </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => queueState === 'paused' ? queueControlRef.current?.resume() : queueControlRef.current?.pause()}
+                      disabled={queueState === 'cancelled'}
+                      className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-xs font-semibold text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 disabled:opacity-40"
+                    >
+                      {queueState === 'paused' ? <Play size={14} /> : <Pause size={14} />}
+                      {queueState === 'paused' ? 'Resume' : 'Pause'}
+                    </button>
+                    <button
+                      onClick={() => queueControlRef.current?.cancel()}
+                      disabled={queueState === 'cancelled'}
+                      className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-xs font-semibold text-red-600 bg-white border border-red-200 hover:bg-red-50 disabled:opacity-40"
+                    >
+                      <CircleStop size={14} />
+                      Cancel
+                    </button>
+                  </div>
+                  {queueState === 'paused' && (
+                    <p className="text-[10px] text-slate-400">Files already running will finish; no new files start until resumed.</p>
+                  )}
                 </div>
               )}
             </div>
@@ -649,20 +1739,166 @@ const App: React.FC = () => {
             </div>
           </div>
 
-          <div className="lg:col-span-8">
+          <div className={reviewMode ? 'lg:col-span-7' : 'lg:col-span-8'}>
             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden min-h-[600px] flex flex-col">
               <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between bg-white">
                 <h2 className="text-lg font-semibold flex items-center gap-2">
                   <TableIcon size={20} className="text-slate-500" />
                   Extracted Records
                 </h2>
-                {data.length > 0 && (
-                  <span className="text-[10px] font-bold bg-blue-50 text-blue-600 px-3 py-1 rounded-full border border-blue-100 uppercase">
-                    {data.length} Rows
-                  </span>
+                {hasResults && (
+                  <div className="flex items-center gap-2">
+                    {lowConfidenceCount > 0 && (
+                      <span className="text-[10px] font-bold bg-orange-50 text-orange-600 px-3 py-1 rounded-full border border-orange-100 uppercase">
+                        {lowConfidenceCount} Low Confidence
+                      </span>
+                    )}
+                    {invalidRowCount > 0 && (
+                      <span className="text-[10px] font-bold bg-amber-50 text-amber-600 px-3 py-1 rounded-full border border-amber-100 uppercase flex items-center gap-1">
+                        <AlertTriangle size={10} />
+                        {invalidRowCount} Flagged
+                      </span>
+                    )}
+                    <span className="text-[10px] font-bold bg-blue-50 text-blue-600 px-3 py-1 rounded-full border border-blue-100 uppercase">
+                      {data.length} Rows
+                    </span>
+                  </div>
                 )}
               </div>
 
+              {hasResults && (
+                <div className="px-6 py-2 border-b border-slate-100 flex items-center gap-1 bg-slate-50/60 flex-wrap">
+                  <button
+                    onClick={undo}
+                    disabled={history.past.length === 0}
+                    title="Undo (Ctrl+Z)"
+                    className="p-1.5 rounded-lg text-slate-500 hover:bg-white hover:text-slate-700 disabled:opacity-30 transition-all"
+                  >
+                    <Undo2 size={16} />
+                  </button>
+                  <button
+                    onClick={redo}
+                    disabled={history.future.length === 0}
+                    title="Redo (Ctrl+Shift+Z)"
+                    className="p-1.5 rounded-lg text-slate-500 hover:bg-white hover:text-slate-700 disabled:opacity-30 transition-all"
+                  >
+                    <Redo2 size={16} />
+                  </button>
+                  <div className="w-px h-5 bg-slate-200 mx-1" />
+                  <button
+                    onClick={() => applyEdit(records => insertRow(
+                      records,
+                      batchSchema ? lineFieldsOf(batchSchema).map(f => f.name) : originalHeaders,
+                      checkedList.length ? checkedList[checkedList.length - 1] : undefined
+                    ), true)}
+                    className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium text-slate-600 hover:bg-white transition-all"
+                  >
+                    <Plus size={14} />
+                    Add Row
+                  </button>
+                  <button
+                    onClick={() => applyEdit(records => deleteRows(records, checkedList), true)}
+                    disabled={checkedList.length === 0}
+                    className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium text-slate-600 hover:bg-white hover:text-red-600 disabled:opacity-30 transition-all"
+                  >
+                    <Trash2 size={14} />
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => applyEdit(records => splitRow(records, checkedList[0]), true)}
+                    disabled={checkedList.length !== 1}
+                    title="Split a row that holds several lines"
+                    className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium text-slate-600 hover:bg-white disabled:opacity-30 transition-all"
+                  >
+                    <Split size={14} />
+                    Split
+                  </button>
+                  <button
+                    onClick={() => applyEdit(records => mergeRows(records, checkedList), true)}
+                    disabled={checkedList.length < 2}
+                    title="Merge selected rows into one"
+                    className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium text-slate-600 hover:bg-white disabled:opacity-30 transition-all"
+                  >
+                    <Merge size={14} />
+                    Merge
+                  </button>
+                  <div className="w-px h-5 bg-slate-200 mx-1" />
+                  <button
+                    onClick={() => setShowRulesModal(true)}
+                    className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium text-slate-600 hover:bg-white transition-all"
+                  >
+                    <ShieldCheck size={14} />
+                    Rules
+                  </button>
+                  {findings.length > 0 && (
+                    <button
+                      onClick={() => showFindings ? setShowFindings(false) : reviewBatch()}
+                      className={`flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                        showFindings ? 'bg-white text-amber-700 shadow-sm' : 'text-slate-600 hover:bg-white'
+                      }`}
+                    >
+                      <ScanSearch size={14} />
+                      Batch review
+                      {openFindings.length > 0 && (
+                        <span className="px-1.5 rounded-full bg-amber-100 text-amber-700 text-[10px] font-bold">{openFindings.length}</span>
+                      )}
+                    </button>
+                  )}
+                  {headerFields.length > 0 && (
+                    <label className="flex items-center gap-1.5 px-2 py-1.5 text-xs font-medium text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={exportOptions.denormalize}
+                        onChange={(e) => setExportOptions(prev => ({ ...prev, denormalize: e.target.checked }))}
+                        className="accent-blue-600"
+                      />
+                      Repeat header fields on rows
+                    </label>
+                  )}
+                  <label className="flex items-center gap-1.5 px-2 py-1.5 text-xs font-medium text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={showSourceColumns}
+                      onChange={(e) => setShowSourceColumns(e.target.checked)}
+                      className="accent-blue-600"
+                    />
+                    Source columns
+                  </label>
+                  {!reviewMode && (
+                    <label className="flex items-center gap-1.5 px-2 py-1.5 text-xs font-medium text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={groupRowsByFile}
+                        onChange={(e) => setGroupRowsByFile(e.target.checked)}
+                        className="accent-blue-600"
+                      />
+                      Group by file
+                    </label>
+                  )}
+                  <span className="ml-auto text-[10px] text-slate-400">Double-click a cell to edit</span>
+                </div>
+              )}
+
+              {hasResults && !reviewMode && resultTypes.size > 1 && (
+                <div className="px-6 py-2 border-b border-slate-100 flex items-center gap-1.5 bg-white flex-wrap">
+                  <Tags size={14} className="text-slate-400 mr-1" />
+                  {[null, ...DOCUMENT_TYPES.filter(t => resultTypes.has(t.id)).map(t => t.id)].map(type => (
+                    <button
+                      key={type || 'all'}
+                      onClick={() => setTypeFilter(type)}
+                      className={`px-2.5 py-1 rounded-full text-[11px] font-semibold border transition-all ${
+                        activeTypeFilter === type
+                          ? 'bg-blue-50 text-blue-700 border-blue-200'
+                          : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+                      }`}
+                    >
+                      {type ? DOCUMENT_TYPES.find(t => t.id === type)!.label : 'All types'}
+                      <span className="ml-1.5 opacity-60">{type ? resultTypes.get(type) : Array.from(resultTypes.values()).reduce((sum, n) => sum + n, 0)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
               <div className="flex-1 overflow-auto bg-slate-50/30">
                 {status === ExtractionStatus.IDLE && files.length === 0 && (
                   <div className="h-full flex flex-col items-center justify-center p-12 text-slate-400">
@@ -679,39 +1915,72 @@ const App: React.FC = () => {
                   </div>
                 )}
 
+                {showFindings && !reviewMode && findings.length > 0 && (
+                  <BatchFindingsPanel
+                    findings={openFindings}
+                    keptCount={findings.length - openFindings.length}
+                    fileNames={fileNames}
+                    onKeep={keepFinding}
+                    onDrop={dropFinding}
+                    onReviewKept={() => setKeptFindings([])}
+                    onClose={() => setShowFindings(false)}
+                  />
+                )}
+
+                {!exportOptions.denormalize || data.length === 0 ? (
+                  <DocumentHeadersPanel
+                    documents={visibleDocuments}
+                    fieldsOf={(fileId) => documentFieldsOf(schemaOfFile(fileId))}
+                    headerMapping={headerMapping}
+                    fileNames={fileNames}
+                    onEditField={handleEditDocumentField}
+                    localeId={documentLocale.id}
+                  />
+                ) : null}
+
                 {data.length > 0 ? (
-                  <div className="overflow-x-auto relative">
-                    <table className="w-full text-left text-sm border-collapse">
-                      <thead className="sticky top-0 z-10">
-                        <tr className="bg-slate-50 border-b border-slate-200">
-                          {originalHeaders.map(header => (
-                            <th key={header} className="px-6 py-4 font-bold text-slate-700 uppercase tracking-wider whitespace-nowrap text-[10px] bg-slate-50/95 backdrop-blur-sm">
-                              {headerMapping[header] ? headerMapping[header].replace(/_/g, ' ') : header.replace(/_/g, ' ')}
-                            </th>
-                          ))}
-                        </tr>
-                      </thead>
-                      <tbody className="divide-y divide-slate-100 bg-white">
-                        {data.map((row, idx) => (
-                          <tr key={idx} className="hover:bg-blue-50/40 transition-colors">
-                            {originalHeaders.map(header => (
-                              <td key={`${idx}-${header}`} className="px-6 py-4 text-slate-600 whitespace-nowrap text-[13px]">
-                                {row[header] === 'N/A' || row[header] === null ? (
-                                  <span className="text-slate-300 italic opacity-60">N/A</span>
-                                ) : (
-                                  row[header]
-                                )}
-                              </td>
-                            ))}
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
+                  <ResultsTable
+                    headers={tableHeaders}
+                    headerMapping={headerMapping}
+                    data={data}
+                    rowMeta={rowMeta}
+                    rowViolations={rowViolations}
+                    rowIndices={reviewMode ? reviewRowIndices : tableRowIndices}
+                    selectedCell={reviewMode ? selectedCell : null}
+                    onSelectCell={reviewMode ? setSelectedCell : undefined}
+                    onHoverCell={setHoveredCell}
+                    checkedRows={checkedRows}
+                    onToggleRow={toggleCheckedRow}
+                    onEditCell={handleEditCell}
+                    localeId={documentLocale.id}
+                    fileNames={fileNames}
+                    showSource={showSourceColumns}
+                    groupByFile={groupRowsByFile && !reviewMode}
+                    catalogMatches={catalogMatches}
+                    catalogEntries={catalog?.entries}
+                    onPickCatalogEntry={handlePickCatalogEntry}
+                  />
                 ) : null}
+
+                {reviewMode && reviewRowIndices.length === 0 && (
+                  <p className="text-sm text-slate-400 italic text-center py-12">No records were extracted from this file.</p>
+                )}
               </div>
             </div>
           </div>
+
+          {reviewMode && reviewFile && (
+            <div className="lg:col-span-5 lg:sticky lg:top-24 self-start">
+              <DocumentViewer
+                file={reviewFile}
+                highlight={viewerHighlight}
+                fileIndex={reviewFileIndex}
+                fileCount={files.length}
+                onPrevFile={() => stepReviewFile(-1)}
+                onNextFile={() => stepReviewFile(1)}
+              />
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Check, Copy, Files, ScanSearch, Trash2, TrendingUp, X } from 'lucide-react';
+import { BatchFinding, FindingKind } from '../types';
+
+const KIND_LABELS: Record<FindingKind, { label: string; icon: React.ReactNode }> = {
+  'duplicate-document': { label: 'Duplicate document', icon: <Files size={14} /> },
+  'duplicate-line': { label: 'Line billed twice', icon: <Copy size={14} /> },
+  'price-outlier': { label: 'Unusual price', icon: <TrendingUp size={14} /> }
+};
+
+/**
+ * Findings of the batch analysis, each kept as it is or dropped from the records.
+ */
+const BatchFindingsPanel: React.FC<{
+  findings: BatchFinding[];
+  // Findings kept earlier, hidden from the list
+  keptCount: number;
+  fileNames: Record<string, string>;
+  onKeep: (finding: BatchFinding) => void;
+  onDrop: (finding: BatchFinding) => void;
+  onReviewKept: () => void;
+  onClose: () => void;
+}> = ({ findings, keptCount, fileNames, onKeep, onDrop, onReviewKept, onClose }) => (
+  <div className="border-b border-amber-100 bg-amber-50/40">
+    <div className="px-6 py-3 flex items-center gap-2">
+      <ScanSearch size={16} className="text-amber-600" />
+      <p className="text-sm font-bold text-slate-700">
+        Batch review
+        <span className="ml-2 font-medium text-slate-400">
+          {findings.length === 0 ? 'Nothing left to review' : `${findings.length} ${findings.length === 1 ? 'finding' : 'findings'}`}
+        </span>
+      </p>
+      {keptCount > 0 && (
+        <button onClick={onReviewKept} className="text-[11px] font-medium text-blue-600 hover:underline">
+          Review {keptCount} kept again
+        </button>
+      )}
+      <button onClick={onClose} className="ml-auto p-1 text-slate-400 hover:text-slate-600 rounded-md" title="Close">
+        <X size={16} />
+      </button>
+    </div>
+    {findings.length > 0 && (
+      <ul className="px-6 pb-3 space-y-1.5 max-h-72 overflow-y-auto">
+        {findings.map(finding => (
+          <li key={finding.id} className="flex items-center gap-3 px-3 py-2 bg-white border border-amber-100 rounded-lg">
+            <span className="flex items-center gap-1.5 text-[11px] font-bold text-amber-700 whitespace-nowrap">
+              {KIND_LABELS[finding.kind].icon}
+              {KIND_LABELS[finding.kind].label}
+            </span>
+            <div className="min-w-0 flex-1">
+              <p className="text-xs text-slate-700 truncate" title={finding.message}>{finding.message}</p>
+              <p className="text-[10px] text-slate-400 truncate">
+                {fileNames[finding.fileId] || 'Document'}
+                {finding.kind === 'duplicate-document'
+                  ? ` · ${finding.rows.length} ${finding.rows.length === 1 ? 'row' : 'rows'}`
+                  : ` · row ${finding.rows[0] + 1}`}
+              </p>
+            </div>
+            <button
+              onClick={() => onKeep(finding)}
+              className="flex items-center gap-1 px-2 py-1 rounded-md text-[11px] font-semibold text-slate-600 border border-slate-200 hover:bg-slate-50"
+            >
+              <Check size={12} />
+              Keep
+            </button>
+            <button
+              onClick={() => onDrop(finding)}
+              className="flex items-center gap-1 px-2 py-1 rounded-md text-[11px] font-semibold text-red-600 border border-red-200 hover:bg-red-50"
+            >
+              <Trash2 size={12} />
+              {finding.kind === 'duplicate-document' ? 'Drop document' : 'Drop row'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default BatchFindingsPanel;
@@ -0,0 +1,361 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Check, ChevronLeft, ChevronRight, Crop, RotateCcw, Trash2, X } from 'lucide-react';
+import { SCAN_DETECT_INTERVAL_MS, SCAN_DETECT_WIDTH, SCAN_MAX_SIDE } from '../constants';
+import {
+  Quad,
+  RasterImage,
+  ScanEnhancement,
+  ScannedPage,
+  detectDocumentQuad,
+  enhanceScan,
+  scaleQuad,
+  warpPerspective,
+  warpedSize
+} from '../utils/scanUtils';
+
+const ENHANCEMENTS: { id: ScanEnhancement; label: string }[] = [
+  { id: 'none', label: 'Original' },
+  { id: 'contrast', label: 'Enhanced' },
+  { id: 'binarize', label: 'B&W' }
+];
+
+/**
+ * Draws the source into a canvas at the given width and returns its pixels.
+ */
+const sampleFrame = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, width: number): RasterImage | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.max(1, Math.round(sourceHeight * width / sourceWidth));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return { data, width: canvas.width, height: canvas.height };
+};
+
+const toJpeg = (image: RasterImage): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')!.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return canvas.toDataURL('image/jpeg', 0.85).split(',')[1];
+};
+
+const CameraModal: React.FC<{
+  // Pages in capture order after any reordering
+  onCapture: (pages: ScannedPage[]) => void;
+  onClose: () => void;
+}> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [currentDevice, setCurrentDevice] = useState<string>('');
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [pages, setPages] = useState<ScannedPage[]>([]);
+  const [autoCrop, setAutoCrop] = useState<boolean>(true);
+  const [enhancement, setEnhancement] = useState<ScanEnhancement>('contrast');
+  // Page outline found in the live preview, in video pixels
+  const [liveQuad, setLiveQuad] = useState<Quad | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const startCamera = async (deviceId?: string) => {
+    try {
+      setCameraError(null);
+      if (stream) {
+        stream.getTracks().forEach(track => track.stop());
+      }
+
+      const constraints: MediaStreamConstraints = {
+        video: deviceId
+          ? { deviceId: { ideal: deviceId } }
+          : { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } }
+      };
+
+      const newStream = await navigator.mediaDevices.getUserMedia(constraints);
+      setStream(newStream);
+      if (videoRef.current) {
+        videoRef.current.srcObject = newStream;
+      }
+    } catch (err: any) {
+      console.error("Camera error:", err);
+      setCameraError(err.message || "Could not access camera. Please ensure you have granted permission.");
+    }
+  };
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        const allDevices = await navigator.mediaDevices.enumerateDevices();
+        const videoDevices = allDevices.filter(d => d.kind === 'videoinput');
+        setDevices(videoDevices);
+
+        const backCamera = videoDevices.find(d => d.label.toLowerCase().includes('back')) || videoDevices[0];
+        if (backCamera) setCurrentDevice(backCamera.deviceId);
+
+        await startCamera(backCamera?.deviceId);
+      } catch (err) {
+        setCameraError("Failed to list camera devices.");
+      }
+    };
+    init();
+
+    return () => {
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  // Track the page outline on a small copy of the preview a few times per second
+  useEffect(() => {
+    if (!stream || !autoCrop) {
+      setLiveQuad(null);
+      return;
+    }
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || !video.videoWidth) return;
+      const frame = sampleFrame(video, video.videoWidth, video.videoHeight, SCAN_DETECT_WIDTH);
+      const quad = frame && detectDocumentQuad(frame);
+      setLiveQuad(quad ? scaleQuad(quad, video.videoWidth / SCAN_DETECT_WIDTH) : null);
+    }, SCAN_DETECT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [stream, autoCrop]);
+
+  const switchCamera = async () => {
+    if (devices.length < 2) return;
+    const currentIndex = devices.findIndex(d => d.deviceId === currentDevice);
+    const nextIndex = (currentIndex + 1) % devices.length;
+    const nextDevice = devices[nextIndex];
+    setCurrentDevice(nextDevice.deviceId);
+    await startCamera(nextDevice.deviceId);
+  };
+
+  /**
+   * Crops the frame to the detected page, removes the perspective and applies the
+   * chosen enhancement. Without a detected page the whole frame is kept.
+   */
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    setBusy(true);
+    // Let the spinner paint before the pixel work blocks the thread
+    setTimeout(() => {
+      try {
+        const frame = sampleFrame(video, video.videoWidth, video.videoHeight, video.videoWidth);
+        if (!frame) return;
+        const preview = autoCrop ? sampleFrame(video, video.videoWidth, video.videoHeight, SCAN_DETECT_WIDTH) : null;
+        const detected = preview && detectDocumentQuad(preview);
+        const quad = detected ? scaleQuad(detected, frame.width / SCAN_DETECT_WIDTH) : null;
+
+        let page = frame;
+        if (quad) {
+          const size = warpedSize(quad, SCAN_MAX_SIDE);
+          page = warpPerspective(frame, quad, size.width, size.height);
+        }
+        page = enhanceScan(page, enhancement);
+        setPages(prev => [...prev, {
+          id: Math.random().toString(36).substr(2, 9),
+          base64: toJpeg(page),
+          width: page.width,
+          height: page.height
+        }]);
+      } finally {
+        setBusy(false);
+      }
+    }, 0);
+  };
+
+  const movePage = (index: number, delta: number) => {
+    setPages(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const finish = () => {
+    if (pages.length === 0) return;
+    onCapture(pages);
+    onClose();
+  };
+
+  const video = videoRef.current;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/95 backdrop-blur-sm flex flex-col items-center justify-center p-4">
+      <div className="relative w-full max-w-2xl bg-black rounded-3xl overflow-hidden shadow-2xl border border-white/10 aspect-[3/4] sm:aspect-video flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 z-10 bg-black/40 hover:bg-black/60 text-white p-2 rounded-full backdrop-blur-md transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        {cameraError ? (
+          <div className="flex-1 flex flex-col items-center justify-center p-8 text-center space-y-4">
+            <div className="w-16 h-16 bg-red-500/10 rounded-full flex items-center justify-center text-red-500">
+              <AlertTriangle size={32} />
+            </div>
+            <h3 className="text-white text-lg font-bold">Camera Access Error</h3>
+            <p className="text-slate-400 text-sm max-w-xs">{cameraError}</p>
+            <button
+              onClick={() => startCamera(currentDevice)}
+              className="px-6 py-2 bg-blue-600 text-white rounded-full font-semibold hover:bg-blue-700 transition-colors"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : (
+          <div className="relative flex-1 bg-black flex items-center justify-center overflow-hidden">
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className="w-full h-full object-cover"
+            />
+            {liveQuad && video ? (
+              // Same box and aspect handling as the object-cover video, so video pixels line up
+              <svg
+                viewBox={`0 0 ${video.videoWidth} ${video.videoHeight}`}
+                preserveAspectRatio="xMidYMid slice"
+                className="absolute inset-0 w-full h-full pointer-events-none"
+              >
+                <polygon
+                  points={liveQuad.map(p => `${p.x},${p.y}`).join(' ')}
+                  className="fill-blue-500/15 stroke-blue-400"
+                  strokeWidth={Math.max(3, video.videoWidth / 300)}
+                  strokeLinejoin="round"
+                />
+              </svg>
+            ) : (
+              <div className="absolute inset-0 border-[2px] border-white/20 m-12 rounded-xl flex items-center justify-center pointer-events-none">
+                <div className="absolute top-0 left-0 w-8 h-8 border-t-4 border-l-4 border-blue-500 rounded-tl-lg" />
+                <div className="absolute top-0 right-0 w-8 h-8 border-t-4 border-r-4 border-blue-500 rounded-tr-lg" />
+                <div className="absolute bottom-0 left-0 w-8 h-8 border-b-4 border-l-4 border-blue-500 rounded-bl-lg" />
+                <div className="absolute bottom-0 right-0 w-8 h-8 border-b-4 border-r-4 border-blue-500 rounded-br-lg" />
+                <div className="w-full h-[2px] bg-blue-500/50 shadow-[0_0_15px_rgba(59,130,246,0.8)] animate-scan" />
+              </div>
+            )}
+
+            <div className="absolute top-4 left-4 flex items-center gap-2">
+              <button
+                onClick={() => setAutoCrop(!autoCrop)}
+                title="Detect the page edges and straighten the page"
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold backdrop-blur-md transition-colors ${
+                  autoCrop ? 'bg-blue-600 text-white' : 'bg-black/40 text-white/70 hover:bg-black/60'
+                }`}
+              >
+                <Crop size={14} />
+                Auto-crop
+              </button>
+              <div className="flex bg-black/40 rounded-full p-0.5 backdrop-blur-md">
+                {ENHANCEMENTS.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setEnhancement(option.id)}
+                    className={`px-2.5 py-1 rounded-full text-xs font-semibold transition-colors ${
+                      enhancement === option.id ? 'bg-white text-slate-900' : 'text-white/70 hover:text-white'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="absolute bottom-8 left-0 right-0 flex items-center justify-center gap-6 px-4">
+              {devices.length > 1 ? (
+                <button
+                  onClick={switchCamera}
+                  className="p-4 bg-white/10 hover:bg-white/20 text-white rounded-full backdrop-blur-md transition-all"
+                >
+                  <RotateCcw size={24} />
+                </button>
+              ) : (
+                <div className="w-14" />
+              )}
+              <button
+                onClick={capture}
+                disabled={busy}
+                className="w-16 h-16 bg-white rounded-full border-[4px] border-blue-500/50 flex items-center justify-center group active:scale-95 transition-all shadow-lg disabled:opacity-50"
+              >
+                <div className="w-12 h-12 bg-white rounded-full border-[2px] border-slate-200 group-hover:bg-slate-50 transition-colors" />
+              </button>
+              <button
+                onClick={finish}
+                disabled={pages.length === 0}
+                title={pages.length > 1 ? 'Add the pages to the queue as one document' : 'Add the page to the queue'}
+                className="w-14 h-14 bg-blue-600 hover:bg-blue-700 text-white rounded-full flex items-center justify-center shadow-lg transition-all disabled:opacity-0"
+              >
+                <Check size={24} />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {pages.length > 0 && (
+        <div className="mt-4 w-full max-w-2xl flex gap-3 overflow-x-auto pb-2">
+          {pages.map((page, idx) => (
+            <div key={page.id} className="relative shrink-0 w-20 group">
+              <img
+                src={`data:image/jpeg;base64,${page.base64}`}
+                alt={`Page ${idx + 1}`}
+                className="w-20 h-28 object-cover rounded-lg border border-white/20 bg-white"
+              />
+              <span className="absolute top-1 left-1 text-[10px] font-bold bg-black/60 text-white px-1.5 rounded">{idx + 1}</span>
+              <div className="absolute bottom-1 left-1 right-1 flex justify-between opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => movePage(idx, -1)}
+                  disabled={idx === 0}
+                  title="Move earlier"
+                  className="p-0.5 bg-black/60 text-white rounded disabled:opacity-30"
+                >
+                  <ChevronLeft size={12} />
+                </button>
+                <button
+                  onClick={() => setPages(prev => prev.filter(p => p.id !== page.id))}
+                  title="Delete page"
+                  className="p-0.5 bg-black/60 text-white hover:text-red-400 rounded"
+                >
+                  <Trash2 size={12} />
+                </button>
+                <button
+                  onClick={() => movePage(idx, 1)}
+                  disabled={idx === pages.length - 1}
+                  title="Move later"
+                  className="p-0.5 bg-black/60 text-white rounded disabled:opacity-30"
+                >
+                  <ChevronRight size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!cameraError && (
+        <p className="mt-4 text-white/60 text-sm font-medium">
+          {pages.length === 0
+            ? 'Position your document within the frame'
+            : `${pages.length} page${pages.length === 1 ? '' : 's'} captured · capture the next page or confirm to add ${pages.length === 1 ? 'it' : 'them as one document'}`}
+        </p>
+      )}
+
+      <style>{`
+        @keyframes scan {
+          0% { top: 10%; }
+          100% { top: 90%; }
+        }
+        .animate-scan {
+          position: absolute;
+          animation: scan 3s linear infinite alternate;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default CameraModal;
@@ -0,0 +1,156 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, Loader2, PackageSearch, Trash2, Upload, X } from 'lucide-react';
+import { CatalogAlias, ProductCatalog } from '../types';
+
+// Catalog rows shown as a preview
+const PREVIEW_ENTRIES = 8;
+
+/**
+ * Imports the product catalog extracted lines are matched against, and lists the supplier
+ * codes learned from manual matches.
+ */
+const CatalogModal: React.FC<{
+  catalog: ProductCatalog | null;
+  aliases: CatalogAlias[];
+  onImport: (file: File) => Promise<void>;
+  onRemoveCatalog: () => void;
+  onDeleteAlias: (key: string) => void;
+  onClose: () => void;
+}> = ({ catalog, aliases, onImport, onRemoveCatalog, onDeleteAlias, onClose }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState<boolean>(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    setImportError(null);
+    try {
+      await onImport(file);
+    } catch (err: any) {
+      setImportError(`Could not import ${file.name}: ${err.message}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <PackageSearch size={20} className="text-emerald-500" />
+              Product Catalog
+            </h3>
+            <p className="text-xs text-slate-500">Extracted lines are matched to your products by code, description and unit</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <section className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-slate-700 truncate">{catalog ? catalog.fileName : 'No catalog imported'}</p>
+                <p className="text-[11px] text-slate-400">
+                  {catalog
+                    ? `${catalog.entries.length} products · imported ${new Date(catalog.importedAt).toLocaleString()}`
+                    : 'CSV or Excel with a product code and a name column; unit and price columns are optional.'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {catalog && (
+                  <button
+                    onClick={onRemoveCatalog}
+                    className="flex items-center gap-1 px-3 py-2 rounded-lg text-xs font-semibold text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 size={14} />
+                    Remove
+                  </button>
+                )}
+                <button
+                  onClick={() => inputRef.current?.click()}
+                  disabled={importing}
+                  className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-semibold bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50"
+                >
+                  {importing ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+                  {catalog ? 'Replace' : 'Import'}
+                </button>
+                <input ref={inputRef} type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleFile} />
+              </div>
+            </div>
+            {importError && (
+              <p className="flex items-start gap-2 p-3 bg-red-50 border border-red-100 rounded-xl text-xs text-red-700">
+                <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                {importError}
+              </p>
+            )}
+            {catalog && (
+              <table className="w-full text-left text-xs border border-slate-100 rounded-lg overflow-hidden">
+                <thead className="bg-slate-50 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+                  <tr>
+                    <th className="px-3 py-2">SKU</th>
+                    <th className="px-3 py-2">Name</th>
+                    <th className="px-3 py-2">Unit</th>
+                    <th className="px-3 py-2 text-right">Price</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-slate-600">
+                  {catalog.entries.slice(0, PREVIEW_ENTRIES).map(entry => (
+                    <tr key={entry.sku}>
+                      <td className="px-3 py-1.5 font-medium text-slate-700">{entry.sku}</td>
+                      <td className="px-3 py-1.5 truncate max-w-[16rem]">{entry.name}</td>
+                      <td className="px-3 py-1.5">{entry.unit}</td>
+                      <td className="px-3 py-1.5 text-right">{entry.price?.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {catalog && catalog.entries.length > PREVIEW_ENTRIES && (
+              <p className="text-[11px] text-slate-400">and {catalog.entries.length - PREVIEW_ENTRIES} more</p>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <div>
+              <p className="text-sm font-bold text-slate-700">Learned supplier codes</p>
+              <p className="text-[11px] text-slate-400">
+                Picking a catalog product for a line (double-click its Catalog SKU) teaches the supplier's code, or its
+                description when it has no code, so the next invoice from that supplier is matched automatically.
+              </p>
+            </div>
+            {aliases.length === 0 ? (
+              <p className="text-xs text-slate-400 italic py-2">Nothing learned yet.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                {aliases.map(alias => (
+                  <li key={alias.key} className="flex items-center gap-3 px-3 py-2 text-xs">
+                    <span className="w-32 truncate text-slate-500" title={alias.vendor}>{alias.vendor || 'Any supplier'}</span>
+                    <span className="flex-1 truncate font-medium text-slate-700" title={alias.code}>{alias.code}</span>
+                    <span className="text-slate-400">→</span>
+                    <span className="w-28 truncate font-semibold text-emerald-700">{alias.sku}</span>
+                    <button
+                      onClick={() => onDeleteAlias(alias.key)}
+                      title="Forget"
+                      className="p-1 text-slate-400 hover:text-red-500 rounded-md"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogModal;
@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle2, Loader2, ScanSearch } from 'lucide-react';
+import { CellMeta, FileData } from '../types';
+import { imageSourceOf, renderPdfPage } from '../utils/ocrUtils';
+
+const PREVIEW_WIDTH = 260;
+const PREVIEW_HEIGHT = 90;
+// Extra context around the region, as a fraction of the page
+const REGION_PADDING = 0.03;
+
+const CellSourcePopover: React.FC<{
+  file?: FileData;
+  meta: CellMeta;
+  anchor: DOMRect;
+}> = ({ file, meta, anchor }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!file || !meta.bbox) return;
+    let cancelled = false;
+    const bbox = meta.bbox;
+
+    const draw = async () => {
+      setLoading(true);
+      try {
+        const src = file.mimeType === 'application/pdf'
+          ? await renderPdfPage(file, meta.page || 1)
+          : await imageSourceOf(file);
+        const img = new Image();
+        img.src = src;
+        await img.decode();
+        if (cancelled || !canvasRef.current) return;
+
+        const sx = Math.max(0, bbox.x - REGION_PADDING) * img.naturalWidth;
+        const sy = Math.max(0, bbox.y - REGION_PADDING) * img.naturalHeight;
+        const sw = Math.min(1, bbox.width + REGION_PADDING * 2) * img.naturalWidth;
+        const sh = Math.min(1, bbox.height + REGION_PADDING * 2) * img.naturalHeight;
+        const scale = Math.min(PREVIEW_WIDTH / sw, PREVIEW_HEIGHT / sh);
+
+        const canvas = canvasRef.current;
+        canvas.width = Math.round(sw * scale);
+        canvas.height = Math.round(sh * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+        ctx.strokeStyle = 'rgba(59,130,246,0.9)';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(
+          (bbox.x * img.naturalWidth - sx) * scale,
+          (bbox.y * img.naturalHeight - sy) * scale,
+          bbox.width * img.naturalWidth * scale,
+          bbox.height * img.naturalHeight * scale
+        );
+      } catch (err) {
+        console.warn('Could not render source region:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    draw();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, meta]);
+
+  const top = Math.min(anchor.bottom + 8, window.innerHeight - 180);
+  const left = Math.min(anchor.left, window.innerWidth - PREVIEW_WIDTH - 40);
+
+  return (
+    <div
+      className="fixed z-[120] bg-white rounded-xl shadow-2xl border border-slate-200 p-3 space-y-2 pointer-events-none"
+      style={{ top, left, width: PREVIEW_WIDTH + 24 }}
+    >
+      <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-wide">
+        <span className={meta.verified ? 'text-green-600 flex items-center gap-1' : 'text-amber-600 flex items-center gap-1'}>
+          {meta.verified ? <CheckCircle2 size={12} /> : <ScanSearch size={12} />}
+          {meta.verified ? 'Found in source' : 'Not located in source'}
+        </span>
+        <span className="text-slate-500">{Math.round(meta.confidence * 100)}% confidence</span>
+      </div>
+      {meta.bbox && file ? (
+        <div className="relative bg-slate-50 rounded-lg border border-slate-100 flex items-center justify-center" style={{ minHeight: 40 }}>
+          {loading && <Loader2 size={16} className="absolute text-blue-500 animate-spin" />}
+          <canvas ref={canvasRef} className="max-w-full rounded" />
+        </div>
+      ) : (
+        <p className="text-[11px] text-slate-400 italic">No source region available for this value.</p>
+      )}
+      {meta.page && <p className="text-[10px] text-slate-400">Page {meta.page}{file ? ` · ${file.name}` : ''}</p>}
+    </div>
+  );
+};
+
+export default CellSourcePopover;
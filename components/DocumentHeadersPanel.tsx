@@ -0,0 +1,97 @@
+import React, { useRef, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { DocumentHeader, SchemaField } from '../types';
+import { LOW_CONFIDENCE_THRESHOLD } from '../constants';
+import { formatForDisplay } from '../utils/normalizeUtils';
+
+/**
+ * Document-level fields shown once per document while the table lists line items only.
+ */
+const DocumentHeadersPanel: React.FC<{
+  documents: DocumentHeader[];
+  // Header fields of the schema the document was extracted with
+  fieldsOf: (fileId: string) => SchemaField[];
+  headerMapping: Record<string, string>;
+  fileNames: Record<string, string>;
+  onEditField: (fileId: string, field: string, input: string) => void;
+  localeId: string;
+}> = ({ documents, fieldsOf, headerMapping, fileNames, onEditField, localeId }) => {
+  const [editing, setEditing] = useState<{ fileId: string; field: string } | null>(null);
+  const [draft, setDraft] = useState<string>('');
+  const cancelEditRef = useRef<boolean>(false);
+
+  const startEditing = (doc: DocumentHeader, field: string) => {
+    const value = doc.fields[field];
+    setDraft(value === null || value === undefined || value === 'N/A' ? '' : String(value));
+    setEditing({ fileId: doc.fileId, field });
+  };
+
+  const commitEdit = () => {
+    if (editing && !cancelEditRef.current) onEditField(editing.fileId, editing.field, draft);
+    cancelEditRef.current = false;
+    setEditing(null);
+  };
+
+  const withFields = documents.map(doc => ({ doc, fields: fieldsOf(doc.fileId) })).filter(({ fields }) => fields.length > 0);
+  if (withFields.length === 0) return null;
+
+  return (
+    <div className="border-b border-slate-100 bg-white divide-y divide-slate-100">
+      {withFields.map(({ doc, fields }) => (
+        <div key={doc.fileId} className="px-6 py-3">
+          <p className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">
+            <FileText size={12} />
+            {fileNames[doc.fileId] || 'Document'}
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-2">
+            {fields.map(field => {
+              const value = doc.fields[field.name];
+              const cell = doc.meta.cells[field.name];
+              const edit = doc.meta.edits?.[field.name];
+              const isEditing = editing?.fileId === doc.fileId && editing.field === field.name;
+              const isLowConfidence = !!cell && cell.confidence < LOW_CONFIDENCE_THRESHOLD;
+              return (
+                <div key={field.name} className="min-w-0">
+                  <p className="text-[10px] text-slate-400 truncate">
+                    {(headerMapping[field.name] || field.name).replace(/_/g, ' ')}
+                  </p>
+                  {isEditing ? (
+                    <input
+                      autoFocus
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onBlur={commitEdit}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                        if (e.key === 'Escape') {
+                          cancelEditRef.current = true;
+                          e.currentTarget.blur();
+                        }
+                      }}
+                      className="w-full px-2 py-0.5 border border-blue-400 rounded-md outline-none ring-2 ring-blue-100 text-[13px] text-slate-700"
+                    />
+                  ) : (
+                    <p
+                      dir="auto"
+                      onDoubleClick={() => startEditing(doc, field.name)}
+                      title={edit ? `Edited (was ${edit.original === null ? 'empty' : `"${edit.original}"`})` : undefined}
+                      className={`text-[13px] truncate cursor-text rounded px-1 -mx-1 ${
+                        isLowConfidence ? 'bg-orange-50/70 text-orange-700' : 'text-slate-700'
+                      } ${edit ? 'underline decoration-blue-400 decoration-dotted' : ''}`}
+                    >
+                      {value === null || value === undefined || value === 'N/A'
+                        ? <span className="text-slate-300 italic">N/A</span>
+                        : formatForDisplay(value, cell?.format, localeId)}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DocumentHeadersPanel;
@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2, ZoomIn, ZoomOut } from 'lucide-react';
+import { BoundingBox, FileData } from '../types';
+import { SPREADSHEET_FILE_TYPES } from '../constants';
+import { getPdfPageCount, imageSourceOf, renderPdfPage } from '../utils/ocrUtils';
+import { SheetTable, readSpreadsheet } from '../utils/officeUtils';
+
+export interface ViewerHighlight {
+  page: number;
+  boxes: BoundingBox[];
+}
+
+const ZOOM_LEVELS = [0.75, 1, 1.5, 2];
+
+// Spreadsheet rows shown per sheet; the preview is for orientation, not review
+const SHEET_PREVIEW_ROWS = 200;
+
+const DocumentViewer: React.FC<{
+  file: FileData;
+  highlight: ViewerHighlight | null;
+  fileIndex: number;
+  fileCount: number;
+  onPrevFile: () => void;
+  onNextFile: () => void;
+}> = ({ file, highlight, fileIndex, fileCount, onPrevFile, onNextFile }) => {
+  const [pages, setPages] = useState<string[]>([]);
+  const [pageCount, setPageCount] = useState<number>(0);
+  const [zoomIndex, setZoomIndex] = useState<number>(1);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [sheets, setSheets] = useState<SheetTable[] | null>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPages([]);
+    setSheets(null);
+    setRenderError(null);
+
+    const render = async () => {
+      try {
+        if (SPREADSHEET_FILE_TYPES.includes(file.mimeType)) {
+          setPageCount(0);
+          setSheets(readSpreadsheet(file.base64, file.mimeType));
+        } else if (file.mimeType === 'application/pdf') {
+          const count = await getPdfPageCount(file);
+          if (cancelled) return;
+          setPageCount(count);
+          for (let i = 1; i <= count; i++) {
+            const src = await renderPdfPage(file, i);
+            if (cancelled) return;
+            setPages(prev => [...prev, src]);
+          }
+        } else {
+          const src = await imageSourceOf(file);
+          if (cancelled) return;
+          setPageCount(1);
+          setPages([src]);
+        }
+      } catch (err: any) {
+        console.error('Viewer render error:', err);
+        if (!cancelled) setRenderError(err.message || 'Could not render this document.');
+      }
+    };
+    render();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file.id, file.base64, file.contentHash, file.mimeType, file.preprocessed]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+  }, [highlight, pages.length]);
+
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full min-h-[600px]">
+      <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onPrevFile}
+            disabled={fileIndex <= 0}
+            className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tabular-nums">{fileIndex + 1} / {fileCount}</span>
+          <button
+            onClick={onNextFile}
+            disabled={fileIndex >= fileCount - 1}
+            className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+        <p className="text-sm font-medium text-slate-700 truncate flex-1 text-center">{file.name}</p>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setZoomIndex(z => Math.max(0, z - 1))}
+            disabled={zoomIndex === 0}
+            className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+          >
+            <ZoomOut size={16} />
+          </button>
+          <span className="text-[10px] font-bold text-slate-400 w-9 text-center tabular-nums">{Math.round(zoom * 100)}%</span>
+          <button
+            onClick={() => setZoomIndex(z => Math.min(ZOOM_LEVELS.length - 1, z + 1))}
+            disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+            className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+          >
+            <ZoomIn size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-slate-100 p-4 space-y-4 max-h-[75vh]">
+        {renderError && <p className="text-sm text-red-600 text-center py-12">{renderError}</p>}
+        {sheets?.map(sheet => (
+          <div key={sheet.name} className="bg-white shadow-md overflow-auto" style={{ fontSize: `${zoom * 11}px` }}>
+            {sheets.length > 1 && <p className="px-3 py-1.5 text-[10px] font-bold text-slate-400 uppercase border-b border-slate-100">{sheet.name}</p>}
+            <table className="min-w-full border-collapse">
+              <tbody>
+                {sheet.rows.slice(0, SHEET_PREVIEW_ROWS).map((row, rowIdx) => (
+                  <tr key={rowIdx} className="border-b border-slate-100">
+                    {row.map((cell, cellIdx) => (
+                      <td key={cellIdx} dir="auto" className="px-2 py-1 whitespace-nowrap text-slate-700 border-r border-slate-100">{cell ?? ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {sheet.rows.length > SHEET_PREVIEW_ROWS && (
+              <p className="px-3 py-1.5 text-[10px] text-slate-400 text-center">{sheet.rows.length - SHEET_PREVIEW_ROWS} more rows not shown</p>
+            )}
+          </div>
+        ))}
+        {pages.map((src, idx) => {
+          const pageNumber = idx + 1;
+          const pageHighlight = highlight && highlight.page === pageNumber ? highlight : null;
+          return (
+            <div key={pageNumber} className="mx-auto" style={{ width: `${zoom * 100}%` }}>
+              <div className="relative shadow-md bg-white">
+                <img src={src} alt={`Page ${pageNumber}`} className="w-full block" />
+                {pageHighlight?.boxes.map((box, boxIdx) => (
+                  <div
+                    key={boxIdx}
+                    ref={boxIdx === 0 ? highlightRef : undefined}
+                    className="absolute border-2 border-blue-500 bg-blue-400/20 rounded-sm pointer-events-none transition-all"
+                    style={{
+                      left: `${box.x * 100}%`,
+                      top: `${box.y * 100}%`,
+                      width: `${box.width * 100}%`,
+                      height: `${box.height * 100}%`
+                    }}
+                  />
+                ))}
+              </div>
+              {pageCount > 1 && <p className="text-[10px] text-slate-400 text-center mt-1">Page {pageNumber} of {pageCount}</p>}
+            </div>
+          );
+        })}
+        {!renderError && pages.length < pageCount && (
+          <div className="flex items-center justify-center py-8 text-slate-400 gap-2 text-xs">
+            <Loader2 size={16} className="animate-spin" />
+            Rendering page {pages.length + 1} of {pageCount}...
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentViewer;
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Download } from 'lucide-react';
+import { ExportOptions, TextEncoding } from '../types';
+import { EXPORT_FORMATS } from '../constants';
+
+const DELIMITERS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' },
+  { value: '\t', label: 'Tab' }
+];
+
+const ENCODINGS: { value: TextEncoding; label: string }[] = [
+  { value: 'utf-8-bom', label: 'UTF-8 with BOM (Excel)' },
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western)' }
+];
+
+const ExportMenu: React.FC<{
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  onExport: () => void;
+  // Catalog columns need an imported catalog
+  hasCatalog: boolean;
+}> = ({ options, onChange, onExport, hasCatalog }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const update = (changes: Partial<ExportOptions>) => onChange({ ...options, ...changes });
+  const isSpreadsheet = options.format === 'xlsx' || options.format === 'xlsx-split' || options.format === 'ods';
+  // A single delimited table can only carry headers by repeating them; the split workbook always separates them
+  const canNormalize = options.format !== 'csv' && options.format !== 'tsv' && options.format !== 'xlsx-split';
+  const currentFormat = EXPORT_FORMATS.find(f => f.id === options.format);
+
+  return (
+    <div className="relative flex" ref={menuRef}>
+      <button
+        onClick={onExport}
+        className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white pl-4 pr-3 py-2 rounded-l-lg font-medium transition-all shadow-md active:shadow-sm"
+      >
+        <Download size={18} />
+        Export
+        <span className="hidden md:inline text-[10px] font-bold uppercase bg-white/20 px-1.5 py-0.5 rounded">
+          {currentFormat?.extension}
+        </span>
+      </button>
+      <button
+        onClick={() => setOpen(!open)}
+        className="bg-green-600 hover:bg-green-700 text-white px-2 rounded-r-lg border-l border-green-500 shadow-md transition-all"
+      >
+        <ChevronDown size={16} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-2xl shadow-2xl border border-slate-200 p-4 space-y-4 z-30 text-slate-700">
+          <div className="space-y-1">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Format</p>
+            {EXPORT_FORMATS.map(format => (
+              <label key={format.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-50 cursor-pointer text-sm">
+                <input
+                  type="radio"
+                  name="export-format"
+                  checked={options.format === format.id}
+                  onChange={() => update({ format: format.id })}
+                  className="accent-green-600"
+                />
+                <span className="flex-1">{format.label}</span>
+                <span className="text-[10px] font-mono text-slate-400">.{format.extension}</span>
+              </label>
+            ))}
+          </div>
+
+          {options.format === 'csv' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Delimiter</p>
+                <select
+                  value={options.delimiter}
+                  onChange={(e) => update({ delimiter: e.target.value })}
+                  className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs outline-none"
+                >
+                  {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Encoding</p>
+                <select
+                  value={options.encoding}
+                  onChange={(e) => update({ encoding: e.target.value as TextEncoding })}
+                  className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs outline-none"
+                >
+                  {ENCODINGS.map(enc => <option key={enc.value} value={enc.value}>{enc.label}</option>)}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1 border-t border-slate-100 pt-3">
+            <label className="flex items-center gap-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.includeAuditColumn}
+                onChange={(e) => update({ includeAuditColumn: e.target.checked })}
+                className="accent-green-600"
+              />
+              Audit column with human edits
+            </label>
+            <label className="flex items-center gap-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.includeProvenance}
+                onChange={(e) => update({ includeProvenance: e.target.checked })}
+                className="accent-green-600"
+              />
+              Source columns (file, page, model, prompt)
+            </label>
+            <label className={`flex items-center gap-2 text-xs cursor-pointer ${hasCatalog ? '' : 'opacity-40'}`}>
+              <input
+                type="checkbox"
+                checked={hasCatalog && options.includeCatalog}
+                disabled={!hasCatalog}
+                onChange={(e) => update({ includeCatalog: e.target.checked })}
+                className="accent-green-600"
+              />
+              Catalog columns (SKU, name, expected price, match)
+            </label>
+            <label className={`flex items-center gap-2 text-xs cursor-pointer ${isSpreadsheet ? '' : 'opacity-40'}`}>
+              <input
+                type="checkbox"
+                checked={options.includeValidationSheet}
+                disabled={!isSpreadsheet}
+                onChange={(e) => update({ includeValidationSheet: e.target.checked })}
+                className="accent-green-600"
+              />
+              Validation issues sheet
+            </label>
+            <label className={`flex items-center gap-2 text-xs cursor-pointer ${canNormalize ? '' : 'opacity-40'}`}>
+              <input
+                type="checkbox"
+                checked={canNormalize ? options.denormalize : options.format !== 'xlsx-split'}
+                disabled={!canNormalize}
+                onChange={(e) => update({ denormalize: e.target.checked })}
+                className="accent-green-600"
+              />
+              Repeat header fields on every row
+            </label>
+          </div>
+
+          <button
+            onClick={() => {
+              onExport();
+              setOpen(false);
+            }}
+            className="w-full py-2 rounded-xl bg-green-600 hover:bg-green-700 text-white text-sm font-semibold transition-all"
+          >
+            Export as {currentFormat?.label}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
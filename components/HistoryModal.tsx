@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FolderOpen, History, HardDrive, Trash2, X } from 'lucide-react';
+import { WorkspaceBatch } from '../types';
+import {
+  StorageEstimate,
+  deleteBatch,
+  formatBytes,
+  getStorageEstimate,
+  listBatches,
+  purgeBatches,
+  requestPersistentStorage
+} from '../utils/workspaceUtils';
+
+const HistoryModal: React.FC<{
+  activeBatchId: string | null;
+  busy: boolean;
+  onOpen: (id: string) => void;
+  onExport: (id: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}> = ({ activeBatchId, busy, onOpen, onExport, onDeleted, onClose }) => {
+  const [batches, setBatches] = useState<WorkspaceBatch[]>([]);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const refresh = async () => {
+    const [list, storage] = await Promise.all([listBatches(), getStorageEstimate()]);
+    setBatches(list);
+    setEstimate(storage);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    await deleteBatch(id);
+    onDeleted(id);
+    refresh();
+  };
+
+  const handlePurge = async () => {
+    const others = batches.filter(b => b.id !== activeBatchId).length;
+    if (others === 0 || !window.confirm(`Delete ${others} saved batch${others === 1 ? '' : 'es'} and their documents? The open workspace is kept.`)) return;
+    await purgeBatches(activeBatchId);
+    refresh();
+  };
+
+  const usageRatio = estimate && estimate.quota > 0 ? estimate.usage / estimate.quota : 0;
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <History size={20} className="text-blue-500" />
+              Batch History
+            </h3>
+            <p className="text-xs text-slate-500">Batches are saved in this browser as you work</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {!loading && batches.length === 0 && (
+            <p className="text-sm text-slate-400 italic text-center py-8">No saved batches yet</p>
+          )}
+          {batches.map(batch => (
+            <div
+              key={batch.id}
+              className={`flex items-center gap-3 p-3 rounded-xl border ${batch.id === activeBatchId ? 'border-blue-200 bg-blue-50/50' : 'border-slate-100'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-slate-700 truncate">
+                  {batch.name}
+                  {batch.id === activeBatchId && <span className="ml-2 text-[10px] font-bold text-blue-600 uppercase">Open</span>}
+                </p>
+                <p className="text-[11px] text-slate-400">
+                  {new Date(batch.updatedAt).toLocaleString()} &middot; {batch.files.length} files &middot; {batch.records.data.length} rows &middot; {formatBytes(batch.payloadBytes)}
+                  {batch.schema && <> &middot; {batch.schema.name}</>}
+                </p>
+              </div>
+              <button
+                onClick={() => onOpen(batch.id)}
+                disabled={busy || batch.id === activeBatchId}
+                title="Open"
+                className="p-2 text-slate-400 hover:text-blue-600 disabled:opacity-30"
+              >
+                <FolderOpen size={16} />
+              </button>
+              <button
+                onClick={() => onExport(batch.id)}
+                disabled={batch.records.data.length === 0}
+                title="Export with the current export settings"
+                className="p-2 text-slate-400 hover:text-green-600 disabled:opacity-30"
+              >
+                <Download size={16} />
+              </button>
+              <button
+                onClick={() => handleDelete(batch.id)}
+                disabled={busy && batch.id === activeBatchId}
+                title="Delete"
+                className="p-2 text-slate-400 hover:text-red-500 disabled:opacity-30"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 space-y-3">
+          {estimate && (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between text-[11px] text-slate-500">
+                <span className="flex items-center gap-1.5">
+                  <HardDrive size={12} />
+                  {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} used
+                </span>
+                {estimate.persisted ? (
+                  <span className="text-green-600 font-semibold">Persistent</span>
+                ) : (
+                  <button
+                    onClick={async () => {
+                      await requestPersistentStorage();
+                      refresh();
+                    }}
+                    className="text-blue-600 font-semibold hover:underline"
+                  >
+                    Keep data persistent
+                  </button>
+                )}
+              </div>
+              <div className="w-full bg-slate-100 rounded-full h-1.5 overflow-hidden">
+                <div
+                  className={`h-full ${usageRatio > 0.8 ? 'bg-red-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.max(1, usageRatio * 100)}%` }}
+                />
+              </div>
+            </div>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={handlePurge}
+              disabled={batches.every(b => b.id === activeBatchId)}
+              className="flex-1 py-3 px-4 rounded-xl border border-red-200 text-red-600 font-semibold hover:bg-red-50 transition-all text-sm disabled:opacity-40"
+            >
+              Purge history
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 px-4 rounded-xl border border-slate-200 text-slate-600 font-semibold hover:bg-slate-50 transition-all text-sm"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryModal;
@@ -0,0 +1,384 @@
+import React, { useRef, useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  Download,
+  Eye,
+  EyeOff,
+  FileUp,
+  Plus,
+  Save,
+  Settings2,
+  Trash2,
+  X
+} from 'lucide-react';
+import { ExtractedItem, MappingColumn, MappingColumnKind, MappingProfile } from '../types';
+import {
+  applyColumns,
+  checkColumns,
+  fieldColumn,
+  fieldFingerprint,
+  parseProfilesJson,
+  profilesToJson
+} from '../utils/mappingUtils';
+
+const KIND_LABELS: Record<MappingColumnKind, string> = {
+  field: 'Field',
+  merge: 'Merge',
+  constant: 'Constant',
+  computed: 'Computed'
+};
+
+const MappingModal: React.FC<{
+  fields: string[];
+  columns: MappingColumn[];
+  sampleRows: ExtractedItem[];
+  vendor: string | null;
+  profiles: MappingProfile[];
+  activeProfileId: string | null;
+  onApply: (columns: MappingColumn[], profileId: string | null) => void;
+  onSaveProfile: (profile: MappingProfile) => Promise<void>;
+  onDeleteProfile: (id: string) => Promise<void>;
+  onClose: () => void;
+}> = ({ fields, columns, sampleRows, vendor, profiles, activeProfileId, onApply, onSaveProfile, onDeleteProfile, onClose }) => {
+  const activeProfile = profiles.find(p => p.id === activeProfileId) || null;
+  const [localColumns, setLocalColumns] = useState<MappingColumn[]>(columns.map(c => ({ ...c, sources: [...c.sources] })));
+  const [profileId, setProfileId] = useState<string | null>(activeProfileId);
+  const [name, setName] = useState<string>(activeProfile?.name || vendor || '');
+  const [vendorPatterns, setVendorPatterns] = useState<string>(
+    activeProfile ? activeProfile.vendorPatterns.join(', ') : vendor || ''
+  );
+  const [matchFields, setMatchFields] = useState<boolean>(activeProfile ? activeProfile.fieldFingerprint.length > 0 : true);
+  const [autoApply, setAutoApply] = useState<boolean>(activeProfile?.autoApply ?? true);
+  const [message, setMessage] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const problem = checkColumns(localColumns);
+  const preview = problem ? null : applyColumns(sampleRows.slice(0, 3), [], localColumns).rows;
+
+  const selectProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    setMessage(null);
+    if (!profile) {
+      setProfileId(null);
+      return;
+    }
+    setProfileId(profile.id);
+    setLocalColumns(profile.columns.map(c => ({ ...c, sources: [...c.sources] })));
+    setName(profile.name);
+    setVendorPatterns(profile.vendorPatterns.join(', '));
+    setMatchFields(profile.fieldFingerprint.length > 0);
+    setAutoApply(profile.autoApply);
+  };
+
+  const updateColumn = (id: string, changes: Partial<MappingColumn>) => {
+    setLocalColumns(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+  };
+
+  const moveColumn = (index: number, delta: number) => {
+    setLocalColumns(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addColumn = (kind: MappingColumnKind) => {
+    const base = fieldColumn(fields[0] || '', `New_${KIND_LABELS[kind]}_${localColumns.length + 1}`);
+    const column: MappingColumn = kind === 'field'
+      ? base
+      : { ...base, kind, sources: [], separator: kind === 'merge' ? ' ' : undefined, value: '' };
+    setLocalColumns(prev => [...prev, column]);
+  };
+
+  const toggleMergeSource = (column: MappingColumn, field: string) => {
+    updateColumn(column.id, {
+      sources: column.sources.includes(field) ? column.sources.filter(s => s !== field) : [...column.sources, field]
+    });
+  };
+
+  const handleSaveProfile = async (asNew: boolean) => {
+    if (!name.trim()) {
+      setMessage('Give the profile a name first');
+      return;
+    }
+    const profile: MappingProfile = {
+      id: !asNew && profileId ? profileId : `profile-${Date.now().toString(36)}`,
+      name: name.trim(),
+      columns: localColumns,
+      vendorPatterns: vendorPatterns.split(',').map(p => p.trim()).filter(Boolean),
+      fieldFingerprint: matchFields ? fieldFingerprint(fields) : [],
+      autoApply,
+      updatedAt: Date.now()
+    };
+    try {
+      await onSaveProfile(profile);
+      setProfileId(profile.id);
+      setMessage(`Saved "${profile.name}"`);
+    } catch (error: any) {
+      setMessage(`Could not save profile: ${error.message}`);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!profileId) return;
+    await onDeleteProfile(profileId);
+    setProfileId(null);
+    setMessage('Profile deleted');
+  };
+
+  const handleExportProfiles = () => {
+    const url = URL.createObjectURL(new Blob([profilesToJson(profiles)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'mapping-profiles.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImportProfiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProfilesJson(await file.text());
+      for (const profile of imported) await onSaveProfile(profile);
+      setMessage(`Imported ${imported.length} profile${imported.length === 1 ? '' : 's'}`);
+    } catch (error: any) {
+      setMessage(`Import failed: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Settings2 size={20} className="text-blue-500" />
+              Column Mapping
+            </h3>
+            <p className="text-xs text-slate-500">Rename, reorder, hide, merge or add columns for your final spreadsheet</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap items-center gap-2">
+          <select
+            value={profileId || ''}
+            onChange={(e) => selectProfile(e.target.value)}
+            className="flex-1 min-w-[10rem] px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none"
+          >
+            <option value="">Unsaved mapping</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}{p.autoApply ? ' (auto)' : ''}</option>)}
+          </select>
+          {profileId && (
+            <button onClick={handleDeleteProfile} className="p-2 text-slate-400 hover:text-red-500" title="Delete profile">
+              <Trash2 size={16} />
+            </button>
+          )}
+          <button
+            onClick={() => importRef.current?.click()}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-semibold text-slate-600 hover:bg-slate-100"
+          >
+            <FileUp size={14} />
+            Import
+          </button>
+          <button
+            onClick={handleExportProfiles}
+            disabled={profiles.length === 0}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-semibold text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+          >
+            <Download size={14} />
+            Export
+          </button>
+          <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportProfiles} />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {localColumns.map((column, index) => (
+            <div key={column.id} className={`p-3 rounded-xl border space-y-2 ${column.hidden ? 'border-dashed border-slate-200 opacity-60' : 'border-slate-200'}`}>
+              <div className="flex items-center gap-2">
+                <div className="flex flex-col">
+                  <button onClick={() => moveColumn(index, -1)} disabled={index === 0} className="text-slate-400 hover:text-blue-600 disabled:opacity-30">
+                    <ArrowUp size={12} />
+                  </button>
+                  <button onClick={() => moveColumn(index, 1)} disabled={index === localColumns.length - 1} className="text-slate-400 hover:text-blue-600 disabled:opacity-30">
+                    <ArrowDown size={12} />
+                  </button>
+                </div>
+                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider w-16">{KIND_LABELS[column.kind]}</span>
+                <input
+                  type="text"
+                  value={column.header}
+                  onChange={(e) => updateColumn(column.id, { header: e.target.value })}
+                  placeholder="Column header"
+                  className="flex-1 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={() => updateColumn(column.id, { hidden: !column.hidden })}
+                  className="p-1 text-slate-400 hover:text-blue-600"
+                  title={column.hidden ? 'Show column' : 'Hide column'}
+                >
+                  {column.hidden ? <EyeOff size={16} /> : <Eye size={16} />}
+                </button>
+                <button
+                  onClick={() => setLocalColumns(prev => prev.filter(c => c.id !== column.id))}
+                  className="p-1 text-slate-400 hover:text-red-500"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+
+              {column.kind === 'field' && (
+                <select
+                  value={column.sources[0] || ''}
+                  onChange={(e) => updateColumn(column.id, { sources: [e.target.value] })}
+                  className="w-full px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono outline-none"
+                >
+                  {!fields.includes(column.sources[0]) && <option value={column.sources[0]}>{column.sources[0] || '—'}</option>}
+                  {fields.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              )}
+
+              {column.kind === 'merge' && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {fields.map(f => (
+                    <label key={f} className={`px-2 py-1 rounded-lg border text-[11px] font-mono cursor-pointer ${column.sources.includes(f) ? 'bg-blue-50 border-blue-200 text-blue-700' : 'border-slate-200 text-slate-500'}`}>
+                      <input type="checkbox" className="hidden" checked={column.sources.includes(f)} onChange={() => toggleMergeSource(column, f)} />
+                      {f}
+                    </label>
+                  ))}
+                  <input
+                    type="text"
+                    value={column.separator ?? ' '}
+                    onChange={(e) => updateColumn(column.id, { separator: e.target.value })}
+                    title="Separator"
+                    className="w-16 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono outline-none"
+                  />
+                </div>
+              )}
+
+              {(column.kind === 'constant' || column.kind === 'computed') && (
+                <input
+                  type="text"
+                  value={column.value || ''}
+                  onChange={(e) => updateColumn(column.id, { value: e.target.value })}
+                  placeholder={column.kind === 'computed' ? 'e.g. Quantity * Unit_Price' : 'Value written to every row'}
+                  className={`w-full px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs outline-none ${column.kind === 'computed' ? 'font-mono' : ''}`}
+                />
+              )}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(KIND_LABELS) as MappingColumnKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => addColumn(kind)}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-semibold text-blue-600 hover:bg-blue-50"
+              >
+                <Plus size={14} />
+                {KIND_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+
+          {problem && <p className="text-xs text-red-600">{problem}</p>}
+
+          {preview && preview.length > 0 && (
+            <div className="overflow-x-auto border border-slate-100 rounded-xl">
+              <table className="w-full text-[11px]">
+                <thead className="bg-slate-50">
+                  <tr>
+                    {Object.keys(preview[0]).map(h => <th key={h} className="px-3 py-2 text-left font-bold text-slate-500 whitespace-nowrap">{h}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((row, idx) => (
+                    <tr key={idx} className="border-t border-slate-100">
+                      {Object.keys(preview[0]).map(h => <td key={h} className="px-3 py-1.5 text-slate-600 whitespace-nowrap">{row[h] === null ? '' : String(row[h])}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <section className="pt-3 border-t border-slate-100 space-y-2">
+            <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">Profile</h4>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Profile name"
+                className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none"
+              />
+              <input
+                type="text"
+                value={vendorPatterns}
+                onChange={(e) => setVendorPatterns(e.target.value)}
+                placeholder="Vendor names, comma separated"
+                className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none"
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-4 px-1">
+              <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                <input type="checkbox" checked={autoApply} onChange={(e) => setAutoApply(e.target.checked)} className="accent-blue-600" />
+                Apply automatically
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                <input type="checkbox" checked={matchFields} onChange={(e) => setMatchFields(e.target.checked)} className="accent-blue-600" />
+                Also match on this set of extracted columns
+              </label>
+              {vendor && <span className="text-[11px] text-slate-400">Detected vendor: {vendor}</span>}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleSaveProfile(false)}
+                disabled={Boolean(problem)}
+                className="px-3 py-2 rounded-lg text-xs font-semibold text-blue-600 border border-blue-200 hover:bg-blue-50 disabled:opacity-40"
+              >
+                {profileId ? 'Update profile' : 'Save as profile'}
+              </button>
+              {profileId && (
+                <button
+                  onClick={() => handleSaveProfile(true)}
+                  disabled={Boolean(problem)}
+                  className="px-3 py-2 rounded-lg text-xs font-semibold text-slate-600 border border-slate-200 hover:bg-slate-50 disabled:opacity-40"
+                >
+                  Save as new
+                </button>
+              )}
+              {message && <span className="self-center text-[11px] text-slate-500">{message}</span>}
+            </div>
+          </section>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 px-4 rounded-xl border border-slate-200 text-slate-600 font-semibold hover:bg-slate-50 transition-all text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(localColumns, profileId)}
+            disabled={Boolean(problem)}
+            className="flex-1 py-3 px-4 rounded-xl bg-blue-600 text-white font-semibold hover:bg-blue-700 transition-all shadow-md shadow-blue-200 flex items-center justify-center gap-2 text-sm disabled:opacity-50"
+          >
+            <Save size={18} />
+            Apply Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MappingModal;
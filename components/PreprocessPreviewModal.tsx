@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, ScanEye, X } from 'lucide-react';
+import { FileData, PreprocessSummary } from '../types';
+import { PreprocessedImage, preprocessImage } from '../utils/ocrUtils';
+import { formatBytes } from '../utils/workspaceUtils';
+
+/** One-line summary of what preprocessing changed, for badges and tooltips. */
+export const describePreprocessing = (summary: PreprocessSummary): string => {
+  const steps: string[] = [];
+  if (summary.rotation) steps.push(`turned ${summary.rotation}°`);
+  if (summary.skew) steps.push(`straightened by ${Math.abs(summary.skew)}°`);
+  if (summary.scale > 1) steps.push(`upscaled ×${summary.scale}`);
+  if (summary.scale < 1) steps.push(`downsized ×${summary.scale}`);
+  return steps.length > 0 ? steps.join(', ') : 'no changes needed';
+};
+
+/**
+ * Side-by-side view of an image before and after the preprocessing stage.
+ */
+const PreprocessPreviewModal: React.FC<{
+  file: FileData;
+  onClose: () => void;
+}> = ({ file, onClose }) => {
+  const [result, setResult] = useState<PreprocessedImage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    preprocessImage(file)
+      .then(prepared => { if (!cancelled) setResult(prepared); })
+      .catch(err => { if (!cancelled) setError(err.message || 'Could not preprocess this image.'); });
+    return () => {
+      cancelled = true;
+    };
+  }, [file.base64, file.contentHash, file.mimeType]);
+
+  const panel = (title: string, src: string | null, bytes: number | null) => (
+    <div className="flex-1 min-w-0 flex flex-col gap-2">
+      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+        {title}
+        {bytes !== null && <span className="ml-2 font-mono normal-case">{formatBytes(bytes)}</span>}
+      </p>
+      <div className="flex-1 min-h-[300px] bg-slate-100 rounded-xl border border-slate-200 flex items-center justify-center overflow-hidden">
+        {src ? (
+          <img src={src} alt={title} className="max-w-full max-h-[60vh] object-contain" />
+        ) : error ? (
+          <p className="text-xs text-red-600 px-4 text-center">{error}</p>
+        ) : (
+          <Loader2 size={24} className="animate-spin text-blue-500" />
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <ScanEye size={20} className="text-blue-500" />
+              Image Preprocessing
+            </h3>
+            <p className="text-xs text-slate-500 truncate">
+              {file.name}
+              {result && ` · ${describePreprocessing(result.summary)}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex flex-col md:flex-row gap-4">
+          {panel('Before', `data:${file.mimeType};base64,${file.base64}`, Math.floor(file.base64.length * 0.75))}
+          {panel(
+            'After',
+            result ? `data:${result.mimeType};base64,${result.base64}` : null,
+            result ? Math.floor(result.base64.length * 0.75) : null
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreprocessPreviewModal;
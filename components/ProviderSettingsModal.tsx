@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Cpu, Save, X } from 'lucide-react';
+import { ProviderSettings } from '../types';
+import { GEMINI_MODELS } from '../constants';
+import { PROVIDERS, getProvider } from '../services/providers';
+
+const inputClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500';
+
+const ProviderSettingsModal: React.FC<{
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}> = ({ settings, onSave, onClose }) => {
+  const [local, setLocal] = useState<ProviderSettings>({ ...settings });
+  const update = (changes: Partial<ProviderSettings>) => setLocal(prev => ({ ...prev, ...changes }));
+  const problem = getProvider(local.provider).checkSettings(local);
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Cpu size={20} className="text-blue-500" />
+              Extraction Engine
+            </h3>
+            <p className="text-xs text-slate-500">Choose which backend turns documents into rows</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <div className="space-y-2">
+            {PROVIDERS.map(provider => (
+              <label
+                key={provider.id}
+                className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-all ${
+                  local.provider === provider.id ? 'border-blue-300 bg-blue-50/50' : 'border-slate-100 hover:bg-slate-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="provider"
+                  checked={local.provider === provider.id}
+                  onChange={() => update({ provider: provider.id })}
+                  className="mt-1 accent-blue-600"
+                />
+                <div>
+                  <p className="text-sm font-semibold text-slate-700">
+                    {provider.label}
+                    {!provider.remote && <span className="ml-2 text-[10px] font-bold text-green-600 uppercase">Offline</span>}
+                  </p>
+                  <p className="text-xs text-slate-500">{provider.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {local.provider === 'gemini' && (
+            <div className="space-y-3">
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">Model</label>
+                <input
+                  list="gemini-models"
+                  value={local.geminiModel}
+                  onChange={(e) => update({ geminiModel: e.target.value })}
+                  className={inputClass}
+                />
+                <datalist id="gemini-models">
+                  {GEMINI_MODELS.map(model => <option key={model} value={model} />)}
+                </datalist>
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">Extraction endpoint</label>
+                <input
+                  value={local.geminiEndpoint}
+                  onChange={(e) => update({ geminiEndpoint: e.target.value })}
+                  placeholder="/api/extract"
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <p className="text-[11px] text-slate-400">The Gemini key stays on the server; documents are sent through this endpoint.</p>
+            </div>
+          )}
+
+          {local.provider === 'openai' && (
+            <div className="space-y-3">
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">Base URL</label>
+                <input
+                  value={local.openAiBaseUrl}
+                  onChange={(e) => update({ openAiBaseUrl: e.target.value })}
+                  placeholder="https://my-server/v1"
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">Model</label>
+                <input
+                  value={local.openAiModel}
+                  onChange={(e) => update({ openAiModel: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">API key</label>
+                <input
+                  type="password"
+                  value={local.openAiApiKey}
+                  onChange={(e) => update({ openAiApiKey: e.target.value })}
+                  placeholder="Leave empty if the endpoint needs none"
+                  className={inputClass}
+                />
+              </div>
+              <p className="text-[11px] text-slate-400">The model must accept image input. PDF pages are rendered to images before sending.</p>
+            </div>
+          )}
+
+          {local.provider === 'local' && (
+            <p className="text-xs text-slate-500 leading-relaxed">
+              Rows are built from the positions of OCR or PDF text-layer words: the table header is matched to the
+              schema fields and each line is split into columns. Nothing leaves the browser and the same input always
+              gives the same output.
+            </p>
+          )}
+
+          {local.provider !== 'local' && (
+            <div className="space-y-1.5">
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">Long PDFs</label>
+              <select
+                value={local.pdfChunkPages}
+                onChange={(e) => update({ pdfChunkPages: Number(e.target.value) })}
+                className={inputClass}
+              >
+                <option value={0}>Send the whole file at once</option>
+                {[2, 3, 5, 10].map(pages => (
+                  <option key={pages} value={pages}>Split into {pages}-page chunks</option>
+                ))}
+              </select>
+              <p className="text-[11px] text-slate-400">
+                Chunks are extracted in order; headers and document fields carry over and rows split by a page break are stitched back together. PDFs too large for one request are always split.
+              </p>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer px-1">
+            <input
+              type="checkbox"
+              checked={local.offlineFallback}
+              onChange={(e) => update({ offlineFallback: e.target.checked })}
+              className="accent-blue-600"
+            />
+            Use the local parser automatically while offline
+          </label>
+
+          {problem && (
+            <p className="flex items-start gap-2 text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-3">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              {problem}
+            </p>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 px-4 rounded-xl border border-slate-200 text-slate-600 font-semibold hover:bg-slate-50 transition-all text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(local)}
+            className="flex-1 py-3 px-4 rounded-xl bg-blue-600 text-white font-semibold hover:bg-blue-700 transition-all shadow-md shadow-blue-200 flex items-center justify-center gap-2 text-sm"
+          >
+            <Save size={18} />
+            Save Settings
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettingsModal;
@@ -0,0 +1,339 @@
+import React, { useRef, useState } from 'react';
+import { AlertTriangle, FileText } from 'lucide-react';
+import { CatalogEntry, CatalogMatch, ExtractedItem, RowMeta, RuleViolation } from '../types';
+import { LOW_CONFIDENCE_THRESHOLD } from '../constants';
+import { formatForDisplay } from '../utils/normalizeUtils';
+import { PROVENANCE_COLUMNS, provenanceOf } from '../utils/provenanceUtils';
+import { CATALOG_COLUMNS } from '../utils/catalogUtils';
+
+// Typed into the catalog SKU cell to rule out every catalog product
+const NO_CATALOG_PRODUCT = 'none';
+
+const MATCH_SOURCE_LABELS: Record<CatalogMatch['source'], string> = {
+  manual: 'Picked by hand',
+  alias: 'Learned from an earlier pick',
+  code: 'Same product code',
+  description: 'Similar description'
+};
+
+const sourceText = (key: string, value: string | number | null): string => {
+  if (value === null) return '';
+  if (key === 'Extracted_At') return new Date(value).toLocaleString();
+  if (key === 'Prompt_Version') return `v${value}`;
+  return String(value);
+};
+
+export interface CellRef {
+  row: number;
+  header?: string;
+}
+
+export interface HoveredCell {
+  row: number;
+  header: string;
+  rect: DOMRect;
+}
+
+const ResultsTable: React.FC<{
+  headers: string[];
+  headerMapping: Record<string, string>;
+  data: ExtractedItem[];
+  rowMeta: RowMeta[];
+  // Rule violations grouped per row index
+  rowViolations: RuleViolation[][];
+  // Indices into `data` to display, defaults to every row
+  rowIndices?: number[];
+  selectedCell?: CellRef | null;
+  onSelectCell?: (cell: CellRef) => void;
+  onHoverCell: (cell: HoveredCell | null) => void;
+  checkedRows?: Set<number>;
+  onToggleRow?: (row: number) => void;
+  onEditCell?: (row: number, header: string, input: string) => void;
+  localeId: string;
+  // File names by file ID, for rows extracted before provenance was recorded
+  fileNames?: Record<string, string>;
+  // Read-only provenance columns after the data columns
+  showSource?: boolean;
+  // Heading row wherever the file changes; rowIndices should already keep each file's rows together
+  groupByFile?: boolean;
+  // Catalog columns after the data columns, parallel to `data`
+  catalogMatches?: (CatalogMatch | null)[];
+  catalogEntries?: CatalogEntry[];
+  // undefined lets the row be matched automatically again
+  onPickCatalogEntry?: (row: number, sku: string | null | undefined) => void;
+}> = ({
+  headers,
+  headerMapping,
+  data,
+  rowMeta,
+  rowViolations,
+  rowIndices,
+  selectedCell,
+  onSelectCell,
+  onHoverCell,
+  checkedRows,
+  onToggleRow,
+  onEditCell,
+  localeId,
+  fileNames = {},
+  showSource = false,
+  groupByFile = false,
+  catalogMatches,
+  catalogEntries = [],
+  onPickCatalogEntry
+}) => {
+  const [editing, setEditing] = useState<{ row: number; header: string } | null>(null);
+  const [draft, setDraft] = useState<string>('');
+  const [picking, setPicking] = useState<number | null>(null);
+  const cancelEditRef = useRef<boolean>(false);
+  const indices = rowIndices || data.map((_, idx) => idx);
+  const columnCount = headers.length + (onToggleRow ? 1 : 0) + (showSource ? PROVENANCE_COLUMNS.length : 0)
+    + (catalogMatches ? CATALOG_COLUMNS.length : 0);
+  const fileRowCounts = new Map<string | undefined, number>();
+  if (groupByFile) indices.forEach(idx => fileRowCounts.set(rowMeta[idx]?.fileId, (fileRowCounts.get(rowMeta[idx]?.fileId) || 0) + 1));
+
+  const startEditing = (row: number, header: string) => {
+    if (!onEditCell) return;
+    const value = data[row][header];
+    setDraft(value === null || value === undefined || value === 'N/A' ? '' : String(value));
+    setEditing({ row, header });
+    onHoverCell(null);
+  };
+
+  const commitEdit = () => {
+    if (editing && onEditCell && !cancelEditRef.current) onEditCell(editing.row, editing.header, draft);
+    cancelEditRef.current = false;
+    setEditing(null);
+  };
+
+  const startPicking = (row: number) => {
+    if (!onPickCatalogEntry) return;
+    setDraft(catalogMatches?.[row]?.entry.sku || '');
+    setPicking(row);
+    onHoverCell(null);
+  };
+
+  // An empty SKU matches automatically again; anything not in the catalog is ignored
+  const commitPick = () => {
+    const text = draft.trim().toLowerCase();
+    if (picking !== null && onPickCatalogEntry && !cancelEditRef.current) {
+      if (text === '') onPickCatalogEntry(picking, undefined);
+      else if (text === NO_CATALOG_PRODUCT) onPickCatalogEntry(picking, null);
+      else {
+        const entry = catalogEntries.find(e => e.sku.toLowerCase() === text) || catalogEntries.find(e => e.name.toLowerCase() === text);
+        if (entry) onPickCatalogEntry(picking, entry.sku);
+      }
+    }
+    cancelEditRef.current = false;
+    setPicking(null);
+  };
+
+  return (
+    <div className="overflow-x-auto relative">
+      <table className="w-full text-left text-sm border-collapse">
+        <thead className="sticky top-0 z-10">
+          <tr className="bg-slate-50 border-b border-slate-200">
+            {onToggleRow && <th className="w-10 px-3 bg-slate-50/95 backdrop-blur-sm" />}
+            {headers.map(header => (
+              <th key={header} className="px-6 py-4 font-bold text-slate-700 uppercase tracking-wider whitespace-nowrap text-[10px] bg-slate-50/95 backdrop-blur-sm">
+                {headerMapping[header] ? headerMapping[header].replace(/_/g, ' ') : header.replace(/_/g, ' ')}
+              </th>
+            ))}
+            {catalogMatches && CATALOG_COLUMNS.map(column => (
+              <th key={column.key} className="px-6 py-4 font-bold text-emerald-700 uppercase tracking-wider whitespace-nowrap text-[10px] bg-slate-50/95 backdrop-blur-sm">
+                {column.label}
+              </th>
+            ))}
+            {showSource && PROVENANCE_COLUMNS.map(column => (
+              <th key={column.key} className="px-6 py-4 font-bold text-slate-400 uppercase tracking-wider whitespace-nowrap text-[10px] bg-slate-50/95 backdrop-blur-sm">
+                {column.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 bg-white">
+          {indices.map((idx, position) => {
+            const row = data[idx];
+            const isSelectedRow = selectedCell?.row === idx;
+            const violations = rowViolations[idx] || [];
+            const rowLevel = violations.filter(v => !v.field || !headers.includes(v.field));
+            const fileId = rowMeta[idx]?.fileId;
+            const startsGroup = groupByFile && (position === 0 || rowMeta[indices[position - 1]]?.fileId !== fileId);
+            const source = showSource || startsGroup ? provenanceOf(rowMeta[idx], fileNames) : null;
+            const match = catalogMatches?.[idx] ?? null;
+            return (
+              <React.Fragment key={idx}>
+              {startsGroup && (
+                <tr className="bg-slate-100/80">
+                  <td colSpan={columnCount} className="px-6 py-2 text-xs font-bold text-slate-600">
+                    <span className="flex items-center gap-2">
+                      <FileText size={14} className="text-slate-400" />
+                      {source?.Source_File ?? 'Added by hand'}
+                      <span className="font-medium text-slate-400">
+                        {fileRowCounts.get(fileId)} {fileRowCounts.get(fileId) === 1 ? 'row' : 'rows'}
+                      </span>
+                    </span>
+                  </td>
+                </tr>
+              )}
+              <tr
+                onClick={onSelectCell ? () => onSelectCell({ row: idx }) : undefined}
+                className={`transition-colors ${onSelectCell ? 'cursor-pointer' : ''} ${
+                  isSelectedRow || checkedRows?.has(idx) ? 'bg-blue-50/70' : 'hover:bg-blue-50/40'
+                }`}
+              >
+                {onToggleRow && (
+                  <td className="w-10 px-3" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={checkedRows?.has(idx) || false}
+                        onChange={() => onToggleRow(idx)}
+                        className="accent-blue-600"
+                      />
+                      {rowLevel.length > 0 && (
+                        <span title={rowLevel.map(v => v.message).join('\n')}>
+                          <AlertTriangle
+                            size={14}
+                            className={rowLevel.some(v => v.severity === 'error') ? 'text-red-500' : 'text-amber-500'}
+                          />
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                )}
+                {headers.map(header => {
+                  const cellViolations = violations.filter(v => v.field === header);
+                  const hasError = cellViolations.some(v => v.severity === 'error');
+                  const cellMeta = rowMeta[idx]?.cells[header];
+                  const isLowConfidence = !!cellMeta && cellMeta.confidence < LOW_CONFIDENCE_THRESHOLD;
+                  const isSelectedCell = isSelectedRow && selectedCell?.header === header;
+                  const edit = rowMeta[idx]?.edits?.[header];
+                  const isEditing = editing?.row === idx && editing.header === header;
+                  const tooltip = [
+                    ...cellViolations.map(v => v.message),
+                    edit ? `Edited (was ${edit.original === null ? 'empty' : `"${edit.original}"`})` : undefined
+                  ].filter(Boolean).join(' · ');
+                  return (
+                    <td
+                      key={`${idx}-${header}`}
+                      title={tooltip || undefined}
+                      dir="auto"
+                      onClick={onSelectCell ? (e) => {
+                        e.stopPropagation();
+                        onSelectCell({ row: idx, header });
+                      } : undefined}
+                      onDoubleClick={onEditCell ? () => startEditing(idx, header) : undefined}
+                      onMouseEnter={cellMeta ? (e) => onHoverCell({ row: idx, header, rect: e.currentTarget.getBoundingClientRect() }) : undefined}
+                      onMouseLeave={cellMeta ? () => onHoverCell(null) : undefined}
+                      className={`relative px-6 py-4 text-slate-600 whitespace-nowrap text-[13px] ${
+                        isSelectedCell ? 'ring-2 ring-inset ring-blue-400 ' : ''
+                      }${
+                        hasError
+                          ? 'bg-red-50/70 border-b-2 border-red-300'
+                          : cellViolations.length > 0
+                          ? 'bg-amber-50/70 border-b-2 border-amber-300'
+                          : isLowConfidence
+                          ? 'bg-orange-50/70 text-orange-700 border-b-2 border-dotted border-orange-300'
+                          : ''
+                      }`}
+                    >
+                      {isEditing ? (
+                        <input
+                          autoFocus
+                          value={draft}
+                          onChange={(e) => setDraft(e.target.value)}
+                          onBlur={commitEdit}
+                          onClick={(e) => e.stopPropagation()}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                            if (e.key === 'Escape') {
+                              cancelEditRef.current = true;
+                              e.currentTarget.blur();
+                            }
+                          }}
+                          className="w-full min-w-[6rem] -my-1 px-2 py-1 border border-blue-400 rounded-md outline-none ring-2 ring-blue-100 text-[13px] text-slate-700"
+                        />
+                      ) : row[header] === 'N/A' || row[header] === null || row[header] === undefined ? (
+                        <span className="text-slate-300 italic opacity-60">N/A</span>
+                      ) : (
+                        formatForDisplay(row[header], cellMeta?.format, localeId)
+                      )}
+                      {edit && !isEditing && (
+                        <span className="absolute top-1.5 right-1.5 w-1.5 h-1.5 rounded-full bg-blue-500" />
+                      )}
+                    </td>
+                  );
+                })}
+                {catalogMatches && (
+                  <>
+                    <td
+                      className="px-6 py-4 text-emerald-800 whitespace-nowrap text-[13px] bg-emerald-50/30"
+                      title={onPickCatalogEntry ? `Double-click to pick a catalog product, "${NO_CATALOG_PRODUCT}" for none or empty to match automatically` : undefined}
+                      onClick={(e) => e.stopPropagation()}
+                      onDoubleClick={() => startPicking(idx)}
+                    >
+                      {picking === idx ? (
+                        <input
+                          autoFocus
+                          list="catalog-entries"
+                          value={draft}
+                          onChange={(e) => setDraft(e.target.value)}
+                          onBlur={commitPick}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                            if (e.key === 'Escape') {
+                              cancelEditRef.current = true;
+                              e.currentTarget.blur();
+                            }
+                          }}
+                          className="w-full min-w-[8rem] -my-1 px-2 py-1 border border-emerald-400 rounded-md outline-none ring-2 ring-emerald-100 text-[13px] text-slate-700"
+                        />
+                      ) : match ? (
+                        match.entry.sku
+                      ) : (
+                        <span className="text-slate-300 italic opacity-60">
+                          {rowMeta[idx]?.catalogSku === null ? 'None' : 'No match'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-slate-600 whitespace-nowrap text-[13px] bg-emerald-50/30" dir="auto">
+                      {match?.entry.name}
+                    </td>
+                    <td className="px-6 py-4 text-slate-600 whitespace-nowrap text-[13px] bg-emerald-50/30">
+                      {match?.entry.price !== undefined ? formatForDisplay(match.entry.price, { kind: 'number' }, localeId) : ''}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-[12px] bg-emerald-50/30" title={match ? MATCH_SOURCE_LABELS[match.source] : undefined}>
+                      {match && (
+                        <span className={`font-semibold ${match.confidence >= 0.85 ? 'text-emerald-600' : 'text-amber-600'}`}>
+                          {Math.round(match.confidence * 100)}%
+                          {(match.source === 'manual' || match.source === 'alias') && (
+                            <span className="ml-1 font-medium text-slate-400">{match.source === 'manual' ? 'manual' : 'learned'}</span>
+                          )}
+                        </span>
+                      )}
+                    </td>
+                  </>
+                )}
+                {showSource && source && PROVENANCE_COLUMNS.map(column => (
+                  <td key={`${idx}-${column.key}`} className="px-6 py-4 text-slate-400 whitespace-nowrap text-[12px]">
+                    {sourceText(column.key, source[column.key])}
+                  </td>
+                ))}
+              </tr>
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+      {picking !== null && (
+        <datalist id="catalog-entries">
+          {catalogEntries.map(entry => <option key={entry.sku} value={entry.sku}>{entry.name}</option>)}
+          <option value={NO_CATALOG_PRODUCT}>No catalog product</option>
+        </datalist>
+      )}
+    </div>
+  );
+};
+
+export default ResultsTable;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Plus, Save, ShieldCheck, X } from 'lucide-react';
+import { CustomRule, RuleConfig, RuleSeverity } from '../types';
+import { BUILT_IN_RULES, checkRuleExpression } from '../utils/validationRules';
+
+const RulesModal: React.FC<{
+  config: RuleConfig;
+  fields: string[];
+  onSave: (config: RuleConfig) => void;
+  onClose: () => void;
+}> = ({ config, fields, onSave, onClose }) => {
+  const [localConfig, setLocalConfig] = useState<RuleConfig>({
+    ...config,
+    customRules: config.customRules.map(r => ({ ...r }))
+  });
+
+  const toggleBuiltIn = (id: string) => {
+    setLocalConfig(prev => ({
+      ...prev,
+      disabledBuiltIns: prev.disabledBuiltIns.includes(id)
+        ? prev.disabledBuiltIns.filter(r => r !== id)
+        : [...prev.disabledBuiltIns, id]
+    }));
+  };
+
+  const updateRule = (id: string, changes: Partial<CustomRule>) => {
+    setLocalConfig(prev => ({
+      ...prev,
+      customRules: prev.customRules.map(r => r.id === id ? { ...r, ...changes } : r)
+    }));
+  };
+
+  const addRule = () => {
+    const rule: CustomRule = {
+      id: `rule-${Date.now().toString(36)}`,
+      name: 'New rule',
+      expression: '',
+      severity: 'warning',
+      enabled: true
+    };
+    setLocalConfig(prev => ({ ...prev, customRules: [...prev.customRules, rule] }));
+  };
+
+  const hasErrors = localConfig.customRules.some(r => r.enabled && checkRuleExpression(r.expression));
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <ShieldCheck size={20} className="text-blue-500" />
+              Validation Rules
+            </h3>
+            <p className="text-xs text-slate-500">Checks run over every extracted row after processing and editing</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <section className="space-y-2">
+            <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">Built-in rules</h4>
+            {BUILT_IN_RULES.map(rule => (
+              <label key={rule.id} className="flex items-start gap-3 p-3 rounded-xl border border-slate-100 hover:bg-slate-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!localConfig.disabledBuiltIns.includes(rule.id)}
+                  onChange={() => toggleBuiltIn(rule.id)}
+                  className="mt-0.5 accent-blue-600"
+                />
+                <div>
+                  <p className="text-sm font-semibold text-slate-700">{rule.name}</p>
+                  <p className="text-xs text-slate-500">{rule.description}</p>
+                </div>
+              </label>
+            ))}
+            <div className="flex items-center gap-3 px-1 pt-1">
+              <label className="text-xs text-slate-500">Amount tolerance</label>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={localConfig.tolerance}
+                onChange={(e) => setLocalConfig(prev => ({ ...prev, tolerance: Math.max(0, Number(e.target.value) || 0) }))}
+                className="w-24 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs outline-none"
+              />
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">Custom expression rules</h4>
+            {localConfig.customRules.map(rule => {
+              const syntaxError = checkRuleExpression(rule.expression);
+              return (
+                <div key={rule.id} className="p-3 rounded-xl border border-slate-200 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      className="accent-blue-600"
+                    />
+                    <input
+                      type="text"
+                      value={rule.name}
+                      onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                      className="flex-1 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium outline-none"
+                    />
+                    <select
+                      value={rule.severity}
+                      onChange={(e) => updateRule(rule.id, { severity: e.target.value as RuleSeverity })}
+                      className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs outline-none"
+                    >
+                      <option value="warning">Warning</option>
+                      <option value="error">Error</option>
+                    </select>
+                    <button
+                      onClick={() => setLocalConfig(prev => ({ ...prev, customRules: prev.customRules.filter(r => r.id !== rule.id) }))}
+                      className="p-1 text-slate-400 hover:text-red-500"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    value={rule.expression}
+                    onChange={(e) => updateRule(rule.id, { expression: e.target.value })}
+                    placeholder="e.g. Quantity > 0 and Unit_Price <= 10000"
+                    className={`w-full px-3 py-2 bg-slate-50 border rounded-lg text-xs font-mono outline-none ${
+                      syntaxError && rule.expression ? 'border-red-300' : 'border-slate-200'
+                    }`}
+                  />
+                  {syntaxError && rule.expression && <p className="text-[11px] text-red-600">{syntaxError}</p>}
+                </div>
+              );
+            })}
+            <button
+              onClick={addRule}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-semibold text-blue-600 hover:bg-blue-50"
+            >
+              <Plus size={14} />
+              Add rule
+            </button>
+            {fields.length > 0 && (
+              <p className="text-[11px] text-slate-400 leading-relaxed">
+                Fields: {fields.map(f => <code key={f} className="mx-0.5 px-1 bg-slate-100 rounded">{f}</code>)}.
+                Operators: + - * / == != &lt; &gt; and or not. Functions: abs, round, min, max, len, lower, upper, empty, approx(a, b, tol).
+              </p>
+            )}
+          </section>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 px-4 rounded-xl border border-slate-200 text-slate-600 font-semibold hover:bg-slate-50 transition-all text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(localConfig)}
+            disabled={hasErrors}
+            className="flex-1 py-3 px-4 rounded-xl bg-blue-600 text-white font-semibold hover:bg-blue-700 transition-all shadow-md shadow-blue-200 flex items-center justify-center gap-2 text-sm disabled:opacity-50"
+          >
+            <Save size={18} />
+            Save Rules
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RulesModal;
@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { Copy, Layers, Plus, Save, Trash2, X } from 'lucide-react';
+import { ExtractionSchema, SchemaField, SchemaFieldType } from '../types';
+
+const FIELD_TYPES: SchemaFieldType[] = ['string', 'number', 'currency', 'date', 'enum'];
+
+const emptyField = (): SchemaField => ({
+  name: '',
+  type: 'string',
+  required: false,
+  description: ''
+});
+
+const SchemaEditorModal: React.FC<{
+  schemas: ExtractionSchema[];
+  selectedId: string;
+  onSave: (schemas: ExtractionSchema[], selectedId: string) => void;
+  onClose: () => void;
+}> = ({ schemas, selectedId, onSave, onClose }) => {
+  const [localSchemas, setLocalSchemas] = useState<ExtractionSchema[]>(schemas);
+  const [editingId, setEditingId] = useState<string>(selectedId);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const editing = localSchemas.find(s => s.id === editingId) || localSchemas[0];
+
+  const updateEditing = (changes: Partial<ExtractionSchema>) => {
+    setLocalSchemas(prev => prev.map(s => s.id === editing.id ? { ...s, ...changes } : s));
+  };
+
+  const updateField = (index: number, changes: Partial<SchemaField>) => {
+    updateEditing({ fields: editing.fields.map((f, i) => i === index ? { ...f, ...changes } : f) });
+  };
+
+  const duplicateSchema = () => {
+    const copy: ExtractionSchema = {
+      ...editing,
+      id: `custom-${Date.now().toString(36)}`,
+      name: `${editing.name} (copy)`,
+      builtIn: false,
+      fields: editing.fields.map(f => ({ ...f }))
+    };
+    setLocalSchemas(prev => [...prev, copy]);
+    setEditingId(copy.id);
+  };
+
+  const createSchema = () => {
+    const schema: ExtractionSchema = {
+      id: `custom-${Date.now().toString(36)}`,
+      name: 'New schema',
+      description: '',
+      fields: [{ ...emptyField(), name: 'Description', required: true }]
+    };
+    setLocalSchemas(prev => [...prev, schema]);
+    setEditingId(schema.id);
+  };
+
+  const deleteSchema = () => {
+    if (editing.builtIn) return;
+    const remaining = localSchemas.filter(s => s.id !== editing.id);
+    setLocalSchemas(remaining);
+    setEditingId(remaining[0].id);
+  };
+
+  const handleSave = () => {
+    for (const schema of localSchemas) {
+      const names = schema.fields.map(f => f.name.trim());
+      if (schema.fields.length === 0) {
+        setFormError(`"${schema.name}" needs at least one field.`);
+        return;
+      }
+      if (names.some(n => !/^[A-Za-z][A-Za-z0-9_]*$/.test(n))) {
+        setFormError(`"${schema.name}" has a field name that is empty or contains spaces/symbols.`);
+        return;
+      }
+      if (new Set(names).size !== names.length) {
+        setFormError(`"${schema.name}" has duplicate field names.`);
+        return;
+      }
+    }
+    const selected = localSchemas.some(s => s.id === editingId) ? editingId : localSchemas[0].id;
+    onSave(localSchemas, selected);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Layers size={20} className="text-blue-500" />
+              Extraction Schemas
+            </h3>
+            <p className="text-xs text-slate-500">Define the fields the AI must return for each document type</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          <div className="w-56 border-r border-slate-100 p-4 space-y-1 overflow-y-auto shrink-0">
+            {localSchemas.map(schema => (
+              <button
+                key={schema.id}
+                onClick={() => setEditingId(schema.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-all ${
+                  schema.id === editing.id ? 'bg-blue-50 text-blue-700 font-semibold' : 'text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                <span className="block truncate">{schema.name}</span>
+                {schema.builtIn && <span className="text-[9px] uppercase font-bold text-slate-400">Built-in</span>}
+              </button>
+            ))}
+            <button
+              onClick={createSchema}
+              className="w-full mt-2 flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-semibold text-blue-600 hover:bg-blue-50"
+            >
+              <Plus size={14} />
+              New schema
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={editing.name}
+                disabled={editing.builtIn}
+                onChange={(e) => updateEditing({ name: e.target.value })}
+                className="flex-1 px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl outline-none text-sm font-semibold text-slate-700 disabled:opacity-70"
+              />
+              <button
+                onClick={duplicateSchema}
+                title="Duplicate"
+                className="p-2.5 rounded-xl border border-slate-200 text-slate-500 hover:bg-slate-50"
+              >
+                <Copy size={16} />
+              </button>
+              {!editing.builtIn && (
+                <button
+                  onClick={deleteSchema}
+                  title="Delete"
+                  className="p-2.5 rounded-xl border border-slate-200 text-slate-500 hover:text-red-500 hover:bg-red-50"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+            <textarea
+              value={editing.description}
+              disabled={editing.builtIn}
+              onChange={(e) => updateEditing({ description: e.target.value })}
+              placeholder="What kind of document is this schema for?"
+              rows={2}
+              className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl outline-none text-sm text-slate-600 disabled:opacity-70"
+            />
+            {editing.builtIn && (
+              <p className="text-[11px] text-slate-400 italic">Built-in schemas are read-only. Duplicate one to customise it.</p>
+            )}
+
+            <div className="space-y-2">
+              {editing.fields.map((field, idx) => (
+                <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+                  <input
+                    type="text"
+                    value={field.name}
+                    disabled={editing.builtIn}
+                    onChange={(e) => updateField(idx, { name: e.target.value })}
+                    placeholder="Field_Name"
+                    className="col-span-3 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono outline-none disabled:opacity-70"
+                  />
+                  <select
+                    value={field.type}
+                    disabled={editing.builtIn}
+                    onChange={(e) => updateField(idx, { type: e.target.value as SchemaFieldType })}
+                    className="col-span-2 px-2 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs outline-none disabled:opacity-70"
+                  >
+                    {FIELD_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                  <input
+                    type="text"
+                    value={field.type === 'enum' ? (field.options || []).join(', ') : field.description}
+                    disabled={editing.builtIn}
+                    onChange={(e) => field.type === 'enum'
+                      ? updateField(idx, { options: e.target.value.split(',').map(o => o.trim()).filter(Boolean) })
+                      : updateField(idx, { description: e.target.value })}
+                    placeholder={field.type === 'enum' ? 'Option A, Option B' : 'Description for the AI'}
+                    className="col-span-4 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs outline-none disabled:opacity-70"
+                  />
+                  <label
+                    title="Document header field: read once per document instead of on every line"
+                    className="col-span-1 flex items-center gap-1 text-[10px] font-bold text-slate-500 uppercase"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={field.scope === 'document'}
+                      disabled={editing.builtIn}
+                      onChange={(e) => updateField(idx, { scope: e.target.checked ? 'document' : undefined })}
+                    />
+                    Hdr
+                  </label>
+                  <label className="col-span-1 flex items-center gap-1 text-[10px] font-bold text-slate-500 uppercase">
+                    <input
+                      type="checkbox"
+                      checked={field.required}
+                      disabled={editing.builtIn}
+                      onChange={(e) => updateField(idx, { required: e.target.checked })}
+                    />
+                    Req
+                  </label>
+                  {!editing.builtIn && (
+                    <button
+                      onClick={() => updateEditing({ fields: editing.fields.filter((_, i) => i !== idx) })}
+                      className="col-span-1 p-1 text-slate-400 hover:text-red-500 justify-self-center"
+                    >
+                      <X size={14} />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {!editing.builtIn && (
+                <button
+                  onClick={() => updateEditing({ fields: [...editing.fields, emptyField()] })}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-semibold text-blue-600 hover:bg-blue-50"
+                >
+                  <Plus size={14} />
+                  Add field
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center gap-3">
+          {formError && <p className="flex-1 text-xs text-red-600">{formError}</p>}
+          <div className={`flex gap-3 ${formError ? '' : 'flex-1'}`}>
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 px-4 rounded-xl border border-slate-200 text-slate-600 font-semibold hover:bg-slate-50 transition-all text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 py-3 px-4 rounded-xl bg-blue-600 text-white font-semibold hover:bg-blue-700 transition-all shadow-md shadow-blue-200 flex items-center justify-center gap-2 text-sm"
+            >
+              <Save size={18} />
+              Save Schemas
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchemaEditorModal;
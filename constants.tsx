@@ -1,3 +1,4 @@
+import { DocumentLocale, DocumentTypeDefinition, ExportFormat, ExportOptions, ExtractionSchema, OcrLanguage, OcrLanguageSettings, ProviderSettings, RuleConfig } from './types';
 
 export const SUPPORTED_FILE_TYPES = [
   'image/png',
@@ -7,3 +8,382 @@ export const SUPPORTED_FILE_TYPES = [
 ];
 
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+// Structured files whose columns are mapped to the schema directly instead of being extracted
+export const SPREADSHEET_FILE_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+  'text/csv'
+];
+
+// What the upload picker offers; the content decides how a file is actually read
+export const UPLOAD_ACCEPT = [
+  '.pdf', '.png', '.jpg', '.jpeg', '.webp', '.tif', '.tiff', '.heic', '.heif',
+  '.docx', '.xlsx', '.xls', '.csv', '.eml', '.msg', '.zip', 'image/*'
+].join(',');
+
+// Largest ZIP archive or email accepted, and the most a ZIP-based file may unpack to; the files
+// inside are still held to MAX_FILE_SIZE
+export const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024; // 100MB
+
+// How deep archives and emails inside archives and emails are expanded
+export const MAX_ATTACHMENT_DEPTH = 3;
+
+// Resolution assumed for TIFF pages that do not state one
+export const TIFF_DEFAULT_DPI = 200;
+
+export const SCHEMA_STORAGE_KEY = 'docuextract.schemas';
+
+export const DEFAULT_SCHEMA_ID = 'generic-line-items';
+
+export const DEFAULT_SCHEMAS: ExtractionSchema[] = [
+  {
+    id: DEFAULT_SCHEMA_ID,
+    name: 'Generic line items',
+    description: 'Product and transactional line items from any business document.',
+    builtIn: true,
+    fields: [
+      { name: 'Reference', type: 'string', required: false, description: 'Product code, SKU or item reference' },
+      { name: 'Description', type: 'string', required: true, description: 'Product name or line description' },
+      { name: 'Quantity', type: 'number', required: false, description: 'Quantity of units' },
+      { name: 'Unit_Price', type: 'currency', required: false, description: 'Price per unit' },
+      { name: 'Total', type: 'currency', required: false, description: 'Line total amount' }
+    ]
+  },
+  {
+    id: 'supplier-invoice',
+    name: 'Supplier invoice',
+    description: 'Purchase invoices received from suppliers, one row per invoice line.',
+    builtIn: true,
+    fields: [
+      { name: 'Vendor', type: 'string', required: true, description: 'Name of the issuing supplier', scope: 'document' },
+      { name: 'Buyer', type: 'string', required: false, description: 'Name of the invoiced customer', scope: 'document' },
+      { name: 'Invoice_Number', type: 'string', required: true, description: 'Invoice number or identifier', scope: 'document' },
+      { name: 'Invoice_Date', type: 'date', required: true, description: 'Date the invoice was issued', scope: 'document' },
+      { name: 'Due_Date', type: 'date', required: false, description: 'Payment due date', scope: 'document' },
+      { name: 'Net_Total', type: 'currency', required: false, description: 'Invoice total before tax', scope: 'document' },
+      { name: 'Tax_Total', type: 'currency', required: false, description: 'Total tax amount', scope: 'document' },
+      { name: 'Gross_Total', type: 'currency', required: false, description: 'Invoice total including tax', scope: 'document' },
+      { name: 'Currency', type: 'enum', required: false, description: 'ISO currency code', options: ['EUR', 'USD', 'GBP', 'CHF', 'MAD'], scope: 'document' },
+      { name: 'SKU', type: 'string', required: false, description: 'Supplier product code or SKU' },
+      { name: 'Description', type: 'string', required: true, description: 'Line item description' },
+      { name: 'Quantity', type: 'number', required: true, description: 'Invoiced quantity' },
+      { name: 'Unit', type: 'string', required: false, description: 'Unit of measure (pcs, kg, box...)' },
+      { name: 'Unit_Price', type: 'currency', required: true, description: 'Net price per unit' },
+      { name: 'Tax_Rate', type: 'number', required: false, description: 'Tax rate in percent' },
+      { name: 'Line_Total', type: 'currency', required: true, description: 'Net line total' }
+    ]
+  },
+  {
+    id: 'bank-statement',
+    name: 'Bank statement',
+    description: 'Account statement transactions, one row per booking.',
+    builtIn: true,
+    fields: [
+      { name: 'Account', type: 'string', required: false, description: 'Account number or IBAN', scope: 'document' },
+      { name: 'Statement_Date', type: 'date', required: false, description: 'Date the statement was issued', scope: 'document' },
+      { name: 'Opening_Balance', type: 'currency', required: false, description: 'Balance at the start of the statement', scope: 'document' },
+      { name: 'Closing_Balance', type: 'currency', required: false, description: 'Balance at the end of the statement', scope: 'document' },
+      { name: 'Currency', type: 'enum', required: false, description: 'ISO currency code of the account', options: ['EUR', 'USD', 'GBP', 'CHF', 'MAD'], scope: 'document' },
+      { name: 'Booking_Date', type: 'date', required: true, description: 'Date the transaction was booked' },
+      { name: 'Value_Date', type: 'date', required: false, description: 'Value date of the transaction' },
+      { name: 'Description', type: 'string', required: true, description: 'Transaction text or counterparty' },
+      { name: 'Reference', type: 'string', required: false, description: 'Transaction or payment reference' },
+      { name: 'Direction', type: 'enum', required: false, description: 'Whether money left or entered the account', options: ['Debit', 'Credit'] },
+      { name: 'Amount', type: 'currency', required: true, description: 'Transaction amount, negative for debits' },
+      { name: 'Balance', type: 'currency', required: false, description: 'Running balance after the transaction' }
+    ]
+  },
+  {
+    id: 'receipt',
+    name: 'Receipt',
+    description: 'Till and card receipts, one row per purchased article.',
+    builtIn: true,
+    fields: [
+      { name: 'Merchant', type: 'string', required: true, description: 'Name of the shop or merchant', scope: 'document' },
+      { name: 'Receipt_Date', type: 'date', required: true, description: 'Date of purchase', scope: 'document' },
+      { name: 'Payment_Method', type: 'enum', required: false, description: 'How the purchase was paid', options: ['Cash', 'Card', 'Other'], scope: 'document' },
+      { name: 'Tax_Total', type: 'currency', required: false, description: 'Total tax amount', scope: 'document' },
+      { name: 'Total_Amount', type: 'currency', required: true, description: 'Amount paid', scope: 'document' },
+      { name: 'Currency', type: 'enum', required: false, description: 'ISO currency code', options: ['EUR', 'USD', 'GBP', 'CHF', 'MAD'], scope: 'document' },
+      { name: 'Description', type: 'string', required: true, description: 'Article name as printed' },
+      { name: 'Quantity', type: 'number', required: false, description: 'Number of units' },
+      { name: 'Amount', type: 'currency', required: true, description: 'Amount charged for the line' }
+    ]
+  },
+  {
+    id: 'packing-list',
+    name: 'Packing list',
+    description: 'Delivery notes and packing lists, one row per shipped item.',
+    builtIn: true,
+    fields: [
+      { name: 'Shipment_Number', type: 'string', required: false, description: 'Delivery note or shipment number', scope: 'document' },
+      { name: 'Ship_Date', type: 'date', required: false, description: 'Date of shipment', scope: 'document' },
+      { name: 'Ship_To', type: 'string', required: false, description: 'Name of the receiving party', scope: 'document' },
+      { name: 'SKU', type: 'string', required: false, description: 'Product code or SKU' },
+      { name: 'Description', type: 'string', required: true, description: 'Item description' },
+      { name: 'Quantity', type: 'number', required: true, description: 'Shipped quantity' },
+      { name: 'Unit', type: 'string', required: false, description: 'Unit of measure' },
+      { name: 'Package', type: 'string', required: false, description: 'Carton, pallet or package identifier' },
+      { name: 'Weight_Kg', type: 'number', required: false, description: 'Gross weight in kilograms' }
+    ]
+  }
+];
+
+export const DOCUMENT_TYPES: DocumentTypeDefinition[] = [
+  {
+    id: 'invoice',
+    label: 'Invoice',
+    schemaId: 'supplier-invoice',
+    keywords: {
+      'invoice': 3, 'tax invoice': 2, 'facture': 3, 'rechnung': 3, 'factura': 3, 'فاتورة': 3,
+      'invoice number': 2, 'invoice no': 2, 'due date': 2, 'échéance': 2, 'fälligkeit': 2,
+      'bill to': 1, 'vat': 1, 'tva': 1, 'mwst': 1, 'iva': 1, 'subtotal': 1, 'payment terms': 1
+    },
+    prompt: 'The document is an invoice. Line items are the invoiced goods or services; the totals block (net, tax, gross) belongs to the header, not to the line items.'
+  },
+  {
+    id: 'receipt',
+    label: 'Receipt',
+    schemaId: 'receipt',
+    keywords: {
+      'receipt': 3, 'ticket de caisse': 3, 'kassenbon': 3, 'quittung': 2, 'recibo': 3, 'ticket': 1,
+      'cash': 1, 'change': 1, 'tendered': 2, 'card payment': 1, 'visa': 1, 'mastercard': 1,
+      'thank you': 1, 'merci': 1, 'cashier': 2, 'till': 1
+    },
+    prompt: 'The document is a till or card receipt. Each purchased article is one line item; skip cash tendered, change, loyalty points and card slip lines.'
+  },
+  {
+    id: 'delivery-note',
+    label: 'Delivery note',
+    schemaId: 'packing-list',
+    keywords: {
+      'delivery note': 3, 'packing list': 3, 'packing slip': 3, 'bon de livraison': 3, 'lieferschein': 3,
+      'albarán': 3, 'albaran': 3, 'shipment': 2, 'ship to': 2, 'consignee': 2, 'carrier': 1,
+      'tracking': 1, 'gross weight': 2, 'pallet': 1, 'carton': 1, 'delivered': 1
+    },
+    prompt: 'The document is a delivery note or packing list. Each shipped article is one line item; such documents rarely show prices, so leave price fields null rather than guessing.'
+  },
+  {
+    id: 'bank-statement',
+    label: 'Bank statement',
+    schemaId: 'bank-statement',
+    keywords: {
+      'bank statement': 3, 'account statement': 3, 'statement of account': 3, 'relevé de compte': 3,
+      'kontoauszug': 3, 'extracto': 3, 'iban': 2, 'bic': 1, 'opening balance': 2, 'closing balance': 2,
+      'solde': 2, 'kontostand': 2, 'saldo': 2, 'value date': 2, 'debit': 1, 'credit': 1
+    },
+    prompt: 'The document is a bank statement. Each booking is one line item; skip balance brought forward and carried forward lines. Debits are negative amounts.'
+  },
+  {
+    id: 'other',
+    label: 'Other',
+    schemaId: null,
+    keywords: {},
+    prompt: ''
+  }
+];
+
+// Documents scoring below this are treated as 'other'
+export const MIN_CLASSIFICATION_CONFIDENCE = 0.4;
+
+// Cells scoring below this are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export const RULES_STORAGE_KEY = 'docuextract.rules';
+
+export const DEFAULT_RULE_CONFIG: RuleConfig = {
+  disabledBuiltIns: [],
+  customRules: [],
+  tolerance: 0.02
+};
+
+// Lines of two documents with the same amounts are duplicates when their descriptions share this much
+export const DUPLICATE_LINE_SIMILARITY = 0.8;
+
+// A unit price this many times above or below the SKU's median price is an outlier
+export const PRICE_OUTLIER_FACTOR = 1.5;
+
+// Other prices of a SKU needed before its prices are compared
+export const MIN_PRICE_SAMPLES = 3;
+
+// Description matches scoring below this leave a line without a catalog product
+export const MIN_CATALOG_CONFIDENCE = 0.5;
+
+export const LOCALE_STORAGE_KEY = 'docuextract.locale';
+
+export const DOCUMENT_LOCALES: DocumentLocale[] = [
+  { id: 'en-US', label: 'English (US)', decimal: '.', dateOrder: 'MDY', currency: 'USD' },
+  { id: 'en-GB', label: 'English (UK)', decimal: '.', dateOrder: 'DMY', currency: 'GBP' },
+  { id: 'fr-FR', label: 'Français', decimal: ',', dateOrder: 'DMY', currency: 'EUR' },
+  { id: 'de-DE', label: 'Deutsch', decimal: ',', dateOrder: 'DMY', currency: 'EUR' },
+  { id: 'es-ES', label: 'Español', decimal: ',', dateOrder: 'DMY', currency: 'EUR' },
+  { id: 'ar-MA', label: 'العربية (Maroc)', decimal: ',', dateOrder: 'DMY', currency: 'MAD' }
+];
+
+export const DEFAULT_LOCALE_ID = 'en-GB';
+
+export const OCR_LANGUAGE_STORAGE_KEY = 'docuextract.ocrLanguages';
+
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  {
+    id: 'eng', label: 'English', script: 'Latin', rtl: false, localeId: null,
+    markers: ['the', 'and', 'of', 'to', 'for', 'total', 'invoice', 'date', 'amount', 'qty', 'price', 'due', 'from', 'with']
+  },
+  {
+    id: 'fra', label: 'French', script: 'Latin', rtl: false, localeId: 'fr-FR',
+    markers: ['le', 'la', 'les', 'de', 'des', 'du', 'et', 'facture', 'montant', 'prix', 'quantité', 'pour', 'avec', 'tva']
+  },
+  {
+    id: 'deu', label: 'German', script: 'Latin', rtl: false, localeId: 'de-DE',
+    markers: ['der', 'die', 'das', 'und', 'für', 'mit', 'rechnung', 'betrag', 'menge', 'preis', 'datum', 'summe', 'mwst', 'nr']
+  },
+  {
+    id: 'spa', label: 'Spanish', script: 'Latin', rtl: false, localeId: 'es-ES',
+    markers: ['el', 'la', 'los', 'las', 'de', 'del', 'y', 'factura', 'importe', 'cantidad', 'precio', 'fecha', 'para', 'con', 'iva']
+  },
+  {
+    id: 'ara', label: 'Arabic', script: 'Arabic', rtl: true, localeId: 'ar-MA',
+    markers: ['في', 'من', 'على', 'إلى', 'فاتورة', 'المبلغ', 'الكمية', 'السعر', 'التاريخ', 'المجموع', 'الضريبة']
+  }
+];
+
+export const DEFAULT_OCR_LANGUAGE_SETTINGS: OcrLanguageSettings = { languages: ['eng'], autoDetect: true };
+
+// OCR and PDF assets are copied out of node_modules by the build (see vite.config.ts) and
+// served by the app itself, so nothing is fetched from a CDN
+export const OCR_LANG_PATH = '/tesseract/lang';
+
+export const OCR_WORKER_PATH = '/tesseract/worker.min.js';
+
+// Directory of the Tesseract core builds; the SIMD one is picked when the browser supports it
+export const OCR_CORE_PATH = '/tesseract/core';
+
+export const PDF_WORKER_PATH = '/pdfjs/pdf.worker.min.mjs';
+
+// Below this a detected language is not trusted; OCR keeps the configured combination
+export const MIN_LANGUAGE_CONFIDENCE = 0.5;
+
+// Placeholder values the model or document use for "no value"
+export const NULL_MARKERS = ['n/a', 'na', 'n.a.', '-', '--', '—', 'none', 'null', 'nil', 'not available', '?'];
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string }[] = [
+  { id: 'xlsx', label: 'Excel workbook', extension: 'xlsx' },
+  { id: 'xlsx-split', label: 'Excel: headers / line items / per file', extension: 'xlsx' },
+  { id: 'csv', label: 'CSV', extension: 'csv' },
+  { id: 'tsv', label: 'TSV', extension: 'tsv' },
+  { id: 'json', label: 'JSON', extension: 'json' },
+  { id: 'ndjson', label: 'NDJSON (one record per line)', extension: 'ndjson' },
+  { id: 'ods', label: 'OpenDocument spreadsheet', extension: 'ods' }
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'xlsx',
+  delimiter: ',',
+  encoding: 'utf-8-bom',
+  includeAuditColumn: false,
+  includeProvenance: false,
+  includeCatalog: true,
+  includeValidationSheet: true,
+  denormalize: true
+};
+
+// Document that exports rows whose source file is no longer in the queue, or was never set
+export const UNASSIGNED_DOCUMENT_ID = 'unassigned';
+
+export const DB_NAME = 'docuextract';
+
+export const DB_VERSION = 3;
+
+export const MAPPING_PROFILE_STORE = 'mappingProfiles';
+
+export const BATCH_STORE = 'batches';
+
+// Document base64 payloads, kept apart from the batches so listing history stays cheap
+export const PAYLOAD_STORE = 'filePayloads';
+
+// The imported product catalog, a single record
+export const CATALOG_STORE = 'catalog';
+
+export const CATALOG_ALIAS_STORE = 'catalogAliases';
+
+export const ACTIVE_BATCH_KEY = 'docuextract.activeBatch';
+
+export const WORKSPACE_SAVE_DELAY_MS = 1000;
+
+export const DEFAULT_CONCURRENCY = 2;
+
+export const MAX_CONCURRENCY = 4;
+
+export const MAX_RETRIES = 3;
+
+export const RETRY_BASE_DELAY_MS = 2000;
+
+export const PROVIDER_STORAGE_KEY = 'docuextract.provider';
+
+export const GEMINI_MODELS = ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'];
+
+export const LOCAL_PARSER_MODEL = 'layout-heuristic-v1';
+
+// Recorded as the model of rows copied from spreadsheets, see services/spreadsheetImport.ts
+export const SPREADSHEET_IMPORT_MODEL = 'column-mapping-v1';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  geminiModel: GEMINI_MODELS[0],
+  geminiEndpoint: '/api/extract',
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiModel: 'llama3.2-vision',
+  openAiApiKey: '',
+  offlineFallback: true,
+  pdfChunkPages: 5
+};
+
+// PDF pages rendered to images for providers that cannot read PDFs directly
+export const MAX_RENDERED_PDF_PAGES = 4;
+
+// Largest request body the extraction endpoint accepts unless MAX_BODY_MB says otherwise;
+// PDFs whose request would be larger are sent a page range at a time
+export const MAX_EXTRACTION_BODY_MB = 5.5;
+
+// Render scale for the page images of a chunked PDF
+export const CHUNK_RENDER_SCALE = 1.5;
+
+// Rows at the start of a chunk compared against the end of the previous one for duplicates
+export const CHUNK_OVERLAP_ROWS = 3;
+
+// Parsed PDFs, rendered page images and preprocessed images kept in memory; the least
+// recently used are dropped first
+export const OCR_CACHED_DOCUMENTS = 4;
+
+export const OCR_CACHED_PAGES = 40;
+
+export const OCR_CACHED_IMAGES = 8;
+
+// Width camera frames are scaled to for page edge detection
+export const SCAN_DETECT_WIDTH = 320;
+
+export const SCAN_DETECT_INTERVAL_MS = 400;
+
+// Longest side of a de-warped page
+export const SCAN_MAX_SIDE = 2000;
+
+// Resolution assumed when combining captured pages into a PDF
+export const SCAN_PDF_DPI = 150;
+
+// Images are resized so their longer side falls within this range before OCR and extraction
+export const PREPROCESS_MIN_SIDE = 1600;
+
+export const PREPROCESS_MAX_SIDE = 2400;
+
+// Longer side of the copy used to detect orientation and skew
+export const PREPROCESS_ANALYSIS_SIDE = 1000;
+
+// Smaller tilts are left alone
+export const MIN_SKEW_CORRECTION = 0.3;
+
+// PDF pages whose text layer holds fewer characters than this are treated as scans and OCR'd
+export const PDF_TEXT_LAYER_MIN_CHARS = 20;
+
+// Resolution scanned PDF pages are rendered at for OCR
+export const PDF_OCR_DPI = 300;
@@ -0,0 +1,7 @@
+import { handleExtract } from "../../server/extractHandler";
+
+// Netlify passes the caller's address on the context object
+export default async (request: Request, context: { ip?: string }) =>
+  handleExtract(request, context.ip || request.headers.get('x-nf-client-connection-ip') || 'unknown');
+
+export const config = { path: '/api/extract' };
@@ -0,0 +1,32 @@
+import { createServer } from "node:http";
+import { handleExtract } from "./extractHandler";
+import { loadEnvFile, sendWebResponse, toWebRequest } from "./nodeAdapter";
+
+/**
+ * Local equivalent of the Netlify function. `npm run dev` proxies /api here.
+ */
+loadEnvFile('.env.local');
+loadEnvFile('.env');
+
+const port = Number(process.env.API_PORT) || 8787;
+
+createServer(async (req, res) => {
+  const path = (req.url || '').split('?')[0];
+  if (path !== '/api/extract') {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+    return;
+  }
+  try {
+    const response = await handleExtract(toWebRequest(req, `http://localhost:${port}`), req.socket.remoteAddress || 'unknown');
+    await sendWebResponse(response, res);
+  } catch (error: any) {
+    console.error('Extraction endpoint failed:', error);
+    if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: error.message || 'Internal error' }));
+  }
+}).listen(port, () => {
+  const target = process.env.GEMINI_BASE_URL ? ` (model host ${process.env.GEMINI_BASE_URL})` : '';
+  console.log(`Extraction endpoint listening on http://localhost:${port}/api/extract${target}`);
+  if (!process.env.GEMINI_API_KEY && !process.env.API_KEY) console.warn('GEMINI_API_KEY is not set; requests will fail.');
+});
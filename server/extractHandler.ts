@@ -0,0 +1,207 @@
+import { GoogleGenAI } from "@google/genai";
+import { DocumentType, ExtractionSchema, SchemaFieldType } from "../types";
+import { DOCUMENT_TYPES, GEMINI_MODELS, MAX_EXTRACTION_BODY_MB, OCR_LANGUAGES, SUPPORTED_FILE_TYPES } from "../constants";
+import { buildResponseSchema } from "../utils/schemaUtils";
+import { USER_INSTRUCTION, buildSystemInstruction, parseModelJson } from "../services/extractionProvider";
+import { createRateLimiter } from "./rateLimiter";
+
+/**
+ * Body of POST /api/extract. Mirrors the browser-side extraction inputs; the
+ * OCR result is reduced to its text because that is all the model is shown.
+ */
+export interface ExtractRequestBody {
+  base64: string;
+  mimeType: string;
+  ocrText?: string;
+  schema: ExtractionSchema;
+  model: string;
+  documentType?: DocumentType;
+  // OCR_LANGUAGES id
+  language?: string;
+  // Rendered pages (data URLs) of one page range, sent instead of base64
+  pageImages?: string[];
+  // Notes carried over from earlier page ranges
+  context?: string;
+}
+
+interface ServerConfig {
+  apiKey: string | undefined;
+  // Overrides the Gemini API host, e.g. to point at a local stub model server
+  baseUrl: string | undefined;
+  models: string[];
+  maxBodyBytes: number;
+  requestsPerMinute: number;
+}
+
+const FIELD_TYPES: SchemaFieldType[] = ['string', 'number', 'currency', 'date', 'enum'];
+const MAX_SCHEMA_FIELDS = 100;
+const MAX_PAGE_IMAGES = 20;
+const IMAGE_DATA_URL = /^data:(image\/(?:png|jpeg|webp));base64,(.+)$/;
+
+const numberFromEnv = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const readConfig = (): ServerConfig => ({
+  apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY,
+  baseUrl: process.env.GEMINI_BASE_URL || undefined,
+  models: process.env.GEMINI_MODELS
+    ? process.env.GEMINI_MODELS.split(',').map(model => model.trim()).filter(Boolean)
+    : GEMINI_MODELS,
+  // Netlify rejects synchronous function bodies above 6 MB, so stay under that by default
+  maxBodyBytes: numberFromEnv(process.env.MAX_BODY_MB, MAX_EXTRACTION_BODY_MB) * 1024 * 1024,
+  requestsPerMinute: numberFromEnv(process.env.RATE_LIMIT_PER_MINUTE, 20)
+});
+
+let limiter: { limit: number; check: ReturnType<typeof createRateLimiter> } | null = null;
+
+const checkRateLimit = (clientKey: string, limit: number) => {
+  if (!limiter || limiter.limit !== limit) limiter = { limit, check: createRateLimiter(limit, 60_000) };
+  return limiter.check(clientKey);
+};
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers }
+  });
+
+const fail = (status: number, message: string, headers?: Record<string, string>) =>
+  json(status, { error: message }, headers);
+
+const checkSchema = (schema: any): string | null => {
+  if (!schema || typeof schema !== 'object' || typeof schema.name !== 'string') return 'schema must be an object with a name.';
+  if (!Array.isArray(schema.fields) || schema.fields.length === 0) return 'schema.fields must be a non-empty array.';
+  if (schema.fields.length > MAX_SCHEMA_FIELDS) return `schema may have at most ${MAX_SCHEMA_FIELDS} fields.`;
+  const bad = schema.fields.find((field: any) =>
+    !field || typeof field.name !== 'string' || !field.name.trim() || !FIELD_TYPES.includes(field.type)
+  );
+  return bad ? `Invalid schema field: ${JSON.stringify(bad).slice(0, 100)}` : null;
+};
+
+const checkBody = (body: any, config: ServerConfig): string | null => {
+  if (!body || typeof body !== 'object') return 'Request body must be a JSON object.';
+  if (body.pageImages !== undefined) {
+    if (!Array.isArray(body.pageImages) || body.pageImages.length === 0 || body.pageImages.length > MAX_PAGE_IMAGES) {
+      return `pageImages must hold 1 to ${MAX_PAGE_IMAGES} images.`;
+    }
+    if (!body.pageImages.every((image: unknown) => typeof image === 'string' && IMAGE_DATA_URL.test(image))) {
+      return 'pageImages must be PNG, JPEG or WebP data URLs.';
+    }
+    if (body.context !== undefined && typeof body.context !== 'string') return 'context must be a string.';
+  } else if (typeof body.base64 !== 'string' || !body.base64) return 'base64 is required.';
+  if (!SUPPORTED_FILE_TYPES.includes(body.mimeType)) return `Unsupported mimeType: ${String(body.mimeType)}`;
+  if (body.ocrText !== undefined && typeof body.ocrText !== 'string') return 'ocrText must be a string.';
+  if (!config.models.includes(body.model)) return `Model not allowed: ${String(body.model)}`;
+  if (body.documentType !== undefined && !DOCUMENT_TYPES.some(t => t.id === body.documentType)) {
+    return `Unknown documentType: ${String(body.documentType)}`;
+  }
+  if (body.language !== undefined && !OCR_LANGUAGES.some(l => l.id === body.language)) {
+    return `Unknown language: ${String(body.language)}`;
+  }
+  return checkSchema(body.schema);
+};
+
+/**
+ * Reads the body while counting bytes, so an oversized upload is cut off
+ * without buffering it whole even when Content-Length is missing or wrong.
+ */
+const readLimitedText = async (request: Request, maxBytes: number): Promise<string | null> => {
+  if (!request.body) return '';
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return new TextDecoder().decode(Buffer.concat(chunks));
+};
+
+/**
+ * Runs one extraction with the server's Gemini key. Shared by the Netlify
+ * function and the local Node server; clientKey identifies the caller for
+ * rate limiting (normally the client IP).
+ */
+export const handleExtract = async (request: Request, clientKey: string): Promise<Response> => {
+  if (request.method !== 'POST') return fail(405, 'Use POST.', { Allow: 'POST' });
+
+  const config = readConfig();
+  if (!config.apiKey) return fail(500, 'The server has no GEMINI_API_KEY configured.');
+
+  const declaredLength = Number(request.headers.get('content-length'));
+  if (declaredLength > config.maxBodyBytes) {
+    return fail(413, `Document is too large for the extraction endpoint (limit ${Math.floor(config.maxBodyBytes / 1024 / 1024)} MB).`);
+  }
+
+  const rate = checkRateLimit(clientKey, config.requestsPerMinute);
+  if (!rate.allowed) {
+    return fail(429, `Rate limit of ${config.requestsPerMinute} extractions per minute reached. Try again in ${rate.retryAfter}s.`, {
+      'Retry-After': String(rate.retryAfter)
+    });
+  }
+
+  const text = await readLimitedText(request, config.maxBodyBytes);
+  if (text === null) {
+    return fail(413, `Document is too large for the extraction endpoint (limit ${Math.floor(config.maxBodyBytes / 1024 / 1024)} MB).`);
+  }
+
+  let body: ExtractRequestBody;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return fail(400, 'Request body is not valid JSON.');
+  }
+  const problem = checkBody(body, config);
+  if (problem) return fail(400, problem);
+
+  const ai = new GoogleGenAI({
+    apiKey: config.apiKey,
+    ...(config.baseUrl ? { httpOptions: { baseUrl: config.baseUrl } } : {})
+  });
+
+  const parts: any[] = body.pageImages
+    ? body.pageImages.map(image => {
+        const [, mimeType, data] = image.match(IMAGE_DATA_URL)!;
+        return { inlineData: { data, mimeType } };
+      })
+    : [{ inlineData: { data: body.base64, mimeType: body.mimeType } }];
+  if (body.ocrText && body.ocrText.trim()) {
+    parts.push({ text: `SUPPLEMENTAL OCR TEXT:\n\n${body.ocrText}` });
+  }
+  if (body.context && body.context.trim()) parts.push({ text: body.context });
+  parts.push({ text: USER_INSTRUCTION });
+
+  let responseText: string | undefined;
+  try {
+    const response = await ai.models.generateContent({
+      model: body.model,
+      contents: [{ parts }],
+      config: {
+        systemInstruction: buildSystemInstruction(body.schema, body.documentType, body.language),
+        responseMimeType: "application/json",
+        responseSchema: buildResponseSchema(body.schema),
+        temperature: 0.1,
+      },
+    });
+    responseText = response.text;
+  } catch (error: any) {
+    console.error("Gemini API Error:", error);
+    // Keep rate-limit and outage statuses so the browser's retry logic still applies
+    const status = typeof error.status === 'number' && (error.status === 429 || error.status >= 500) ? error.status : 502;
+    return fail(status, error.message || "The model call failed.");
+  }
+
+  try {
+    return json(200, parseModelJson(responseText));
+  } catch (error: any) {
+    return fail(502, error.message || "The model returned an unreadable response.");
+  }
+};
@@ -0,0 +1,39 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { existsSync, readFileSync } from "node:fs";
+import { Readable } from "node:stream";
+
+/**
+ * Converts a Node request into a fetch Request so the shared handlers run unchanged.
+ */
+export const toWebRequest = (req: IncomingMessage, origin: string): Request => {
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (Array.isArray(value)) value.forEach(item => headers.append(name, item));
+    else if (value !== undefined) headers.set(name, value);
+  });
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(new URL(req.url || '/', origin), {
+    method: req.method,
+    headers,
+    body: hasBody ? (Readable.toWeb(req) as ReadableStream) : undefined,
+    // Required by Node's fetch for streamed bodies
+    ...(hasBody ? { duplex: 'half' } : {})
+  } as RequestInit);
+};
+
+export const sendWebResponse = async (response: Response, res: ServerResponse) => {
+  res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
+  res.end(Buffer.from(await response.arrayBuffer()));
+};
+
+/**
+ * Loads KEY=value lines from an env file without overriding variables that are already set.
+ */
+export const loadEnvFile = (path: string) => {
+  if (!existsSync(path)) return;
+  readFileSync(path, 'utf8').split(/\r?\n/).forEach(line => {
+    const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+    if (!match || process.env[match[1]] !== undefined) return;
+    process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+  });
+};
@@ -0,0 +1,33 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the client may try again; 0 when allowed
+  retryAfter: number;
+}
+
+/**
+ * Sliding-window limiter keyed by client. State lives in memory, so on
+ * serverless hosts the limit applies per warm instance rather than globally.
+ */
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const hits = new Map<string, number[]>();
+
+  const prune = (now: number) => {
+    hits.forEach((times, key) => {
+      const recent = times.filter(time => now - time < windowMs);
+      if (recent.length) hits.set(key, recent);
+      else hits.delete(key);
+    });
+  };
+
+  return (clientKey: string, now = Date.now()): RateLimitResult => {
+    if (hits.size > 10000) prune(now);
+    const recent = (hits.get(clientKey) || []).filter(time => now - time < windowMs);
+    if (recent.length >= limit) {
+      hits.set(clientKey, recent);
+      return { allowed: false, retryAfter: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)) };
+    }
+    recent.push(now);
+    hits.set(clientKey, recent);
+    return { allowed: true, retryAfter: 0 };
+  };
+};
@@ -0,0 +1,69 @@
+import { createServer } from "node:http";
+
+/**
+ * Stands in for the Gemini API when testing the extraction endpoint:
+ *
+ *   STUB_PORT=8788 npm run stub-model
+ *   GEMINI_BASE_URL=http://localhost:8788 GEMINI_API_KEY=stub npm run server
+ *
+ * Answers generateContent with a header and rows synthesised from the request's
+ * response schema. STUB_STATUS forces an error status (e.g. 429 or 503) to exercise retries.
+ */
+const port = Number(process.env.STUB_PORT) || 8788;
+const forcedStatus = Number(process.env.STUB_STATUS) || 0;
+const rowCount = Number(process.env.STUB_ROWS) || 2;
+
+const sampleValue = (name: string, property: any, row: number): unknown => {
+  switch (String(property?.type).toUpperCase()) {
+    case 'NUMBER': return Math.round(row * 10.5 * 100) / 100;
+    case 'INTEGER': return 1;
+    case 'BOOLEAN': return true;
+    case 'OBJECT':
+      return Object.fromEntries(Object.keys(property.properties || {}).map(key => [key, 0.9]));
+    default:
+      if (property?.enum?.length) return property.enum[0];
+      if (/YYYY-MM-DD/.test(property?.description || '')) return '2024-01-31';
+      return `${name} ${row}`;
+  }
+};
+
+const sampleObject = (properties: Record<string, any>, row: number) =>
+  Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, sampleValue(name, property, row)]));
+
+const buildAnswer = (responseSchema: any) => {
+  const lineProperties = responseSchema?.properties?.line_items?.items?.properties || {};
+  const headerProperties = responseSchema?.properties?.header?.properties || {};
+  return {
+    header: sampleObject(headerProperties, 1),
+    line_items: Array.from({ length: rowCount }, (_, index) => sampleObject(lineProperties, index + 1))
+  };
+};
+
+createServer((req, res) => {
+  const match = (req.url || '').match(/\/models\/([^/:?]+):generateContent/);
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.method !== 'POST' || !match) return send(404, { error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } });
+
+    const size = chunks.reduce((total, chunk) => total + chunk.length, 0);
+    console.log(`${new Date().toISOString()} generateContent model=${match[1]} bytes=${size}`);
+    if (forcedStatus) return send(forcedStatus, { error: { code: forcedStatus, message: 'Forced stub error', status: 'STUB' } });
+
+    let request: any;
+    try {
+      request = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      return send(400, { error: { code: 400, message: 'Invalid JSON', status: 'INVALID_ARGUMENT' } });
+    }
+    const answer = buildAnswer(request.generationConfig?.responseSchema);
+    send(200, {
+      candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(answer) }] }, finishReason: 'STOP' }],
+      modelVersion: match[1]
+    });
+  });
+}).listen(port, () => console.log(`Stub model server listening on http://localhost:${port}`));
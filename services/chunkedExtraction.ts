@@ -0,0 +1,113 @@
+import { ExtractedItem, ExtractionResponse, OcrResult } from "../types";
+import { CHUNK_RENDER_SCALE, MAX_EXTRACTION_BODY_MB } from "../constants";
+import { extractTextFromPdf, getPdfPageCount, renderPdfPage } from "../utils/ocrUtils";
+import {
+  ChunkResult,
+  DocumentFields,
+  describeChunkContext,
+  findDocumentFields,
+  planChunks,
+  sliceOcr,
+  stitchChunks
+} from "../utils/chunkUtils";
+import { ExtractionError, ExtractionProvider, ExtractionRequest } from "./extractionProvider";
+import { findTableHeader } from "./localParserService";
+
+const MAX_BODY_BYTES = MAX_EXTRACTION_BODY_MB * 1024 * 1024;
+
+// Allowance for the JSON around the document and the fields not counted below
+const BODY_OVERHEAD_BYTES = 16 * 1024;
+
+const encoder = new TextEncoder();
+
+/**
+ * Approximate size of a request body: the base64 document or page images (plain ASCII)
+ * plus the text sent with them.
+ */
+const bodyBytes = (documentChars: number, ...texts: string[]) =>
+  documentChars + BODY_OVERHEAD_BYTES + texts.reduce((sum, text) => sum + encoder.encode(text).length, 0);
+
+interface ChunkOptions {
+  // Wraps each chunk's call, e.g. with retries
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Whether a request should be split into page ranges: the PDF has more pages than
+ * pdfChunkPages, or is too large to send in one request. Only remote models have limits
+ * worth working around; the local parser already reads every page.
+ */
+export const shouldChunk = async (request: ExtractionRequest, provider: ExtractionProvider): Promise<boolean> => {
+  if (!provider.remote || request.mimeType !== 'application/pdf') return false;
+  if (bodyBytes(request.base64.length, request.ocr.text, JSON.stringify(request.schema)) > MAX_BODY_BYTES) return true;
+  const pagesPerChunk = request.settings.pdfChunkPages;
+  return pagesPerChunk > 0 && (await getPdfPageCount(request)) > pagesPerChunk;
+};
+
+/**
+ * Extracts a long PDF one page range at a time. Chunks run in order so each can be told the
+ * table header, the document-level values and the last row found so far. A range whose
+ * request would be too large to send is split in two until each part fits.
+ */
+export const extractInChunks = async (
+  request: ExtractionRequest,
+  provider: ExtractionProvider,
+  { run, onProgress }: ChunkOptions
+): Promise<ExtractionResponse> => {
+  const totalPages = await getPdfPageCount(request);
+  const ranges = planChunks(totalPages, request.settings.pdfChunkPages || totalPages);
+
+  // The header is located on the text layer even when OCR is switched off
+  const textLayer: OcrResult = request.ocr.words.length > 0 ? request.ocr : await extractTextFromPdf(request);
+  const header = findTableHeader(textLayer.words, request.schema);
+
+  const results: ChunkResult[] = [];
+  let documentFields: DocumentFields = {};
+  let lastRow: ExtractedItem | null = null;
+  onProgress?.(0, ranges.length);
+
+  for (let index = 0; index < ranges.length; index++) {
+    const range = ranges[index];
+    const pageImages: string[] = [];
+    for (let page = range.startPage; page <= range.endPage; page++) {
+      pageImages.push(await renderPdfPage(request, page, CHUNK_RENDER_SCALE, 'image/jpeg'));
+    }
+    const ocr = sliceOcr(request.ocr, range);
+    const context = describeChunkContext(range, totalPages, header, documentFields, lastRow);
+
+    const imageChars = pageImages.reduce((sum, image) => sum + image.length, 0);
+    if (bodyBytes(imageChars, ocr.text, context, JSON.stringify(request.schema)) > MAX_BODY_BYTES) {
+      if (range.startPage === range.endPage) {
+        throw new ExtractionError(`Page ${range.startPage} is too large to send on its own (limit ${MAX_EXTRACTION_BODY_MB} MB).`, 413);
+      }
+      const middle = Math.floor((range.startPage + range.endPage) / 2);
+      ranges.splice(index, 1, { startPage: range.startPage, endPage: middle }, { startPage: middle + 1, endPage: range.endPage });
+      index--;
+      onProgress?.(results.length, ranges.length);
+      continue;
+    }
+
+    const response = await run(() => provider.extract({
+      ...request,
+      ocr,
+      chunk: {
+        index,
+        count: ranges.length,
+        startPage: range.startPage,
+        endPage: range.endPage,
+        totalPages,
+        pageImages,
+        context
+      }
+    }));
+
+    results.push({ ...range, response });
+    documentFields = { ...documentFields, ...findDocumentFields(response, request.schema) };
+    const rows = response.extracted_data;
+    if (rows.length > 0) lastRow = rows[rows.length - 1];
+    onProgress?.(index + 1, ranges.length);
+  }
+
+  return stitchChunks(results, request.schema, documentFields);
+};
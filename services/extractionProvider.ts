@@ -0,0 +1,187 @@
+import {
+  DocumentType,
+  ExtractedItem,
+  ExtractionResponse,
+  ExtractionSchema,
+  OcrResult,
+  ProviderId,
+  ProviderSettings,
+  RowMeta
+} from "../types";
+import { CONFIDENCE_KEY, PAGE_KEY, documentFieldsOf, lineFieldsOf } from "../utils/schemaUtils";
+import { documentTypeOf } from "../utils/classifyUtils";
+import { ocrLanguageOf } from "../utils/languageUtils";
+import { getLocale } from "../utils/normalizeUtils";
+
+/**
+ * A page range of a long PDF, sent as rendered page images instead of the whole file.
+ */
+export interface DocumentChunk {
+  index: number;
+  count: number;
+  startPage: number;
+  endPage: number;
+  totalPages: number;
+  // JPEG data URLs, one per page
+  pageImages: string[];
+  // Headers, document-level values and the previous chunk's last row
+  context: string;
+}
+
+export interface ExtractionRequest {
+  base64: string;
+  mimeType: string;
+  // Content hash of the queued file when base64 is its original content, for the OCR caches
+  contentHash?: string;
+  // Empty when OCR is switched off or failed
+  ocr: OcrResult;
+  schema: ExtractionSchema;
+  settings: ProviderSettings;
+  // Detected or user-chosen type, adds type-specific guidance to the prompt
+  documentType?: DocumentType;
+  // OCR_LANGUAGES id of the detected or configured document language
+  language?: string;
+  // Set when a long PDF is extracted a page range at a time
+  chunk?: DocumentChunk;
+}
+
+export interface ExtractionProvider {
+  id: ProviderId;
+  label: string;
+  description: string;
+  // Whether the document leaves the browser
+  remote: boolean;
+  // Readable reason the provider cannot run with these settings, or null
+  checkSettings: (settings: ProviderSettings) => string | null;
+  // Model name recorded with the results
+  modelName: (settings: ProviderSettings) => string;
+  // PROMPT_VERSION for providers that send the prompt below, null for those without a prompt
+  promptVersion: number | null;
+  extract: (request: ExtractionRequest) => Promise<ExtractionResponse>;
+}
+
+/**
+ * Keeps the HTTP status of the failed call so callers can tell rate limits and
+ * transient outages apart from bad input.
+ */
+export class ExtractionError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+  }
+}
+
+// Recorded with every extracted row; bump it whenever the instructions below change
+export const PROMPT_VERSION = 1;
+
+const BASE_INSTRUCTION = `
+You are a high-precision Data Extraction Specialist with advanced expertise in reconstructing complex table structures from unstructured documents. Your primary goal is to transform visual and OCR data into clean, structured business records.
+
+CRITICAL RULES FOR COMPLEX TABLE PARSING:
+1. SPATIAL ALIGNMENT: Analyze the visual layout. Use text alignment to identify columns.
+2. MULTI-LINE ROW RECONSTRUCTION: Intelligently group multi-line text fragments (e.g., long descriptions) into a single logical row.
+3. HEADER DETECTION: Identify table headers even if abbreviated.
+4. CROSS-COLUMN VALIDATION: Verify mathematical relationships (Qty * Price = Total) to ensure extraction accuracy.
+5. EXHAUSTIVE EXTRACTION: Extract EVERY row found in the document.
+6. DOCUMENT HEADER: Read document-level values (vendor, buyer, dates, totals, tax, currency) once into the header. Do not repeat them in line items.
+7. IGNORE NOISE: Skip page numbers and decorative elements.
+
+BUSINESS DATA FOCUS:
+Prioritize Product Codes/SKUs, Names/Descriptions, Quantities, Units, Prices, and Totals.
+
+Do not provide any preamble or markdown formatting. Just the raw JSON.
+`;
+
+export const USER_INSTRUCTION = "MANDATORY: Extract all business records and product line items. Ensure multi-line descriptions are merged correctly. Return strictly valid JSON.";
+
+const describeField = (field: ExtractionSchema['fields'][number]) => {
+  const flags = [field.type, field.required ? 'required' : 'optional'];
+  const options = field.type === 'enum' && field.options?.length ? ` One of: ${field.options.join(', ')}.` : '';
+  return `- "${field.name}" (${flags.join(', ')}): ${field.description}${options}`;
+};
+
+const describeHeader = (schema: ExtractionSchema) => {
+  const headerFields = documentFieldsOf(schema);
+  if (headerFields.length === 0) return '"header": {} (this schema has no document-level fields)';
+  return `"header" with exactly these document-level fields:
+${headerFields.map(describeField).join('\n')}`;
+};
+
+const describeType = (documentType: DocumentType | undefined) => {
+  const definition = documentTypeOf(documentType);
+  return definition.prompt ? `\nDOCUMENT TYPE: ${definition.label}\n${definition.prompt}\n` : '';
+};
+
+const describeLanguage = (language: string | undefined) => {
+  const definition = language ? ocrLanguageOf(language) : undefined;
+  if (!definition) return '';
+  const locale = definition.localeId ? getLocale(definition.localeId) : null;
+  const conventions = locale
+    ? ` Printed amounts use "${locale.decimal}" as the decimal mark and dates are written ${locale.dateOrder === 'MDY' ? 'month first' : locale.dateOrder === 'YMD' ? 'year first' : 'day first'}.`
+    : '';
+  return `\nDOCUMENT LANGUAGE: ${definition.label}${definition.rtl ? ' (written right to left)' : ''}
+Read labels and headings in this language. Copy text values as written; do not translate them.${conventions}\n`;
+};
+
+export const buildSystemInstruction = (schema: ExtractionSchema, documentType?: DocumentType, language?: string) => `${BASE_INSTRUCTION}
+TARGET SCHEMA: ${schema.name}
+${schema.description}
+${describeType(documentType)}${describeLanguage(language)}
+Return ONLY a JSON object of the form { "header": { ... }, "line_items": [ ...rows ] }.
+
+${describeHeader(schema)}
+
+"line_items", where every row has exactly these fields:
+${lineFieldsOf(schema).map(describeField).join('\n')}
+
+Return the header even when the document has no line items. Numbers and currency amounts must be plain JSON numbers without symbols or thousands separators. Dates must use YYYY-MM-DD. Use null for values that are not present.
+
+For every row also return "${PAGE_KEY}" (the 1-based page it was read from) and "${CONFIDENCE_KEY}", an object giving your confidence from 0 to 1 for each field. Give the header a "${CONFIDENCE_KEY}" object as well. Use low scores for values that were blurry, inferred or computed rather than read.
+`;
+
+const splitAnnotations = (raw: any): { row: ExtractedItem; meta: RowMeta } => {
+  const { [CONFIDENCE_KEY]: confidence, [PAGE_KEY]: page, ...row } = raw || {};
+  const cells: RowMeta['cells'] = {};
+  if (confidence && typeof confidence === 'object') {
+    Object.entries(confidence).forEach(([field, score]) => {
+      if (typeof score === 'number') cells[field] = { confidence: Math.max(0, Math.min(1, score)) };
+    });
+  }
+  return { row, meta: { page: typeof page === 'number' ? page : undefined, cells } };
+};
+
+/**
+ * Separates the model's per-row page and confidence annotations from the business fields.
+ */
+export const splitRowMeta = (rawRows: any[], rawHeader?: any): ExtractionResponse => {
+  const extracted_data: ExtractedItem[] = [];
+  const row_meta: RowMeta[] = [];
+
+  rawRows.forEach(raw => {
+    const { row, meta } = splitAnnotations(raw);
+    extracted_data.push(row);
+    row_meta.push(meta);
+  });
+
+  if (!rawHeader || typeof rawHeader !== 'object') return { extracted_data, row_meta };
+  const header = splitAnnotations(rawHeader);
+  return { extracted_data, row_meta, header: header.row, header_meta: header.meta };
+};
+
+/**
+ * Parses a model's JSON answer, tolerating markdown code fences around it.
+ */
+export const parseModelJson = (text: string | undefined): ExtractionResponse => {
+  if (!text) throw new Error("The AI returned an empty response.");
+
+  // Clean up potential markdown blocks
+  const jsonString = text.trim().replace(/^```(?:json)?\s*|```$/g, '');
+  const parsed = JSON.parse(jsonString);
+
+  // Older prompts asked for a flat, denormalized 'extracted_data' array
+  const lineItems = parsed.line_items ?? parsed.extracted_data;
+  if (!Array.isArray(lineItems)) {
+    throw new Error("Invalid response format: 'line_items' array missing.");
+  }
+
+  return splitRowMeta(lineItems, parsed.header);
+};
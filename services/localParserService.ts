@@ -0,0 +1,349 @@
+import { ExtractedItem, ExtractionResponse, ExtractionSchema, OcrResult, OcrWord, RowMeta, SchemaField } from "../types";
+import { DEFAULT_OCR_LANGUAGE_SETTINGS, LOCAL_PARSER_MODEL } from "../constants";
+import { extractTextFromPdf, performImageOcr } from "../utils/ocrUtils";
+import { TextLine, groupLines, median } from "../utils/layoutUtils";
+import { documentFieldsOf, lineFieldsOf } from "../utils/schemaUtils";
+import { ExtractionProvider, ExtractionRequest } from "./extractionProvider";
+
+interface Cell {
+  text: string;
+  x0: number;
+  x1: number;
+  words: OcrWord[];
+}
+
+interface Column {
+  field: string;
+  x0: number;
+  x1: number;
+}
+
+// Header words seen on invoices, statements and delivery notes, keyed by a word of the field name
+const SYNONYMS: Record<string, string[]> = {
+  quantity: ['qty', 'qte', 'qté', 'quantite', 'quantité', 'menge', 'anzahl', 'cantidad', 'cant', 'pcs', 'units'],
+  price: ['price', 'prix', 'pu', 'p.u.', 'unit price', 'prix unitaire', 'preis', 'einzelpreis', 'precio', 'rate'],
+  total: ['total', 'amount', 'montant', 'betrag', 'gesamt', 'importe', 'line total', 'total ht', 'net'],
+  amount: ['amount', 'montant', 'betrag', 'importe', 'debit', 'credit', 'total'],
+  description: ['description', 'designation', 'désignation', 'libelle', 'libellé', 'article', 'item', 'product', 'bezeichnung', 'beschreibung', 'descripcion', 'descripción', 'details'],
+  reference: ['ref', 'réf', 'reference', 'référence', 'code', 'item no', 'art nr', 'artikel', 'referencia'],
+  sku: ['sku', 'code', 'ref', 'article', 'item no', 'art nr', 'part no'],
+  unit: ['unit', 'uom', 'unité', 'unite', 'einheit', 'unidad'],
+  date: ['date', 'datum', 'fecha'],
+  balance: ['balance', 'solde', 'saldo'],
+  vendor: ['vendor', 'supplier', 'fournisseur', 'lieferant', 'proveedor', 'from'],
+  number: ['no', 'n°', 'nr', 'number', 'numéro', 'numero', 'nummer', '#'],
+  weight: ['weight', 'poids', 'gewicht', 'peso', 'kg']
+};
+
+// Lines that end a line-item table
+const TABLE_END = /^(sub-?total|total|sous-total|montant total|tva|vat|mwst|summe|gesamt|net total|grand total|amount due|balance due)\b/i;
+
+const NUMERIC_CELL = /^[-+(]?\s*[^\d\s]{0,3}\s?\d[\d.,\s']*\s?[^\d\s]{0,3}\)?-?%?$/;
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9#°. ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+const isNumeric = (text: string) => /\d/.test(text) && NUMERIC_CELL.test(text.trim());
+
+const isNumericField = (field: SchemaField) => field.type === 'number' || field.type === 'currency';
+
+const aliasesFor = (field: SchemaField): string[] => {
+  const words = field.name.toLowerCase().split(/[_\s]+/).filter(Boolean);
+  const aliases = new Set([normalize(words.join(' '))]);
+  // The last word carries the meaning: Unit_Price is a price, Invoice_Date a date
+  const key = [...words].reverse().find(word => SYNONYMS[word]);
+  if (key) SYNONYMS[key].forEach(alias => aliases.add(normalize(alias)));
+  return Array.from(aliases).filter(Boolean);
+};
+
+/**
+ * How well a header cell names a field: 3 exact name, 2.5 exact synonym, 2 contains the
+ * name, 1 contains a synonym as a whole word, 0 no match.
+ */
+const headerScore = (cellText: string, field: SchemaField, aliases: string[]): number => {
+  const text = normalize(cellText);
+  if (!text || isNumeric(cellText)) return 0;
+  const name = normalize(field.name.replace(/_/g, ' '));
+  if (text === name) return 3;
+  if (aliases.includes(text)) return 2.5;
+  if (text.includes(name)) return 2;
+  return aliases.some(alias => new RegExp(`(^|\\s)${alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\s|$)`).test(text)) ? 1 : 0;
+};
+
+/**
+ * Splits a line into cells wherever the horizontal gap is wider than a couple of characters.
+ */
+const splitCells = (line: TextLine): Cell[] => {
+  const charWidth = median(line.words.map(w => w.bbox.width / Math.max(1, w.text.length)));
+  const cells: Cell[] = [];
+  line.words.forEach(word => {
+    const last = cells[cells.length - 1];
+    if (last && word.bbox.x - last.x1 < charWidth * 2) {
+      last.text += ` ${word.text}`;
+      last.x1 = word.bbox.x + word.bbox.width;
+      last.words.push(word);
+    } else {
+      cells.push({ text: word.text, x0: word.bbox.x, x1: word.bbox.x + word.bbox.width, words: [word] });
+    }
+  });
+  return cells;
+};
+
+/**
+ * Finds the line that best looks like a table header and maps its cells to schema fields.
+ */
+const detectColumns = (lines: TextLine[], schema: ExtractionSchema): { index: number; columns: Column[] } | null => {
+  const aliases = new Map(schema.fields.map(f => [f.name, aliasesFor(f)]));
+  let best: { index: number; columns: Column[] } | null = null;
+
+  lines.forEach((line, index) => {
+    const cells = splitCells(line);
+    const taken = new Set<string>();
+    const columns: Column[] = [];
+    cells.forEach(cell => {
+      const match = schema.fields
+        .filter(f => !taken.has(f.name))
+        .map(f => ({ field: f.name, score: headerScore(cell.text, f, aliases.get(f.name)!) }))
+        .sort((a, b) => b.score - a.score)[0];
+      if (match && match.score > 0) {
+        taken.add(match.field);
+        columns.push({ field: match.field, x0: cell.x0, x1: cell.x1 });
+      }
+    });
+    if (columns.length >= 2 && (!best || columns.length > best.columns.length)) best = { index, columns };
+  });
+
+  return best;
+};
+
+const columnFor = (cell: Cell, columns: Column[]): Column => {
+  const overlap = (c: Column) => Math.min(cell.x1, c.x1) - Math.max(cell.x0, c.x0);
+  const overlapping = columns.filter(c => overlap(c) > 0).sort((a, b) => overlap(b) - overlap(a));
+  if (overlapping.length > 0) return overlapping[0];
+  const center = (cell.x0 + cell.x1) / 2;
+  return [...columns].sort((a, b) =>
+    Math.abs((a.x0 + a.x1) / 2 - center) - Math.abs((b.x0 + b.x1) / 2 - center)
+  )[0];
+};
+
+const cellConfidence = (words: OcrWord[]) =>
+  words.length === 0 ? 0 : Math.min(...words.map(w => w.confidence)) * 0.85;
+
+const appendCell = (row: ExtractedItem, meta: RowMeta, field: string, cell: Cell) => {
+  const previous = row[field];
+  row[field] = previous === null || previous === undefined ? cell.text : `${previous} ${cell.text}`;
+  const confidence = cellConfidence(cell.words);
+  meta.cells[field] = { confidence: meta.cells[field] ? Math.min(meta.cells[field].confidence, confidence) : confidence };
+};
+
+const emptyRow = (schema: ExtractionSchema): ExtractedItem =>
+  Object.fromEntries(schema.fields.map(f => [f.name, null]));
+
+/**
+ * Reads rows under a detected header. Lines with a number start a new row; text-only
+ * lines right below a row are continuation lines (wrapped descriptions).
+ */
+const parseTable = (lines: TextLine[], columns: Column[], schema: ExtractionSchema, rows: ExtractedItem[], meta: RowMeta[]) => {
+  const textField = schema.fields.find(f => f.type === 'string' && columns.some(c => c.field === f.name) && /desc|design|label|name|item/i.test(f.name))
+    || schema.fields.find(f => f.type === 'string' && columns.some(c => c.field === f.name));
+  let lastLine: TextLine | null = null;
+
+  for (const line of lines) {
+    const cells = splitCells(line);
+    const text = cells.map(c => c.text).join(' ');
+    if (TABLE_END.test(normalize(text)) && rows.length > 0) break;
+
+    if (cells.some(c => isNumeric(c.text)) && cells.length >= 2) {
+      const row = emptyRow(schema);
+      const rowMeta: RowMeta = { page: line.page, cells: {} };
+      cells.forEach(cell => appendCell(row, rowMeta, columnFor(cell, columns).field, cell));
+      rows.push(row);
+      meta.push(rowMeta);
+      lastLine = line;
+    } else if (lastLine && textField && line.y - lastLine.y < lastLine.height * 2.5) {
+      cells.forEach(cell => appendCell(rows[rows.length - 1], meta[meta.length - 1], textField.name, cell));
+      lastLine = line;
+    } else if (rows.length > 0) {
+      lastLine = null;
+    }
+  }
+};
+
+/**
+ * Fallback when no header is found: a line ending in numbers is a row, its numbers fill
+ * the numeric fields right to left and the leading text becomes the description.
+ */
+const parseFreeform = (lines: TextLine[], schema: ExtractionSchema, rows: ExtractedItem[], meta: RowMeta[]) => {
+  const numericFields = schema.fields.filter(isNumericField);
+  const textFields = schema.fields.filter(f => f.type === 'string');
+  const descField = textFields.find(f => /desc|design|label|name|item/i.test(f.name)) || textFields[0];
+  const codeField = textFields.find(f => f !== descField && /ref|sku|code|article/i.test(f.name));
+  if (numericFields.length === 0 || !descField) return;
+
+  lines.forEach(line => {
+    const cells = splitCells(line);
+    let split = cells.length;
+    while (split > 0 && isNumeric(cells[split - 1].text)) split--;
+    const numbers = cells.slice(split);
+    const texts = cells.slice(0, split);
+    if (numbers.length === 0 || texts.length === 0 || TABLE_END.test(normalize(texts[0].text))) return;
+
+    const row = emptyRow(schema);
+    const rowMeta: RowMeta = { page: line.page, cells: {} };
+    numbers.slice(-numericFields.length).reverse().forEach((cell, idx) => {
+      appendCell(row, rowMeta, numericFields[numericFields.length - 1 - idx].name, cell);
+    });
+    const [first, ...rest] = texts;
+    if (codeField && rest.length > 0 && /\d/.test(first.text) && !/\s/.test(first.text)) {
+      appendCell(row, rowMeta, codeField.name, first);
+      rest.forEach(cell => appendCell(row, rowMeta, descField.name, cell));
+    } else {
+      texts.forEach(cell => appendCell(row, rowMeta, descField.name, cell));
+    }
+    rows.push(row);
+    meta.push(rowMeta);
+  });
+};
+
+/**
+ * Looks for "Label: value" pairs for fields that are not table columns (invoice number,
+ * date, vendor...) and returns their values.
+ */
+const findLabelledValues = (lines: TextLine[], fields: SchemaField[]): Record<string, { value: string; confidence: number }> => {
+  const found: Record<string, { value: string; confidence: number }> = {};
+  fields.forEach(field => {
+    const aliases = aliasesFor(field);
+    for (const line of lines) {
+      const cells = splitCells(line);
+      // A trailing colon marks a label; without one only an exact label counts
+      const idx = cells.findIndex(cell => {
+        const labelled = /[:#]\s*$/.test(cell.text);
+        return headerScore(cell.text.replace(/[:#]\s*$/, ''), field, aliases) >= (labelled ? 2 : 2.5);
+      });
+      if (idx !== -1 && cells[idx + 1]) {
+        found[field.name] = { value: cells[idx + 1].text, confidence: cellConfidence(cells[idx + 1].words) * 0.8 };
+        return;
+      }
+      const text = line.words.map(w => w.text).join(' ');
+      const inline = aliases
+        .map(alias => text.match(new RegExp(`${alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*[:#]\\s*(\\S.*)$`, 'i')))
+        .find(Boolean);
+      if (inline) {
+        found[field.name] = { value: inline[1].trim(), confidence: cellConfidence(line.words) * 0.7 };
+        return;
+      }
+    }
+  });
+  return found;
+};
+
+/**
+ * Builds rows purely from word positions. Deterministic and fully offline.
+ */
+export const parseLayout = (ocr: OcrResult, schema: ExtractionSchema): ExtractionResponse => {
+  const lines = groupLines(ocr.words.filter(w => w.text.trim()));
+  const rows: ExtractedItem[] = [];
+  const meta: RowMeta[] = [];
+  const headerFields = documentFieldsOf(schema);
+  // Only line-item fields are looked for in the table
+  const lineSchema = { ...schema, fields: lineFieldsOf(schema) };
+
+  const header = detectColumns(lines, lineSchema);
+  if (header) {
+    // Later pages without their own header reuse the first page's columns
+    const pages = Array.from(new Set(lines.map(l => l.page)));
+    pages.forEach(page => {
+      const pageLines = lines.filter(l => l.page === page);
+      const pageHeader = page === lines[header.index].page ? header : detectColumns(pageLines, lineSchema);
+      const start = pageHeader === header
+        ? pageLines.indexOf(lines[header.index]) + 1
+        : pageHeader ? pageHeader.index + 1 : 0;
+      parseTable(pageLines.slice(start), (pageHeader || header).columns, lineSchema, rows, meta);
+    });
+  } else {
+    parseFreeform(lines, lineSchema, rows, meta);
+  }
+
+  const tableFields = new Set(rows.flatMap(r => Object.keys(r).filter(k => r[k] !== null)));
+  const labelled = findLabelledValues(lines, schema.fields.filter(f => !tableFields.has(f.name)));
+  const documentHeader: ExtractedItem = Object.fromEntries(headerFields.map(f => [f.name, null]));
+  const headerMeta: RowMeta = { cells: {} };
+  const lineLabels = Object.entries(labelled).filter(([field]) => {
+    if (!(field in documentHeader)) return true;
+    documentHeader[field] = labelled[field].value;
+    headerMeta.cells[field] = { confidence: labelled[field].confidence };
+    return false;
+  });
+
+  if (rows.length === 0 && lineLabels.length > 0) {
+    rows.push(emptyRow(lineSchema));
+    meta.push({ page: lines[0]?.page, cells: {} });
+  }
+  rows.forEach((row, idx) => {
+    lineLabels.forEach(([field, { value, confidence }]) => {
+      if (row[field] === null) {
+        row[field] = value;
+        meta[idx].cells[field] = { confidence };
+      }
+    });
+  });
+
+  if (headerFields.length === 0) return { extracted_data: rows, row_meta: meta };
+  return { extracted_data: rows, row_meta: meta, header: documentHeader, header_meta: headerMeta };
+};
+
+/**
+ * Finds the printed table header in the words and maps each heading to its schema field.
+ */
+export const findTableHeader = (words: OcrWord[], schema: ExtractionSchema): { label: string; field: string }[] | null => {
+  const lines = groupLines(words.filter(w => w.text.trim()));
+  const header = detectColumns(lines, { ...schema, fields: lineFieldsOf(schema) });
+  if (!header) return null;
+  const cells = splitCells(lines[header.index]);
+  return header.columns.map(column => ({
+    field: column.field,
+    label: cells.find(cell => cell.x0 === column.x0 && cell.x1 === column.x1)?.text || column.field
+  }));
+};
+
+/**
+ * Maps column headings (of a spreadsheet, for instance) to schema fields, strongest
+ * matches first so a field goes to the heading that names it best. Returns column index
+ * to field name; unmatched headings are left out.
+ */
+export const matchHeadings = (headings: string[], schema: ExtractionSchema): Map<number, string> => {
+  const candidates = headings.flatMap((heading, index) =>
+    schema.fields.map(field => ({ index, field: field.name, score: headerScore(heading, field, aliasesFor(field)) }))
+  ).filter(c => c.score > 0).sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const matches = new Map<number, string>();
+  const taken = new Set<string>();
+  candidates.forEach(({ index, field }) => {
+    if (matches.has(index) || taken.has(field)) return;
+    matches.set(index, field);
+    taken.add(field);
+  });
+  return matches;
+};
+
+const extractLocally = async ({ base64, contentHash, mimeType, ocr, schema, language }: ExtractionRequest): Promise<ExtractionResponse> => {
+  let source = ocr;
+  if (source.words.length === 0) {
+    const languages = language ? [language] : DEFAULT_OCR_LANGUAGE_SETTINGS.languages;
+    if (mimeType === 'application/pdf') source = await extractTextFromPdf({ base64, contentHash }, { ocrLanguages: languages });
+    else if (mimeType.startsWith('image/')) source = await performImageOcr(base64, mimeType, languages);
+  }
+  if (source.words.length === 0) throw new Error("No readable text found in the document.");
+  return parseLayout(source, schema);
+};
+
+export const localProvider: ExtractionProvider = {
+  id: 'local',
+  label: 'Local layout parser',
+  description: 'Builds rows from OCR word positions in the browser. Works offline; best on clean tabular documents.',
+  remote: false,
+  checkSettings: () => null,
+  modelName: () => LOCAL_PARSER_MODEL,
+  promptVersion: null,
+  extract: extractLocally
+};
@@ -0,0 +1,85 @@
+import { ExtractionResponse } from "../types";
+import { MAX_RENDERED_PDF_PAGES } from "../constants";
+import { CachedSource, getPdfPageCount, renderPdfPage } from "../utils/ocrUtils";
+import {
+  ExtractionError,
+  ExtractionProvider,
+  ExtractionRequest,
+  PROMPT_VERSION,
+  USER_INSTRUCTION,
+  buildSystemInstruction,
+  parseModelJson
+} from "./extractionProvider";
+
+/**
+ * Chat-completions endpoints take images but not PDFs, so PDF pages are rendered first.
+ */
+const documentImages = async (source: CachedSource, mimeType: string): Promise<string[]> => {
+  if (mimeType.startsWith('image/')) return [`data:${mimeType};base64,${source.base64}`];
+  if (mimeType !== 'application/pdf') return [];
+  const pageCount = Math.min(await getPdfPageCount(source), MAX_RENDERED_PDF_PAGES);
+  const images: string[] = [];
+  for (let page = 1; page <= pageCount; page++) {
+    images.push(await renderPdfPage(source, page));
+  }
+  return images;
+};
+
+const extractWithOpenAi = async ({ base64, contentHash, mimeType, ocr, schema, settings, documentType, language, chunk }: ExtractionRequest): Promise<ExtractionResponse> => {
+  const images = chunk ? chunk.pageImages : await documentImages({ base64, contentHash }, mimeType);
+  const content: any[] = images.map(url => ({ type: 'image_url', image_url: { url } }));
+  if (ocr.text && ocr.text.trim()) {
+    content.push({ type: 'text', text: `SUPPLEMENTAL OCR TEXT:\n\n${ocr.text}` });
+  }
+  if (chunk) content.push({ type: 'text', text: chunk.context });
+  content.push({ type: 'text', text: USER_INSTRUCTION });
+
+  let response: Response;
+  try {
+    response = await fetch(`${settings.openAiBaseUrl.trim().replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.openAiApiKey.trim() ? { Authorization: `Bearer ${settings.openAiApiKey.trim()}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.openAiModel,
+        temperature: 0.1,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: buildSystemInstruction(schema, documentType, language) },
+          { role: 'user', content }
+        ]
+      })
+    });
+  } catch (error: any) {
+    throw new ExtractionError(`Could not reach ${settings.openAiBaseUrl}: ${error.message}`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new ExtractionError(`Model endpoint returned ${response.status}${detail ? `: ${detail.slice(0, 300)}` : ''}`, response.status);
+  }
+
+  try {
+    const body = await response.json();
+    return parseModelJson(body?.choices?.[0]?.message?.content);
+  } catch (error: any) {
+    throw new ExtractionError(error.message || "The model endpoint returned an unreadable response.");
+  }
+};
+
+export const openAiProvider: ExtractionProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible endpoint',
+  description: 'Any server implementing /chat/completions with image input, e.g. a self-hosted vision model.',
+  remote: true,
+  checkSettings: (settings) => {
+    if (!/^https?:\/\/\S+$/i.test(settings.openAiBaseUrl.trim())) return 'Set the base URL of the OpenAI-compatible endpoint in Settings.';
+    if (!settings.openAiModel.trim()) return 'Choose the model to call on the OpenAI-compatible endpoint.';
+    return null;
+  },
+  modelName: (settings) => settings.openAiModel,
+  promptVersion: PROMPT_VERSION,
+  extract: extractWithOpenAi
+};
@@ -0,0 +1,38 @@
+import { ProviderId, ProviderSettings } from "../types";
+import { DEFAULT_PROVIDER_SETTINGS, PROVIDER_STORAGE_KEY } from "../constants";
+import { ExtractionProvider } from "./extractionProvider";
+import { geminiProvider } from "./geminiService";
+import { openAiProvider } from "./openAiService";
+import { localProvider } from "./localParserService";
+
+export const PROVIDERS: ExtractionProvider[] = [geminiProvider, openAiProvider, localProvider];
+
+export const getProvider = (id: ProviderId): ExtractionProvider =>
+  PROVIDERS.find(p => p.id === id) || geminiProvider;
+
+/**
+ * The provider to use right now: the configured one, or the local parser when the
+ * browser is offline and the configured provider needs the network.
+ */
+export const resolveProvider = (settings: ProviderSettings, online: boolean = navigator.onLine): ExtractionProvider => {
+  const configured = getProvider(settings.provider);
+  return configured.remote && !online && settings.offlineFallback ? localProvider : configured;
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const raw = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (!raw) return DEFAULT_PROVIDER_SETTINGS;
+    // Older versions kept a Gemini key in the browser; drop it now that the server holds the key
+    const { geminiApiKey, ...saved } = JSON.parse(raw);
+    if (geminiApiKey !== undefined) localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(saved));
+    return { ...DEFAULT_PROVIDER_SETTINGS, ...saved };
+  } catch (error) {
+    console.warn('Could not load provider settings:', error);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,76 @@
+import { ExtractedItem, ExtractionResponse, ExtractionSchema, RowMeta } from "../types";
+import { SheetTable, readSpreadsheet } from "../utils/officeUtils";
+import { documentFieldsOf, lineFieldsOf } from "../utils/schemaUtils";
+import { matchHeadings } from "./localParserService";
+
+// Rows searched for the heading row; anything above it is a title or a note
+const HEADING_SEARCH_ROWS = 10;
+// Rows of each sheet given to classification and language detection
+const TEXT_SAMPLE_ROWS = 200;
+
+const cellText = (value: string | number | null) => value === null ? '' : String(value).trim();
+
+/**
+ * The row whose cells name the most schema fields, with its column mapping.
+ */
+const findHeadingRow = (sheet: SheetTable, schema: ExtractionSchema) =>
+  sheet.rows.slice(0, HEADING_SEARCH_ROWS)
+    .map((row, index) => ({ index, columns: matchHeadings(row.map(cellText), schema) }))
+    .filter(candidate => candidate.columns.size >= 2)
+    .sort((a, b) => b.columns.size - a.columns.size || a.index - b.index)[0] || null;
+
+/**
+ * Maps the columns of an XLSX, XLS or CSV file to the schema instead of extracting it: every
+ * sheet with a recognisable heading row contributes its rows as line items, and document
+ * fields take the first value of their column. Values are copied as they are, so there is
+ * nothing to doubt and every cell gets full confidence.
+ */
+export const importSpreadsheet = (base64: string, mimeType: string, schema: ExtractionSchema): ExtractionResponse => {
+  const lineFields = lineFieldsOf(schema);
+  const headerFields = documentFieldsOf(schema);
+  const rows: ExtractedItem[] = [];
+  const meta: RowMeta[] = [];
+  const documentHeader: ExtractedItem = Object.fromEntries(headerFields.map(f => [f.name, null]));
+  const headerMeta: RowMeta = { cells: {} };
+  let matched = false;
+
+  readSpreadsheet(base64, mimeType).forEach((sheet, sheetIndex) => {
+    const heading = findHeadingRow(sheet, schema);
+    if (!heading) return;
+    matched = true;
+
+    sheet.rows.slice(heading.index + 1).forEach(cells => {
+      const row: ExtractedItem = Object.fromEntries(lineFields.map(f => [f.name, null]));
+      const rowMeta: RowMeta = { page: sheetIndex + 1, cells: {} };
+      heading.columns.forEach((field, column) => {
+        const value = cells[column] ?? null;
+        if (value === null || cellText(value) === '') return;
+        if (field in documentHeader) {
+          if (documentHeader[field] === null) {
+            documentHeader[field] = value;
+            headerMeta.cells[field] = { confidence: 1, page: sheetIndex + 1 };
+          }
+          return;
+        }
+        row[field] = value;
+        rowMeta.cells[field] = { confidence: 1, page: sheetIndex + 1 };
+      });
+      if (Object.keys(rowMeta.cells).length === 0) return;
+      rows.push(row);
+      meta.push(rowMeta);
+    });
+  });
+
+  if (!matched) throw new Error("No row of the spreadsheet has column headings matching the schema fields.");
+  if (headerFields.length === 0) return { extracted_data: rows, row_meta: meta };
+  return { extracted_data: rows, row_meta: meta, header: documentHeader, header_meta: headerMeta };
+};
+
+/**
+ * Tab-separated text of the first rows of every sheet, for classification and language
+ * detection.
+ */
+export const spreadsheetText = (base64: string, mimeType: string): string =>
+  readSpreadsheet(base64, mimeType)
+    .map(sheet => `--- Sheet ${sheet.name} ---\n${sheet.rows.slice(0, TEXT_SAMPLE_ROWS).map(row => row.map(cellText).join('\t')).join('\n')}`)
+    .join('\n\n');
@@ -4,15 +4,73 @@ export interface ExtractedItem {
 }
 
 export interface ExtractionResponse {
+  // Line items
   extracted_data: ExtractedItem[];
+  // Parallel to extracted_data
+  row_meta?: RowMeta[];
+  // Document-level fields, read once per document
+  header?: ExtractedItem;
+  header_meta?: RowMeta;
+}
+
+export type DocumentType = 'invoice' | 'receipt' | 'delivery-note' | 'bank-statement' | 'other';
+
+export interface DocumentTypeDefinition {
+  id: DocumentType;
+  label: string;
+  // Schema the type is extracted with; null uses the schema selected in the queue
+  schemaId: string | null;
+  // Lower-case terms and their weight as evidence for the type
+  keywords: Record<string, number>;
+  // Type-specific guidance added to the extraction prompt
+  prompt: string;
+}
+
+export interface DocumentClassification {
+  type: DocumentType;
+  // 0..1
+  confidence: number;
+  // 'manual' when the user overrode the detected type
+  source: 'keywords' | 'manual';
+}
+
+export interface LanguageDetection {
+  // OCR_LANGUAGES id (Tesseract traineddata code)
+  language: string;
+  // 0..1
+  confidence: number;
+  // 'configured' when auto-detection is off and a single language is set
+  source: 'auto' | 'configured';
+}
+
+// What the preprocessing stage changed on an image before OCR and extraction
+export interface PreprocessSummary {
+  // Clockwise quarter turn applied to bring the page upright
+  rotation: 0 | 90 | 180 | 270;
+  // Degrees of tilt removed, clockwise positive
+  skew: number;
+  // Resize factor, above 1 for upscaled low-resolution images
+  scale: number;
 }
 
 export interface FileData {
+  // Derived from contentHash for files queued since content hashing was added
   id: string;
   base64: string;
   mimeType: string;
   name: string;
   status: 'pending' | 'processing' | 'completed' | 'error';
+  // Last failure (or the transient error being retried)
+  error?: string;
+  retryCount?: number;
+  classification?: DocumentClassification;
+  // Schema the file's records were extracted with
+  schemaId?: string;
+  // Set when OCR and extraction read a preprocessed copy; word positions refer to that copy
+  preprocessed?: PreprocessSummary;
+  language?: LanguageDetection;
+  // SHA-256 of the file as received; the same content is only queued once
+  contentHash?: string;
 }
 
 export enum ExtractionStatus {
@@ -21,3 +79,303 @@ export enum ExtractionStatus {
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR'
 }
+
+export type SchemaFieldType = 'string' | 'number' | 'currency' | 'date' | 'enum';
+
+// 'document' fields (vendor, dates, totals...) appear once per document rather than on each line
+export type FieldScope = 'document' | 'line';
+
+export interface SchemaField {
+  name: string;
+  type: SchemaFieldType;
+  required: boolean;
+  description: string;
+  // Allowed values, only used by 'enum' fields
+  options?: string[];
+  // Defaults to 'line'
+  scope?: FieldScope;
+}
+
+export interface ExtractionSchema {
+  id: string;
+  name: string;
+  description: string;
+  fields: SchemaField[];
+  builtIn?: boolean;
+}
+
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+// Normalised (0..1) region of a page, origin at the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrWord {
+  text: string;
+  page: number;
+  bbox: BoundingBox;
+  confidence: number;
+}
+
+export interface OcrResult {
+  text: string;
+  words: OcrWord[];
+}
+
+export type ValueKind = 'number' | 'currency' | 'percent' | 'date';
+
+export interface CellFormat {
+  kind: ValueKind;
+  // ISO 4217 code, only for currency values
+  currency?: string;
+}
+
+export interface CellMeta {
+  // 0..1, combined from the model's self-reported score and the OCR cross-check
+  confidence: number;
+  page?: number;
+  bbox?: BoundingBox;
+  verified?: boolean;
+  format?: CellFormat;
+}
+
+export interface CellEdit {
+  // Value as originally extracted, before any human change
+  original: string | number | null;
+  editedAt: string;
+}
+
+// How and when a row was extracted; fileId and page on the row say where from
+export interface RowSource {
+  fileName: string;
+  // ISO timestamp
+  extractedAt: string;
+  // ProviderId, or 'spreadsheet' for rows copied from a spreadsheet
+  provider: string;
+  model: string;
+  // PROMPT_VERSION of the instructions sent to the model; missing for engines without a prompt
+  promptVersion?: number;
+}
+
+export interface RowMeta {
+  fileId?: string;
+  page?: number;
+  cells: Record<string, CellMeta>;
+  edits?: Record<string, CellEdit>;
+  // Row was added by hand rather than extracted
+  manual?: boolean;
+  // Missing for manual rows and rows extracted before provenance was recorded
+  source?: RowSource;
+  // Catalog SKU picked by hand, null when no catalog product applies; missing means matched automatically
+  catalogSku?: string | null;
+}
+
+export interface DocumentHeader {
+  fileId: string;
+  fields: ExtractedItem;
+  meta: RowMeta;
+}
+
+export interface RecordSet {
+  // Line items
+  data: ExtractedItem[];
+  // Parallel to data
+  rowMeta: RowMeta[];
+  // One per source document; missing in batches saved before headers were kept apart
+  documents?: DocumentHeader[];
+}
+
+export type RuleSeverity = 'error' | 'warning';
+
+export interface CustomRule {
+  id: string;
+  name: string;
+  // Expression that must hold for every row, see utils/expression.ts
+  expression: string;
+  severity: RuleSeverity;
+  enabled: boolean;
+}
+
+export interface RuleConfig {
+  disabledBuiltIns: string[];
+  customRules: CustomRule[];
+  // Absolute difference tolerated when comparing amounts
+  tolerance: number;
+}
+
+export interface RuleViolation {
+  ruleId: string;
+  ruleName: string;
+  row: number;
+  field?: string;
+  severity: RuleSeverity;
+  message: string;
+}
+
+export interface CatalogEntry {
+  sku: string;
+  name: string;
+  unit?: string;
+  price?: number;
+}
+
+export interface ProductCatalog {
+  fileName: string;
+  importedAt: number;
+  entries: CatalogEntry[];
+}
+
+// Learned from a manual match: what a supplier's code (or description) means in the catalog
+export interface CatalogAlias {
+  // Normalised vendor and code, see utils/catalogUtils.ts
+  key: string;
+  vendor: string;
+  // Supplier code or description as extracted
+  code: string;
+  sku: string;
+  learnedAt: number;
+}
+
+export type CatalogMatchSource = 'manual' | 'alias' | 'code' | 'description';
+
+export interface CatalogMatch {
+  entry: CatalogEntry;
+  // 0-1; code, alias and manual matches are certain
+  confidence: number;
+  source: CatalogMatchSource;
+}
+
+export type FindingKind = 'duplicate-document' | 'duplicate-line' | 'price-outlier';
+
+// Raised by the batch analysis that runs after extraction, see utils/anomalyUtils.ts
+export interface BatchFinding {
+  // Derived from the flagged content rather than row positions, so a kept finding stays kept
+  id: string;
+  kind: FindingKind;
+  // File whose records are flagged
+  fileId: string;
+  // Flagged row indices into RecordSet.data; dropping a duplicate document drops the whole file
+  rows: number[];
+  message: string;
+}
+
+export interface DocumentLocale {
+  id: string;
+  label: string;
+  decimal: '.' | ',';
+  dateOrder: 'DMY' | 'MDY' | 'YMD';
+  // Currency assumed when an amount carries no symbol or code
+  currency: string;
+}
+
+export interface OcrLanguage {
+  // Tesseract traineddata code, e.g. 'fra'
+  id: string;
+  label: string;
+  script: 'Latin' | 'Arabic';
+  rtl: boolean;
+  // DOCUMENT_LOCALES entry used to parse its numbers and dates; null keeps the chosen locale
+  localeId: string | null;
+  // Frequent short words, used to tell languages of one script apart
+  markers: string[];
+}
+
+export interface OcrLanguageSettings {
+  // OCR_LANGUAGES ids; recognised together, or the candidates when auto-detecting
+  languages: string[];
+  autoDetect: boolean;
+}
+
+export type ExportFormat = 'xlsx' | 'xlsx-split' | 'csv' | 'tsv' | 'json' | 'ndjson' | 'ods';
+
+export type TextEncoding = 'utf-8' | 'utf-8-bom' | 'windows-1252';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Only used by CSV
+  delimiter: string;
+  encoding: TextEncoding;
+  includeAuditColumn: boolean;
+  // File, page, time, provider, model and prompt version of every row
+  includeProvenance: boolean;
+  // Matched catalog SKU, name, expected price and confidence, when a catalog is loaded
+  includeCatalog: boolean;
+  includeValidationSheet: boolean;
+  // Repeat document header fields on every line item row (also controls the table view)
+  denormalize: boolean;
+}
+
+export type MappingColumnKind = 'field' | 'merge' | 'constant' | 'computed';
+
+export interface MappingColumn {
+  id: string;
+  // Column name in the exported file
+  header: string;
+  kind: MappingColumnKind;
+  // 'field': the extracted field; 'merge': the fields joined with separator
+  sources: string[];
+  separator?: string;
+  // 'constant': literal value; 'computed': expression, see utils/expression.ts
+  value?: string;
+  hidden?: boolean;
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  columns: MappingColumn[];
+  // Case-insensitive substrings matched against the extracted vendor name
+  vendorPatterns: string[];
+  // Sorted extracted field names the profile was built from
+  fieldFingerprint: string[];
+  autoApply: boolean;
+  updatedAt: number;
+}
+
+export type OcrStatus = 'idle' | 'running' | 'done' | 'skipped' | 'error';
+
+// 'text' pages are read from the PDF text layer; the others are scans that go through OCR
+export type PageOcrStatus = 'text' | 'queued' | 'running' | 'done' | 'error';
+
+export type WorkspaceFile = Omit<FileData, 'base64'> & { ocrStatus?: OcrStatus };
+
+export interface WorkspaceBatch {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Queue entries without their payloads, see PAYLOAD_STORE
+  files: WorkspaceFile[];
+  records: RecordSet;
+  mappingColumns: MappingColumn[];
+  activeProfileId: string | null;
+  schema: ExtractionSchema | null;
+  localeId: string;
+  payloadBytes: number;
+  // IDs of batch findings the user chose to keep
+  keptFindings?: string[];
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'local';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  geminiModel: string;
+  // Server-side extraction endpoint holding the Gemini key
+  geminiEndpoint: string;
+  // Any endpoint speaking the OpenAI chat completions API, e.g. a self-hosted model
+  openAiBaseUrl: string;
+  openAiModel: string;
+  openAiApiKey: string;
+  // Fall back to the local parser while the browser is offline
+  offlineFallback: boolean;
+  // Longer PDFs are sent to remote models this many pages at a time; 0 sends the whole file
+  pdfChunkPages: number;
+}
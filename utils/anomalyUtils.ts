@@ -0,0 +1,262 @@
+import { BatchFinding, ExtractedItem, RecordSet } from '../types';
+import { DUPLICATE_LINE_SIMILARITY, MIN_PRICE_SAMPLES, PRICE_OUTLIER_FACTOR } from '../constants';
+import { joinHeaders } from './documentUtils';
+import { toNumber } from './expression';
+import { findField } from './validationRules';
+import { listBatches } from './workspaceUtils';
+
+// Unit prices of earlier batches per normalised SKU
+export type PriceHistory = Record<string, number[]>;
+
+type CellValue = ExtractedItem[string] | undefined;
+
+interface LineInfo {
+  row: number;
+  fileId: string;
+  sku: string;
+  // As extracted, for messages
+  label: string;
+  description: string;
+  quantity: number | null;
+  // Line total in cents, or the unit price where there is no line total
+  amount: number | null;
+  unitPrice: number | null;
+}
+
+export const normalizeText = (value: CellValue): string =>
+  value === null || value === undefined || value === 'N/A'
+    ? ''
+    : String(value).normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Codes are compared without separators: "INV-0042" and "inv 0042" are the same invoice
+export const normalizeCode = (value: CellValue) => normalizeText(value).replace(/ /g, '');
+
+const cents = (value: CellValue): number | null => {
+  const n = toNumber(value ?? null);
+  return n === null ? null : Math.round(n * 100);
+};
+
+const formatCents = (amount: number) => (amount / 100).toFixed(2);
+
+/**
+ * Share of words two normalised descriptions have in common (Dice coefficient).
+ */
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const wordsA = new Set(a.split(' '));
+  const wordsB = new Set(b.split(' '));
+  const common = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  return (2 * common) / (wordsA.size + wordsB.size);
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const skuPrice = (row: ExtractedItem): { sku: string; price: number } | null => {
+  const headers = Object.keys(row);
+  const skuField = findField(headers, 'sku');
+  const priceField = findField(headers, 'unitPrice');
+  if (!skuField || !priceField) return null;
+  const sku = normalizeCode(row[skuField]);
+  const price = toNumber(row[priceField]);
+  return sku && price !== null && price > 0 ? { sku, price } : null;
+};
+
+/**
+ * Header fields of every document, taken from its first line item where the schema keeps
+ * no separate header.
+ */
+const documentFields = (records: RecordSet, joined: RecordSet): Map<string, ExtractedItem> => {
+  const byFile = new Map<string, ExtractedItem>();
+  records.documents?.forEach(doc => byFile.set(doc.fileId, doc.fields));
+  joined.data.forEach((row, idx) => {
+    const fileId = joined.rowMeta[idx]?.fileId;
+    if (fileId && !byFile.has(fileId)) byFile.set(fileId, row);
+  });
+  return byFile;
+};
+
+const describeLine = (row: ExtractedItem, idx: number, fileId: string): LineInfo => {
+  const headers = Object.keys(row);
+  const field = (role: Parameters<typeof findField>[1]) => {
+    const name = findField(headers, role);
+    return name ? row[name] : undefined;
+  };
+  const description = normalizeText(field('description'));
+  const lineTotal = cents(field('lineTotal'));
+  const unitPrice = toNumber(field('unitPrice') ?? null);
+  return {
+    row: idx,
+    fileId,
+    sku: normalizeCode(field('sku')),
+    label: String(field('sku') || field('description') || ''),
+    description,
+    quantity: toNumber(field('quantity') ?? null),
+    amount: lineTotal ?? (unitPrice === null ? null : Math.round(unitPrice * 100)),
+    unitPrice
+  };
+};
+
+/**
+ * A document is a duplicate of an earlier one in the queue with the same vendor, number
+ * and total, e.g. the same invoice scanned twice.
+ */
+const findDuplicateDocuments = (
+  fields: Map<string, ExtractedItem>,
+  files: { id: string; name: string }[],
+  rowsOf: (fileId: string) => number[]
+): BatchFinding[] => {
+  const seen = new Map<string, string>();
+  const findings: BatchFinding[] = [];
+  files.forEach(file => {
+    const item = fields.get(file.id);
+    if (!item) return;
+    const headers = Object.keys(item);
+    const numberField = findField(headers, 'documentNumber');
+    // The gross total where the document has one, else the net total
+    const totalField = [findField(headers, 'grossTotal'), findField(headers, 'documentTotal'), findField(headers, 'netTotal')]
+      .find(field => field && cents(item[field]) !== null);
+    const vendorField = findField(headers, 'vendor');
+    const number = numberField ? normalizeCode(item[numberField]) : '';
+    const total = totalField ? cents(item[totalField]) : null;
+    if (!numberField || !number || !totalField || total === null) return;
+
+    const key = `${vendorField ? normalizeText(item[vendorField]) : ''}|${number}|${total}`;
+    const original = seen.get(key);
+    if (!original) {
+      seen.set(key, file.id);
+      return;
+    }
+    findings.push({
+      id: `duplicate-document:${file.id}:${key}`,
+      kind: 'duplicate-document',
+      fileId: file.id,
+      rows: rowsOf(file.id),
+      message: `Same ${vendorField ? 'vendor, ' : ''}number (${item[numberField]}) and total (${formatCents(total)}) as ${
+        files.find(f => f.id === original)?.name
+      }`
+    });
+  });
+  return findings;
+};
+
+/**
+ * A line is a duplicate when an earlier document bills the same quantity and amount for the
+ * same SKU or, without SKUs, for a near-identical description.
+ */
+const findDuplicateLines = (lines: LineInfo[], fileNames: Record<string, string>): BatchFinding[] => {
+  const buckets = new Map<string, LineInfo[]>();
+  const occurrences = new Map<string, number>();
+  const findings: BatchFinding[] = [];
+
+  lines.forEach(line => {
+    if (line.amount === null || (!line.sku && !line.description)) return;
+    const bucketKey = `${line.quantity}|${line.amount}`;
+    if (!buckets.has(bucketKey)) buckets.set(bucketKey, []);
+    const earlier = buckets.get(bucketKey)!;
+    const match = earlier.find(other =>
+      other.fileId !== line.fileId && (line.sku && other.sku
+        ? line.sku === other.sku
+        : similarity(line.description, other.description) >= DUPLICATE_LINE_SIMILARITY)
+    );
+    earlier.push(line);
+    if (!match) return;
+
+    const signature = `${line.fileId}:${line.sku || line.description}|${bucketKey}`;
+    const occurrence = (occurrences.get(signature) || 0) + 1;
+    occurrences.set(signature, occurrence);
+    findings.push({
+      id: `duplicate-line:${signature}#${occurrence}`,
+      kind: 'duplicate-line',
+      fileId: line.fileId,
+      rows: [line.row],
+      message: `"${line.label}" (quantity ${line.quantity ?? '?'}, ${formatCents(line.amount)}) is also billed on ${fileNames[match.fileId] || 'another document'}`
+    });
+  });
+  return findings;
+};
+
+/**
+ * Unit prices far from the median of the same SKU in the rest of the batch and in earlier
+ * batches.
+ */
+const findPriceOutliers = (lines: LineInfo[], history: PriceHistory): BatchFinding[] => {
+  const bySku = new Map<string, LineInfo[]>();
+  lines.forEach(line => {
+    if (!line.sku || line.unitPrice === null || line.unitPrice <= 0) return;
+    if (!bySku.has(line.sku)) bySku.set(line.sku, []);
+    bySku.get(line.sku)!.push(line);
+  });
+
+  const findings: BatchFinding[] = [];
+  bySku.forEach((skuLines, sku) => {
+    skuLines.forEach(line => {
+      const references = [
+        ...skuLines.filter(other => other !== line).map(other => other.unitPrice!),
+        ...(history[sku] || [])
+      ];
+      if (references.length < MIN_PRICE_SAMPLES) return;
+      const usual = median(references);
+      const ratio = line.unitPrice! / usual;
+      if (ratio <= PRICE_OUTLIER_FACTOR && ratio >= 1 / PRICE_OUTLIER_FACTOR) return;
+      findings.push({
+        id: `price-outlier:${line.fileId}:${sku}:${line.unitPrice}`,
+        kind: 'price-outlier',
+        fileId: line.fileId,
+        rows: [line.row],
+        message: `Unit price ${line.unitPrice!.toFixed(2)} for ${line.label} is ${ratio.toFixed(1)}× its usual ${usual.toFixed(2)} (median of ${references.length} other prices)`
+      });
+    });
+  });
+  return findings;
+};
+
+/**
+ * Looks across the documents of a batch for duplicate documents, lines billed twice and unit
+ * prices out of line with the rest of the batch and earlier batches. Files are compared in
+ * queue order, so the later copy is the one flagged. Lines of a duplicate document are not
+ * flagged again.
+ */
+export const analyzeBatch = (
+  records: RecordSet,
+  files: { id: string; name: string }[],
+  priceHistory: PriceHistory
+): BatchFinding[] => {
+  const joined = joinHeaders(records);
+  const rowsOf = (fileId: string) =>
+    joined.rowMeta.map((meta, idx) => meta?.fileId === fileId ? idx : -1).filter(idx => idx !== -1);
+  const documents = findDuplicateDocuments(documentFields(records, joined), files, rowsOf);
+  const duplicateFiles = new Set(documents.map(finding => finding.fileId));
+
+  const queueOrder = new Map(files.map((file, position) => [file.id, position]));
+  const lines = joined.data
+    .map((row, idx) => ({ row, idx, fileId: joined.rowMeta[idx]?.fileId }))
+    .filter((entry): entry is { row: ExtractedItem; idx: number; fileId: string } =>
+      !!entry.fileId && queueOrder.has(entry.fileId) && !duplicateFiles.has(entry.fileId))
+    .sort((a, b) => queueOrder.get(a.fileId)! - queueOrder.get(b.fileId)! || a.idx - b.idx)
+    .map(({ row, idx, fileId }) => describeLine(row, idx, fileId));
+
+  const fileNames = Object.fromEntries(files.map(file => [file.id, file.name]));
+  return [...documents, ...findDuplicateLines(lines, fileNames), ...findPriceOutliers(lines, priceHistory)];
+};
+
+/**
+ * Unit prices per SKU of every saved batch except the open one.
+ */
+export const loadPriceHistory = async (excludeBatchId: string | null): Promise<PriceHistory> => {
+  const history: PriceHistory = {};
+  (await listBatches())
+    .filter(batch => batch.id !== excludeBatchId)
+    .forEach(batch => {
+      joinHeaders(batch.records).data.forEach(row => {
+        const entry = skuPrice(row);
+        if (!entry) return;
+        if (!history[entry.sku]) history[entry.sku] = [];
+        history[entry.sku].push(entry.price);
+      });
+    });
+  return history;
+};
@@ -0,0 +1,256 @@
+import { CatalogAlias, CatalogEntry, CatalogMatch, ExtractedItem, ProductCatalog, RowMeta } from '../types';
+import { CATALOG_ALIAS_STORE, CATALOG_STORE, MIN_CATALOG_CONFIDENCE, SPREADSHEET_FILE_TYPES } from '../constants';
+import { normalizeCode, normalizeText } from './anomalyUtils';
+import { deleteRecord, getAllRecords, getRecord, putRecord } from './dbUtils';
+import { toNumber } from './expression';
+import { prepareUpload } from './intakeUtils';
+import { readSpreadsheet } from './officeUtils';
+import { findField } from './validationRules';
+
+// Key of the single record in CATALOG_STORE
+const CATALOG_ID = 'active';
+
+// Rows searched for the catalog's heading row
+const HEADING_SEARCH_ROWS = 10;
+
+// A word found in more catalog names than this share does not narrow down the candidates
+const COMMON_WORD_SHARE = 0.1;
+
+// Catalog columns, compared after lower-casing and replacing spaces/dashes with "_"
+const CATALOG_HEADINGS = {
+  sku: /^(sku|code|item_?(code|no|number)|product_?(code|no|number|id)|article_?(no|number)?|part_?(no|number)|ref|reference)$/,
+  name: /^(name|product(_?name)?|description|item(_?name)?|designation|title)$/,
+  unit: /^(unit|uom|unit_?of_?measure)$/,
+  price: /^(price|unit_?price|list_?price|net_?price|cost|unit_?cost)$/
+};
+
+// Spellings of the same unit of measure
+const UNIT_SYNONYMS: Record<string, string> = {
+  pc: 'pc', pcs: 'pc', piece: 'pc', pieces: 'pc', ea: 'pc', each: 'pc', unit: 'pc', units: 'pc', st: 'pc', stk: 'pc', stck: 'pc',
+  kg: 'kg', kgs: 'kg', kilo: 'kg', kilogram: 'kg',
+  l: 'l', ltr: 'l', litre: 'l', liter: 'l',
+  m: 'm', meter: 'm', metre: 'm',
+  box: 'box', bx: 'box', carton: 'box', ctn: 'box',
+  pack: 'pack', pk: 'pack', pkg: 'pack'
+};
+
+// Catalog columns added to the table and the export, in order
+export const CATALOG_COLUMNS = [
+  { key: 'Catalog_SKU', label: 'Catalog SKU' },
+  { key: 'Catalog_Name', label: 'Catalog name' },
+  { key: 'Expected_Price', label: 'Expected price' },
+  { key: 'Match_Confidence', label: 'Match' }
+];
+
+interface CatalogIndex {
+  bySku: Map<string, CatalogEntry>;
+  byWord: Map<string, CatalogEntry[]>;
+  names: Map<CatalogEntry, string>;
+  aliases: Map<string, string>;
+}
+
+const normalizeUnit = (value: ExtractedItem[string] | undefined) => {
+  const unit = normalizeText(value).replace(/ /g, '');
+  return UNIT_SYNONYMS[unit] || unit;
+};
+
+// Letter triples of every word, so word order does not matter and typos only cost a few
+const trigrams = (text: string): Set<string> => {
+  const grams = new Set<string>();
+  text.split(' ').filter(Boolean).forEach(word => {
+    const padded = ` ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  });
+  return grams;
+};
+
+/**
+ * How alike two normalised descriptions are (Dice coefficient of their letter triples).
+ */
+const descriptionScore = (a: string, b: string): number => {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  if (gramsA.size === 0 || gramsB.size === 0) return 0;
+  const common = Array.from(gramsA).filter(gram => gramsB.has(gram)).length;
+  return (2 * common) / (gramsA.size + gramsB.size);
+};
+
+const findHeading = (headings: string[], role: keyof typeof CATALOG_HEADINGS) =>
+  headings.find(heading => CATALOG_HEADINGS[role].test(heading.trim().toLowerCase().replace(/[\s-]+/g, '_')));
+
+export const aliasKey = (vendor: string, code: string) => `${normalizeText(vendor)}|${normalizeCode(code)}`;
+
+/**
+ * Reads a product catalog from a CSV, XLSX or XLS file. The heading row must name a code
+ * and a product name column; unit and price columns are optional.
+ */
+export const importCatalog = async (fileName: string, bytes: Uint8Array): Promise<ProductCatalog> => {
+  const { files, rejected } = await prepareUpload(fileName, bytes);
+  const sheetFile = files.find(file => SPREADSHEET_FILE_TYPES.includes(file.mimeType));
+  if (!sheetFile) throw new Error(rejected[0]?.reason || 'A catalog must be a CSV, XLSX or XLS file.');
+
+  for (const sheet of readSpreadsheet(sheetFile.base64, sheetFile.mimeType)) {
+    const headingIndex = sheet.rows.slice(0, HEADING_SEARCH_ROWS).findIndex(row => {
+      const headings = row.map(cell => String(cell ?? ''));
+      return !!findHeading(headings, 'sku') && !!findHeading(headings, 'name');
+    });
+    if (headingIndex === -1) continue;
+
+    const headings = sheet.rows[headingIndex].map(cell => String(cell ?? ''));
+    const column = (role: keyof typeof CATALOG_HEADINGS) => {
+      const heading = findHeading(headings, role);
+      return heading === undefined ? -1 : headings.indexOf(heading);
+    };
+    const [skuColumn, nameColumn, unitColumn, priceColumn] = [column('sku'), column('name'), column('unit'), column('price')];
+    const entries = new Map<string, CatalogEntry>();
+    sheet.rows.slice(headingIndex + 1).forEach(row => {
+      const sku = String(row[skuColumn] ?? '').trim();
+      const name = String(row[nameColumn] ?? '').trim();
+      if (!sku || !name || entries.has(normalizeCode(sku))) return;
+      const price = priceColumn === -1 ? null : toNumber(row[priceColumn] ?? null);
+      entries.set(normalizeCode(sku), {
+        sku,
+        name,
+        unit: unitColumn === -1 || row[unitColumn] === null ? undefined : String(row[unitColumn]).trim(),
+        price: price ?? undefined
+      });
+    });
+    if (entries.size === 0) throw new Error(`The "${sheet.name}" sheet has catalog headings but no products below them.`);
+    return { fileName, importedAt: Date.now(), entries: Array.from(entries.values()) };
+  }
+  throw new Error('No heading row with a product code and a product name column was found.');
+};
+
+const buildIndex = (catalog: ProductCatalog, aliases: CatalogAlias[]): CatalogIndex => {
+  const index: CatalogIndex = { bySku: new Map(), byWord: new Map(), names: new Map(), aliases: new Map() };
+  catalog.entries.forEach(entry => {
+    const name = normalizeText(entry.name);
+    index.bySku.set(normalizeCode(entry.sku), entry);
+    index.names.set(entry, name);
+    new Set(name.split(' ')).forEach(word => {
+      if (word.length < 2) return;
+      if (!index.byWord.has(word)) index.byWord.set(word, []);
+      index.byWord.get(word)!.push(entry);
+    });
+  });
+  aliases.forEach(alias => index.aliases.set(alias.key, alias.sku));
+  return index;
+};
+
+const matchRow = (row: ExtractedItem, meta: RowMeta | undefined, index: CatalogIndex, entryCount: number): CatalogMatch | null => {
+  if (meta?.catalogSku !== undefined) {
+    const entry = meta.catalogSku === null ? undefined : index.bySku.get(normalizeCode(meta.catalogSku));
+    return entry ? { entry, confidence: 1, source: 'manual' } : null;
+  }
+
+  const headers = Object.keys(row);
+  const value = (role: Parameters<typeof findField>[1]) => {
+    const field = findField(headers, role);
+    return field ? row[field] : undefined;
+  };
+  const code = normalizeCode(value('sku'));
+  const description = normalizeText(value('description'));
+  const vendor = normalizeText(value('vendor'));
+
+  // What the user decided for this supplier's code or description comes first
+  for (const key of [code, description].filter(Boolean)) {
+    const sku = index.aliases.get(aliasKey(vendor, key)) ?? index.aliases.get(aliasKey('', key));
+    const entry = sku ? index.bySku.get(normalizeCode(sku)) : undefined;
+    if (entry) return { entry, confidence: 1, source: 'alias' };
+  }
+  const byCode = code ? index.bySku.get(code) : undefined;
+  if (byCode) return { entry: byCode, confidence: 1, source: 'code' };
+  if (!description) return null;
+
+  const commonLimit = Math.max(50, entryCount * COMMON_WORD_SHARE);
+  const candidates = new Set<CatalogEntry>();
+  description.split(' ').forEach(word => {
+    const entries = index.byWord.get(word);
+    if (entries && entries.length <= commonLimit) entries.forEach(entry => candidates.add(entry));
+  });
+
+  const unit = normalizeUnit(value('unit'));
+  let best: CatalogMatch | null = null;
+  candidates.forEach(entry => {
+    let score = descriptionScore(description, index.names.get(entry)!);
+    const entryUnit = normalizeUnit(entry.unit);
+    if (unit && entryUnit) score = unit === entryUnit ? Math.min(1, score + 0.1) : score * 0.7;
+    if (score >= MIN_CATALOG_CONFIDENCE && (!best || score > best.confidence)) {
+      best = { entry, confidence: score, source: 'description' };
+    }
+  });
+  return best;
+};
+
+/**
+ * Matches every row to a catalog product: a product picked by hand, then a learned alias of
+ * the supplier's code or description, then the code itself, then the closest product name
+ * (weighed by unit of measure). Rows must carry their header fields for vendor aliases to
+ * apply, see joinHeaders.
+ */
+export const matchCatalog = (
+  data: ExtractedItem[],
+  rowMeta: RowMeta[],
+  catalog: ProductCatalog,
+  aliases: CatalogAlias[]
+): (CatalogMatch | null)[] => {
+  const index = buildIndex(catalog, aliases);
+  return data.map((row, idx) => matchRow(row, rowMeta[idx], index, catalog.entries.length));
+};
+
+/**
+ * The alias learned when a row is matched by hand: its supplier code, or its description
+ * when it has none, now means this SKU for its vendor.
+ */
+export const aliasFromRow = (row: ExtractedItem, sku: string): CatalogAlias | null => {
+  const headers = Object.keys(row);
+  const codeField = findField(headers, 'sku');
+  const descriptionField = findField(headers, 'description');
+  const vendorField = findField(headers, 'vendor');
+  const code = [codeField, descriptionField]
+    .map(field => field ? String(row[field] ?? '').trim() : '')
+    .find(text => text && text !== 'N/A');
+  if (!code) return null;
+  const vendor = vendorField && row[vendorField] !== null ? String(row[vendorField]).trim() : '';
+  return { key: aliasKey(vendor, code), vendor, code, sku, learnedAt: Date.now() };
+};
+
+/**
+ * The catalog columns of a row, keyed like CATALOG_COLUMNS.
+ */
+export const catalogColumnsOf = (match: CatalogMatch | null): ExtractedItem => ({
+  Catalog_SKU: match?.entry.sku ?? null,
+  Catalog_Name: match?.entry.name ?? null,
+  Expected_Price: match?.entry.price ?? null,
+  Match_Confidence: match ? Math.round(match.confidence * 100) / 100 : null
+});
+
+export const loadCatalog = async (): Promise<ProductCatalog | null> => {
+  try {
+    const stored = await getRecord<ProductCatalog & { id: string }>(CATALOG_STORE, CATALOG_ID);
+    if (!stored) return null;
+    const { id, ...catalog } = stored;
+    return catalog;
+  } catch (error) {
+    console.warn('Could not load the product catalog:', error);
+    return null;
+  }
+};
+
+export const saveCatalog = (catalog: ProductCatalog) => putRecord(CATALOG_STORE, { id: CATALOG_ID, ...catalog });
+
+export const deleteCatalog = () => deleteRecord(CATALOG_STORE, CATALOG_ID);
+
+export const loadAliases = async (): Promise<CatalogAlias[]> => {
+  try {
+    const aliases = await getAllRecords<CatalogAlias>(CATALOG_ALIAS_STORE);
+    return aliases.sort((a, b) => a.vendor.localeCompare(b.vendor) || a.code.localeCompare(b.code));
+  } catch (error) {
+    console.warn('Could not load catalog aliases:', error);
+    return [];
+  }
+};
+
+export const saveAlias = (alias: CatalogAlias) => putRecord(CATALOG_ALIAS_STORE, alias);
+
+export const deleteAlias = (key: string) => deleteRecord(CATALOG_ALIAS_STORE, key);
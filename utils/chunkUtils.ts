@@ -0,0 +1,187 @@
+import { ExtractedItem, ExtractionResponse, ExtractionSchema, OcrResult, RowMeta, SchemaField } from '../types';
+import { CHUNK_OVERLAP_ROWS } from '../constants';
+import { documentFieldsOf } from './schemaUtils';
+
+export interface PageRange {
+  startPage: number;
+  endPage: number;
+}
+
+export interface ChunkResult extends PageRange {
+  response: ExtractionResponse;
+}
+
+export type DocumentFields = Record<string, string | number>;
+
+const isEmpty = (value: ExtractedItem[string] | undefined) =>
+  value === undefined || value === null || value === '' || value === 'N/A';
+
+const isNumericField = (field: SchemaField) => field.type === 'number' || field.type === 'currency';
+
+const comparable = (value: ExtractedItem[string] | undefined) =>
+  isEmpty(value) ? '' : String(value).trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Splits a document into consecutive page ranges of at most pagesPerChunk pages.
+ */
+export const planChunks = (totalPages: number, pagesPerChunk: number): PageRange[] => {
+  const size = Math.max(1, Math.floor(pagesPerChunk));
+  const ranges: PageRange[] = [];
+  for (let start = 1; start <= totalPages; start += size) {
+    ranges.push({ startPage: start, endPage: Math.min(totalPages, start + size - 1) });
+  }
+  return ranges;
+};
+
+/**
+ * Keeps the words and page text of one page range.
+ */
+export const sliceOcr = (ocr: OcrResult, { startPage, endPage }: PageRange): OcrResult => {
+  const words = ocr.words.filter(w => w.page >= startPage && w.page <= endPage);
+  const pageBlocks = ocr.text.split(/(?=--- Page \d+ ---)/);
+  const text = pageBlocks.length > 1
+    ? pageBlocks.filter(block => {
+        const page = Number(block.match(/^--- Page (\d+) ---/)?.[1]);
+        return page >= startPage && page <= endPage;
+      }).join('')
+    : words.map(w => w.text).join(' ');
+  return { text, words };
+};
+
+/**
+ * Values that hold for the whole document (vendor, invoice number, date...): the header the
+ * model returned, and document fields of the schema it put on rows instead. Line fields are
+ * never carried, whatever their name or however often a value repeats.
+ */
+export const findDocumentFields = (response: ExtractionResponse, schema: ExtractionSchema): DocumentFields => {
+  const fields: DocumentFields = {};
+  Object.entries(response.header || {}).forEach(([field, value]) => {
+    if (!isEmpty(value)) fields[field] = value as string | number;
+  });
+  documentFieldsOf(schema).forEach(field => {
+    if (field.name in fields) return;
+    const value = response.extracted_data.map(row => row[field.name]).find(value => !isEmpty(value));
+    if (value !== undefined) fields[field.name] = value as string | number;
+  });
+  return fields;
+};
+
+/**
+ * Prompt text telling the model where this chunk sits and what earlier chunks found.
+ */
+export const describeChunkContext = (
+  range: PageRange,
+  totalPages: number,
+  header: { label: string; field: string }[] | null,
+  documentFields: DocumentFields,
+  lastRow: ExtractedItem | null
+): string => {
+  const lines = [
+    `DOCUMENT CHUNK: the attached images are pages ${range.startPage} to ${range.endPage} of a ${totalPages}-page document. Report "_page" as the page number within the whole document.`
+  ];
+  if (header && header.length > 0) {
+    lines.push(`TABLE HEADER (may only be printed on an earlier page): ${header.map(h => h.label === h.field ? h.label : `${h.label} -> ${h.field}`).join(' | ')}`);
+  }
+  const carried = Object.entries(documentFields);
+  if (carried.length > 0) {
+    lines.push(`DOCUMENT-LEVEL VALUES read on earlier pages. Return them again unless these pages state different ones: ${carried.map(([field, value]) => `${field} = ${JSON.stringify(value)}`).join('; ')}`);
+  }
+  if (lastRow) {
+    const filled = Object.fromEntries(Object.entries(lastRow).filter(([, value]) => !isEmpty(value)));
+    lines.push(`LAST ROW OF THE PREVIOUS PAGES: ${JSON.stringify(filled)}. If the table on these pages starts with the continuation of that row (for example the rest of a wrapped description), return the continuation as the first row with only the continued fields filled. Do not repeat that row otherwise.`);
+  }
+  return lines.join('\n');
+};
+
+const sameRow = (a: ExtractedItem, b: ExtractedItem, schema: ExtractionSchema) =>
+  schema.fields.every(field => comparable(a[field.name]) === comparable(b[field.name])) &&
+  schema.fields.some(field => !isEmpty(a[field.name]));
+
+/**
+ * A row holding only the wrapped text of the previous row: no numbers in the line-item
+ * fields and at least one text value.
+ */
+const isContinuation = (row: ExtractedItem, schema: ExtractionSchema, documentFields: DocumentFields) => {
+  const lineFields = schema.fields.filter(field => !(field.name in documentFields));
+  const hasNumbers = lineFields.some(field => isNumericField(field) && !isEmpty(row[field.name]));
+  const hasText = lineFields.some(field => !isNumericField(field) && !isEmpty(row[field.name]));
+  return !hasNumbers && hasText;
+};
+
+const mergeInto = (target: ExtractedItem, targetMeta: RowMeta, fragment: ExtractedItem, fragmentMeta: RowMeta, documentFields: DocumentFields) => {
+  Object.entries(fragment).forEach(([field, value]) => {
+    if (isEmpty(value) || field in documentFields) return;
+    const current = target[field];
+    if (isEmpty(current)) {
+      target[field] = value;
+      if (fragmentMeta.cells[field]) targetMeta.cells[field] = fragmentMeta.cells[field];
+    } else if (typeof current === 'string' && typeof value === 'string' && comparable(current) !== comparable(value)) {
+      target[field] = `${current} ${value}`;
+      const confidences = [targetMeta.cells[field]?.confidence, fragmentMeta.cells[field]?.confidence].filter((c): c is number => c !== undefined);
+      if (confidences.length > 0) targetMeta.cells[field] = { ...targetMeta.cells[field], confidence: Math.min(...confidences) };
+    }
+  });
+};
+
+/**
+ * Models answer with pages counted from the first attached image; map them back to document pages.
+ */
+const documentPage = (page: number | undefined, range: PageRange) => {
+  if (page === undefined) return range.startPage;
+  if (page >= range.startPage && page <= range.endPage) return page;
+  const shifted = page + range.startPage - 1;
+  return shifted >= range.startPage && shifted <= range.endPage ? shifted : range.startPage;
+};
+
+/**
+ * Keeps the first value found for each header field; later chunks only fill gaps.
+ */
+const mergeHeaders = (chunks: ChunkResult[]): Pick<ExtractionResponse, 'header' | 'header_meta'> => {
+  const withHeader = chunks.filter(chunk => chunk.response.header);
+  if (withHeader.length === 0) return {};
+  const header: ExtractedItem = {};
+  const header_meta: RowMeta = { cells: {} };
+  withHeader.forEach(({ response }) => {
+    Object.entries(response.header!).forEach(([field, value]) => {
+      if (!isEmpty(header[field])) return;
+      header[field] = value;
+      const cell = response.header_meta?.cells[field];
+      if (cell) header_meta.cells[field] = cell;
+    });
+  });
+  return { header, header_meta };
+};
+
+/**
+ * Joins per-chunk results into one: drops rows repeated across a chunk boundary, merges a
+ * row continued on the next page into its start and merges the chunks' headers.
+ */
+export const stitchChunks = (chunks: ChunkResult[], schema: ExtractionSchema, documentFields: DocumentFields): ExtractionResponse => {
+  const rows: ExtractedItem[] = [];
+  const meta: RowMeta[] = [];
+
+  chunks.forEach((chunk, chunkIndex) => {
+    const chunkRows = chunk.response.extracted_data.map(row => ({ ...row }));
+    const chunkMeta = chunkRows.map((_, idx) => {
+      const source = chunk.response.row_meta?.[idx];
+      return { ...source, cells: { ...source?.cells }, page: documentPage(source?.page, chunk) };
+    });
+
+    let start = 0;
+    if (chunkIndex > 0 && rows.length > 0) {
+      const tail = rows.slice(-CHUNK_OVERLAP_ROWS);
+      while (start < Math.min(CHUNK_OVERLAP_ROWS, chunkRows.length) && tail.some(row => sameRow(row, chunkRows[start], schema))) {
+        start++;
+      }
+      if (start < chunkRows.length && isContinuation(chunkRows[start], schema, documentFields)) {
+        mergeInto(rows[rows.length - 1], meta[meta.length - 1], chunkRows[start], chunkMeta[start], documentFields);
+        start++;
+      }
+    }
+
+    rows.push(...chunkRows.slice(start));
+    meta.push(...chunkMeta.slice(start));
+  });
+
+  return { extracted_data: rows, row_meta: meta, ...mergeHeaders(chunks) };
+};
@@ -0,0 +1,61 @@
+import { DocumentClassification, DocumentType, DocumentTypeDefinition, ExtractionSchema } from '../types';
+import { DOCUMENT_TYPES, MIN_CLASSIFICATION_CONFIDENCE } from '../constants';
+
+// Documents usually name their type near the top, so terms found there count once more
+const TITLE_CHARS = 400;
+
+// Repeated mentions add evidence, up to this many per term
+const MAX_HITS = 3;
+
+// Score at which a type with no competitor is fully trusted
+const CONFIDENT_SCORE = 8;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const countHits = (text: string, term: string) => {
+  const pattern = new RegExp(`(?:^|[^\\p{L}\\p{N}])${escapeRegExp(term)}(?=$|[^\\p{L}\\p{N}])`, 'gu');
+  return Math.min(MAX_HITS, (text.match(pattern) || []).length);
+};
+
+const scoreType = (definition: DocumentTypeDefinition, text: string, title: string) =>
+  Object.entries(definition.keywords).reduce((score, [term, weight]) => {
+    const hits = countHits(text, term);
+    return hits === 0 ? score : score + weight * (hits + (countHits(title, term) > 0 ? 1 : 0));
+  }, 0);
+
+export const documentTypeOf = (type: DocumentType | undefined): DocumentTypeDefinition =>
+  DOCUMENT_TYPES.find(t => t.id === type) || DOCUMENT_TYPES.find(t => t.id === 'other')!;
+
+/**
+ * Guesses the document type from its text and file name using the weighted keywords of
+ * DOCUMENT_TYPES. Confidence grows with the winning score and its lead over the runner-up;
+ * below MIN_CLASSIFICATION_CONFIDENCE the document is 'other', keeping that low confidence
+ * so it is flagged for review like any other uncertain guess.
+ */
+export const classifyDocument = (text: string, fileName: string = ''): DocumentClassification => {
+  const name = fileName.toLowerCase().replace(/\.[a-z0-9]+$/, '').replace(/[_.-]+/g, ' ');
+  const body = `${name}\n${text.toLowerCase()}`;
+  const title = body.slice(0, name.length + TITLE_CHARS);
+
+  const [best, second] = DOCUMENT_TYPES
+    .filter(t => t.id !== 'other')
+    .map(t => ({ type: t.id, score: scoreType(t, body, title) }))
+    .sort((a, b) => b.score - a.score);
+
+  const confidence = best && best.score > 0
+    ? Math.min(1, best.score / CONFIDENT_SCORE) * (best.score - (second?.score || 0)) / best.score
+    : 0;
+  const rounded = (value: number) => Math.round(value * 100) / 100;
+  return confidence >= MIN_CLASSIFICATION_CONFIDENCE
+    ? { type: best.type, confidence: rounded(confidence), source: 'keywords' }
+    : { type: 'other', confidence: rounded(confidence), source: 'keywords' };
+};
+
+/**
+ * The schema a document type is extracted with, or the fallback for 'other' and for
+ * types whose schema was deleted.
+ */
+export const schemaForType = (type: DocumentType | undefined, schemas: ExtractionSchema[], fallback: ExtractionSchema): ExtractionSchema => {
+  const schemaId = documentTypeOf(type).schemaId;
+  return (schemaId && schemas.find(s => s.id === schemaId)) || fallback;
+};
@@ -0,0 +1,121 @@
+import { BoundingBox, CellMeta, ExtractionResponse, OcrWord, RowMeta } from '../types';
+
+// Confidence assumed when the model does not report one for a cell
+const DEFAULT_MODEL_CONFIDENCE = 0.7;
+// Long descriptions only need their leading tokens to be located
+const MAX_MATCH_TOKENS = 4;
+
+const normalizeToken = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Parses a token as a number, trying both "1,234.50" and "1.234,50" conventions.
+ */
+const parseNumericToken = (text: string): number[] => {
+  const cleaned = text.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) return [];
+  const candidates = [
+    cleaned.replace(/,/g, ''),
+    cleaned.replace(/\./g, '').replace(',', '.')
+  ];
+  return candidates.map(Number).filter(n => Number.isFinite(n));
+};
+
+const unionBox = (boxes: BoundingBox[]): BoundingBox => {
+  const x = Math.min(...boxes.map(b => b.x));
+  const y = Math.min(...boxes.map(b => b.y));
+  const right = Math.max(...boxes.map(b => b.x + b.width));
+  const bottom = Math.max(...boxes.map(b => b.y + b.height));
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+const dateVariants = (iso: string): string[] => {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return [];
+  const [, y, m, d] = match;
+  const yy = y.slice(2);
+  return [
+    `${d}/${m}/${y}`, `${m}/${d}/${y}`, `${d}.${m}.${y}`, `${d}-${m}-${y}`,
+    `${d}/${m}/${yy}`, `${m}/${d}/${yy}`, `${d}.${m}.${yy}`
+  ].map(normalizeToken);
+};
+
+/**
+ * Finds the OCR words that spell out a cell value and returns them, or null when not found.
+ */
+export const locateValue = (value: string | number, words: OcrWord[]): OcrWord[] | null => {
+  if (typeof value === 'number') {
+    const word = words.find(w => parseNumericToken(w.text).some(n => Math.abs(n - value) < 0.005));
+    return word ? [word] : null;
+  }
+
+  const text = value.trim();
+  if (!text) return null;
+
+  const dates = dateVariants(text);
+  if (dates.length > 0) {
+    const word = words.find(w => dates.includes(normalizeToken(w.text)));
+    if (word) return [word];
+  }
+
+  const tokens = text.split(/\s+/).map(normalizeToken).filter(Boolean).slice(0, MAX_MATCH_TOKENS);
+  if (tokens.length === 0) return null;
+
+  if (tokens.length === 1 && /\d/.test(tokens[0])) {
+    const numeric = parseNumericToken(text);
+    const word = words.find(w =>
+      normalizeToken(w.text) === tokens[0] ||
+      (numeric.length > 0 && parseNumericToken(w.text).some(n => numeric.includes(n)))
+    );
+    if (word) return [word];
+  }
+
+  for (let i = 0; i <= words.length - tokens.length; i++) {
+    const slice = words.slice(i, i + tokens.length);
+    if (slice.every((w, k) => w.page === words[i].page && normalizeToken(w.text) === tokens[k])) {
+      return slice;
+    }
+  }
+  return null;
+};
+
+/**
+ * Cross-checks the model's values against OCR/text-layer word coordinates.
+ * Cells found in the source get their page and region and a confidence boost; cells
+ * that cannot be located are penalised, since the model may have guessed them.
+ */
+export const crossCheckWithOcr = (
+  response: ExtractionResponse,
+  words: OcrWord[],
+  fileId?: string
+): RowMeta[] =>
+  response.extracted_data.map((row, idx) => {
+    const modelMeta = response.row_meta?.[idx];
+    const cells: Record<string, CellMeta> = {};
+
+    Object.entries(row).forEach(([field, value]) => {
+      if (value === null || value === '' || value === 'N/A') return;
+      const modelConfidence = modelMeta?.cells[field]?.confidence ?? DEFAULT_MODEL_CONFIDENCE;
+
+      if (words.length === 0) {
+        cells[field] = { confidence: modelConfidence, page: modelMeta?.page };
+        return;
+      }
+
+      const pageWords = modelMeta?.page ? words.filter(w => w.page === modelMeta.page) : words;
+      const located = locateValue(value, pageWords) || (pageWords !== words ? locateValue(value, words) : null);
+
+      if (located) {
+        const ocrConfidence = Math.min(...located.map(w => w.confidence));
+        cells[field] = {
+          confidence: Math.min(1, modelConfidence * 0.5 + ocrConfidence * 0.5 + 0.1),
+          page: located[0].page,
+          bbox: unionBox(located.map(w => w.bbox)),
+          verified: true
+        };
+      } else {
+        cells[field] = { confidence: modelConfidence * 0.75, page: modelMeta?.page, verified: false };
+      }
+    });
+
+    return { fileId, page: modelMeta?.page, cells };
+  });
@@ -0,0 +1,104 @@
+import { BATCH_STORE, CATALOG_ALIAS_STORE, CATALOG_STORE, DB_NAME, DB_VERSION, MAPPING_PROFILE_STORE, PAYLOAD_STORE } from '../constants';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+/**
+ * Opens (and on first use creates or upgrades) the app's IndexedDB database.
+ * The connection is shared for the lifetime of the page.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MAPPING_PROFILE_STORE)) {
+        db.createObjectStore(MAPPING_PROFILE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(BATCH_STORE)) {
+        db.createObjectStore(BATCH_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(PAYLOAD_STORE)) {
+        db.createObjectStore(PAYLOAD_STORE, { keyPath: 'key' }).createIndex('batchId', 'batchId');
+      }
+      if (!db.objectStoreNames.contains(CATALOG_STORE)) {
+        db.createObjectStore(CATALOG_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CATALOG_ALIAS_STORE)) {
+        db.createObjectStore(CATALOG_ALIAS_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+export const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+};
+
+export const getRecord = async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+};
+
+export const getRecordsByIndex = async <T>(storeName: string, index: string, value: IDBValidKey): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).index(index).getAll(value));
+};
+
+export const getKeysByIndex = async (storeName: string, index: string, value: IDBValidKey): Promise<IDBValidKey[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).index(index).getAllKeys(value));
+};
+
+export const putRecord = async <T>(storeName: string, record: T): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).put(record));
+};
+
+/**
+ * Writes several records in one transaction.
+ */
+export const putRecords = async <T>(storeName: string, records: T[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  records.forEach(record => tx.objectStore(storeName).put(record));
+  await transactionDone(tx);
+};
+
+export const deleteRecord = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+};
+
+export const deleteRecords = async (storeName: string, keys: IDBValidKey[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  keys.forEach(key => tx.objectStore(storeName).delete(key));
+  await transactionDone(tx);
+};
@@ -0,0 +1,77 @@
+import { DocumentHeader, ExtractedItem, ExtractionResponse, ExtractionSchema, OcrWord, RecordSet, RowMeta } from '../types';
+import { crossCheckWithOcr } from './confidenceUtils';
+import { lineFieldsOf } from './schemaUtils';
+
+const isBlank = (value: ExtractedItem[string] | undefined) =>
+  value === undefined || value === null || value === '' || value === 'N/A';
+
+/**
+ * Builds the document header from a model response, cross-checked against the OCR words
+ * like the line items. Returns null when the model found no header values.
+ */
+export const headerFromResponse = (response: ExtractionResponse, words: OcrWord[], fileId: string): DocumentHeader | null => {
+  const fields = response.header;
+  if (!fields || Object.values(fields).every(isBlank)) return null;
+  const [meta] = crossCheckWithOcr(
+    { extracted_data: [fields], row_meta: response.header_meta ? [response.header_meta] : undefined },
+    words,
+    fileId
+  );
+  return { fileId, fields, meta };
+};
+
+/**
+ * Adds or replaces the header of each given document.
+ */
+export const upsertDocuments = (documents: DocumentHeader[] = [], updates: DocumentHeader[]): DocumentHeader[] => {
+  const replaced = new Set(updates.map(doc => doc.fileId));
+  return [...documents.filter(doc => !replaced.has(doc.fileId)), ...updates];
+};
+
+/**
+ * Repeats each document's header fields on its line items. The result is parallel to
+ * records.data, so row indices stay valid for editing. Header values win over line values,
+ * except in records saved before headers were kept apart, where the rows carry them.
+ */
+export const joinHeaders = (records: RecordSet): RecordSet => {
+  const documents = records.documents || [];
+  if (documents.length === 0) return records;
+  const byFile = new Map(documents.map(doc => [doc.fileId, doc]));
+
+  const rowMeta: RowMeta[] = [];
+  const data = records.data.map((row, idx) => {
+    const meta = records.rowMeta[idx] || { cells: {} };
+    const header = meta.fileId ? byFile.get(meta.fileId) : undefined;
+    if (!header) {
+      rowMeta.push(meta);
+      return row;
+    }
+    rowMeta.push({
+      ...meta,
+      cells: { ...meta.cells, ...header.meta.cells },
+      edits: header.meta.edits || meta.edits ? { ...meta.edits, ...header.meta.edits } : undefined
+    });
+    return { ...row, ...header.fields };
+  });
+  return { ...records, data, rowMeta };
+};
+
+/**
+ * Rows for a denormalized export: line items with their header repeated, plus one
+ * header-only row for each document that has no line items.
+ */
+export const denormalizedRows = (records: RecordSet, schema: ExtractionSchema | null): RecordSet => {
+  const joined = joinHeaders(records);
+  const withLines = new Set(records.rowMeta.map(meta => meta.fileId));
+  const lineFields = lineFieldsOf(schema).map(f => f.name);
+
+  const headerOnly = (records.documents || []).filter(doc => !withLines.has(doc.fileId));
+  return {
+    ...joined,
+    data: [
+      ...joined.data,
+      ...headerOnly.map(doc => ({ ...Object.fromEntries(lineFields.map(name => [name, null])), ...doc.fields }))
+    ],
+    rowMeta: [...joined.rowMeta, ...headerOnly.map(doc => doc.meta)]
+  };
+};
@@ -0,0 +1,311 @@
+
+import * as XLSX from 'xlsx';
+import { CellFormat, ExportOptions, ExtractedItem, TextEncoding } from '../types';
+import { EXPORT_FORMATS } from '../constants';
+
+export interface ExtraSheet {
+  name: string;
+  rows: ExtractedItem[];
+}
+
+export interface ExportDocument {
+  id: string;
+  name: string;
+  // Indices into the exported rows that came from this document
+  rows: number[];
+  // The document has no line items; its single row holds only the header
+  headerOnly?: boolean;
+}
+
+export interface ExportPayload {
+  // Rows with headerMapping already applied
+  rows: ExtractedItem[];
+  // Parallel to rows, keyed by the mapped column names
+  cellFormats: Record<string, CellFormat>[];
+  documents: ExportDocument[];
+  // Mapped columns holding document header fields, empty when the schema marks none
+  headerColumns: string[];
+  extraSheets: ExtraSheet[];
+}
+
+const CURRENCY_FORMATS: Record<string, string> = {
+  EUR: '#,##0.00 "€"',
+  USD: '"$"#,##0.00',
+  GBP: '"£"#,##0.00',
+  JPY: '"¥"#,##0',
+  CHF: '"CHF" #,##0.00'
+};
+
+// Bytes 0x80-0x9F of windows-1252, the only range that differs from Latin-1
+const WINDOWS_1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+
+const numberFormatFor = (format: CellFormat): string => {
+  switch (format.kind) {
+    case 'currency':
+      if (!format.currency) return '#,##0.00';
+      return CURRENCY_FORMATS[format.currency] || `#,##0.00 "${format.currency}"`;
+    case 'percent':
+      return '0.00"%"';
+    case 'date':
+      return 'yyyy-mm-dd';
+    default:
+      return 'General';
+  }
+};
+
+const toExcelDate = (iso: string): Date | string => {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : iso;
+};
+
+const columnsOf = (rows: ExtractedItem[]) => Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+
+/**
+ * Builds a worksheet whose cells carry real numeric/date types and number formats.
+ * `cellFormats` is parallel to `data` and keyed by the same column names.
+ */
+const buildTypedSheet = (data: ExtractedItem[], cellFormats: Record<string, CellFormat>[] = []) => {
+  const headers = columnsOf(data);
+  const rows = data.map((row, r) => {
+    const formats = cellFormats[r] || {};
+    return Object.fromEntries(headers.map(h => {
+      const value = row[h];
+      return [h, formats[h]?.kind === 'date' && typeof value === 'string' ? toExcelDate(value) : value];
+    }));
+  });
+
+  const worksheet = XLSX.utils.json_to_sheet(rows, { header: headers, dateNF: 'yyyy-mm-dd' });
+
+  data.forEach((_, r) => {
+    const formats = cellFormats[r] || {};
+    headers.forEach((h, c) => {
+      const format = formats[h];
+      const cell = worksheet[XLSX.utils.encode_cell({ r: r + 1, c })];
+      if (format && cell && (cell.t === 'n' || cell.t === 'd')) cell.z = numberFormatFor(format);
+    });
+  });
+
+  return worksheet;
+};
+
+/**
+ * Returns a sheet name Excel accepts: at most 31 characters, no []:*?/\ and unique in the workbook.
+ */
+const safeSheetName = (name: string, workbook: XLSX.WorkBook): string => {
+  const base = name.replace(/[[\]:*?/\\]/g, '_').replace(/\.[^.]+$/, '').slice(0, 28) || 'Sheet';
+  let candidate = base;
+  let counter = 2;
+  while (workbook.SheetNames.includes(candidate)) {
+    candidate = `${base.slice(0, 26)}_${counter++}`;
+  }
+  return candidate;
+};
+
+const appendSheet = (workbook: XLSX.WorkBook, sheet: XLSX.WorkSheet, name: string) => {
+  XLSX.utils.book_append_sheet(workbook, sheet, safeSheetName(name, workbook));
+};
+
+/**
+ * Splits each document's columns into document-level fields (one value for every row of
+ * the document, e.g. vendor or invoice number) and line-item fields.
+ */
+const splitHeaderColumns = (payload: ExportPayload): { headerColumns: string[]; lineColumns: string[] } => {
+  const columns = columnsOf(payload.rows);
+  if (payload.headerColumns.length > 0) {
+    return { headerColumns: payload.headerColumns, lineColumns: columns.filter(c => !payload.headerColumns.includes(c)) };
+  }
+  const multiRowDocs = payload.documents.filter(doc => doc.rows.length > 1);
+  if (multiRowDocs.length === 0) return { headerColumns: [], lineColumns: columns };
+
+  const headerColumns = columns.filter(col =>
+    multiRowDocs.every(doc => {
+      const values = new Set(doc.rows.map(idx => String(payload.rows[idx][col] ?? '')));
+      return values.size === 1;
+    }) && payload.rows.some(row => row[col] !== null && row[col] !== undefined)
+  );
+  return { headerColumns, lineColumns: columns.filter(c => !headerColumns.includes(c)) };
+};
+
+const lineRowsOf = (doc: ExportDocument) => doc.headerOnly ? [] : doc.rows;
+
+/**
+ * One header row per document and the line items keyed to it by Document_ID.
+ */
+const splitDocuments = (payload: ExportPayload) => {
+  const { headerColumns, lineColumns } = splitHeaderColumns(payload);
+  const headerRows: ExtractedItem[] = [];
+  const headerFormats: Record<string, CellFormat>[] = [];
+  const lineRows: ExtractedItem[] = [];
+  const lineFormats: Record<string, CellFormat>[] = [];
+
+  payload.documents.forEach(doc => {
+    const first = doc.rows[0];
+    headerRows.push({
+      Document_ID: doc.id,
+      Source_File: doc.name,
+      ...Object.fromEntries(headerColumns.map(col => [col, first !== undefined ? payload.rows[first][col] ?? null : null]))
+    });
+    headerFormats.push(first !== undefined ? payload.cellFormats[first] || {} : {});
+
+    lineRowsOf(doc).forEach(idx => {
+      lineRows.push({ Document_ID: doc.id, ...Object.fromEntries(lineColumns.map(col => [col, payload.rows[idx][col] ?? null])) });
+      lineFormats.push(payload.cellFormats[idx] || {});
+    });
+  });
+
+  return { headerColumns, lineColumns, headerRows, headerFormats, lineRows, lineFormats };
+};
+
+/**
+ * Documents as nested objects: the header fields with the line items underneath.
+ */
+const nestedDocuments = (payload: ExportPayload): Record<string, unknown>[] => {
+  const { lineColumns, headerRows } = splitDocuments(payload);
+  return payload.documents.map((doc, idx) => ({
+    ...headerRows[idx],
+    line_items: lineRowsOf(doc).map(row => Object.fromEntries(lineColumns.map(col => [col, payload.rows[row][col] ?? null])))
+  }));
+};
+
+const buildSplitWorkbook = (payload: ExportPayload): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  const { lineColumns, headerRows, headerFormats, lineRows, lineFormats } = splitDocuments(payload);
+  const numericColumns = lineColumns.filter(col => payload.rows.some(row => typeof row[col] === 'number'));
+  const summaryRows: ExtractedItem[] = [];
+
+  payload.documents.forEach(doc => {
+    summaryRows.push({
+      Document_ID: doc.id,
+      Source_File: doc.name,
+      Line_Items: lineRowsOf(doc).length,
+      ...Object.fromEntries(numericColumns.map(col => [
+        `Sum_${col}`,
+        lineRowsOf(doc).reduce((acc, idx) => acc + (typeof payload.rows[idx][col] === 'number' ? payload.rows[idx][col] as number : 0), 0)
+      ]))
+    });
+  });
+
+  summaryRows.push({
+    Document_ID: 'TOTAL',
+    Source_File: `${payload.documents.length} documents`,
+    Line_Items: lineRows.length,
+    ...Object.fromEntries(numericColumns.map(col => [
+      `Sum_${col}`,
+      summaryRows.reduce((acc, row) => acc + ((row[`Sum_${col}`] as number) || 0), 0)
+    ]))
+  });
+
+  appendSheet(workbook, XLSX.utils.json_to_sheet(summaryRows), 'Summary');
+  appendSheet(workbook, buildTypedSheet(headerRows, headerFormats), 'Document Headers');
+  appendSheet(workbook, buildTypedSheet(lineRows, lineFormats), 'Line Items');
+
+  payload.documents.forEach(doc => {
+    if (lineRowsOf(doc).length === 0) return;
+    appendSheet(
+      workbook,
+      buildTypedSheet(doc.rows.map(idx => payload.rows[idx]), doc.rows.map(idx => payload.cellFormats[idx] || {})),
+      doc.name
+    );
+  });
+
+  return workbook;
+};
+
+const buildFlatWorkbook = (payload: ExportPayload, denormalize: boolean): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  if (denormalize || payload.headerColumns.length === 0) {
+    XLSX.utils.book_append_sheet(workbook, buildTypedSheet(payload.rows, payload.cellFormats), 'Data');
+    return workbook;
+  }
+  const { headerRows, headerFormats, lineRows, lineFormats } = splitDocuments(payload);
+  XLSX.utils.book_append_sheet(workbook, buildTypedSheet(lineRows, lineFormats), 'Data');
+  appendSheet(workbook, buildTypedSheet(headerRows, headerFormats), 'Document Headers');
+  return workbook;
+};
+
+const encodeText = (text: string, encoding: TextEncoding): Uint8Array => {
+  if (encoding === 'windows-1252') {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      const high = WINDOWS_1252_HIGH.indexOf(text[i]);
+      if (code < 0x80 || (code >= 0xA0 && code <= 0xFF)) bytes[i] = code;
+      else if (high !== -1) bytes[i] = 0x80 + high;
+      else bytes[i] = 0x3F; // '?' for characters the code page cannot represent
+    }
+    return bytes;
+  }
+  const utf8 = new TextEncoder().encode(text);
+  if (encoding !== 'utf-8-bom') return utf8;
+  const withBom = new Uint8Array(utf8.length + 3);
+  withBom.set([0xEF, 0xBB, 0xBF]);
+  withBom.set(utf8, 3);
+  return withBom;
+};
+
+const escapeDelimited = (value: ExtractedItem[string] | undefined, delimiter: string): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toDelimited = (rows: ExtractedItem[], delimiter: string): string => {
+  const headers = columnsOf(rows);
+  const lines = [
+    headers.map(h => escapeDelimited(h, delimiter)).join(delimiter),
+    ...rows.map(row => headers.map(h => escapeDelimited(row[h], delimiter)).join(delimiter))
+  ];
+  return lines.join('\r\n');
+};
+
+const downloadBlob = (content: BlobPart, mimeType: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Writes the payload in the chosen format and triggers a browser download.
+ * Extra sheets (e.g. validation issues) are only included by the spreadsheet formats.
+ * Without denormalization, JSON nests line items under their document and spreadsheets get
+ * a separate header sheet; CSV/TSV hold a single table and always repeat the headers.
+ */
+export const exportData = (payload: ExportPayload, options: ExportOptions, baseName: string) => {
+  if (payload.rows.length === 0) return;
+  const nested = !options.denormalize && payload.headerColumns.length > 0;
+  const extension = EXPORT_FORMATS.find(f => f.id === options.format)?.extension || 'xlsx';
+  const fileName = `${baseName}.${extension}`;
+
+  switch (options.format) {
+    case 'csv':
+    case 'tsv': {
+      const delimiter = options.format === 'tsv' ? '\t' : options.delimiter || ',';
+      const charset = options.encoding === 'windows-1252' ? 'windows-1252' : 'utf-8';
+      const mime = options.format === 'tsv' ? 'text/tab-separated-values' : 'text/csv';
+      downloadBlob(encodeText(toDelimited(payload.rows, delimiter), options.encoding), `${mime};charset=${charset}`, fileName);
+      return;
+    }
+    case 'json':
+      downloadBlob(JSON.stringify(nested ? nestedDocuments(payload) : payload.rows, null, 2), 'application/json', fileName);
+      return;
+    case 'ndjson': {
+      const records = nested ? nestedDocuments(payload) : payload.rows;
+      downloadBlob(records.map(record => JSON.stringify(record)).join('\n') + '\n', 'application/x-ndjson', fileName);
+      return;
+    }
+    default: {
+      const workbook = options.format === 'xlsx-split'
+        ? buildSplitWorkbook(payload)
+        : buildFlatWorkbook(payload, options.denormalize);
+      payload.extraSheets
+        .filter(sheet => sheet.rows.length > 0)
+        .forEach(sheet => appendSheet(workbook, XLSX.utils.json_to_sheet(sheet.rows), sheet.name));
+      XLSX.writeFile(workbook, fileName, { bookType: options.format === 'ods' ? 'ods' : 'xlsx' });
+    }
+  }
+};
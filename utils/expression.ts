@@ -0,0 +1,269 @@
+import { ExtractedItem } from '../types';
+
+/**
+ * A small, sandboxed expression language evaluated against a single row, e.g.
+ *   Quantity * Unit_Price == Total
+ *   [Line Total] > 0 and not empty(Description)
+ * Supports numbers, 'strings', field names (bare or in [brackets]), arithmetic,
+ * comparisons, and/or/not (or && || !) and a few helper functions.
+ */
+
+export type ExpressionValue = string | number | boolean | null;
+
+type Node =
+  | { kind: 'literal'; value: ExpressionValue }
+  | { kind: 'field'; name: string }
+  | { kind: 'unary'; op: string; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+interface Token {
+  type: 'number' | 'string' | 'ident' | 'op' | 'paren' | 'comma';
+  value: string;
+}
+
+export class ExpressionError extends Error {}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '='];
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+// Binding power of binary operators, higher binds tighter
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/\d/.test(ch) || (ch === '.' && /\d/.test(source[i + 1] || ''))) {
+      const match = source.slice(i).match(/^\d*\.?\d+(e[+-]?\d+)?/i)!;
+      tokens.push({ type: 'number', value: match[0] });
+      i += match[0].length;
+    } else if (ch === '\'' || ch === '"') {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) throw new ExpressionError('Unterminated string');
+      tokens.push({ type: 'string', value: source.slice(i + 1, end) });
+      i = end + 1;
+    } else if (ch === '[') {
+      const end = source.indexOf(']', i + 1);
+      if (end === -1) throw new ExpressionError('Unterminated [field name]');
+      tokens.push({ type: 'ident', value: source.slice(i + 1, end).trim() });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      const keyword = KEYWORD_OPERATORS[match[0].toLowerCase()];
+      tokens.push(keyword ? { type: 'op', value: keyword } : { type: 'ident', value: match[0] });
+      i += match[0].length;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ type: 'paren', value: ch });
+      i++;
+    } else if (ch === ',') {
+      tokens.push({ type: 'comma', value: ch });
+      i++;
+    } else {
+      const op = OPERATORS.find(o => source.startsWith(o, i));
+      if (!op) throw new ExpressionError(`Unexpected character "${ch}"`);
+      tokens.push({ type: 'op', value: op === '=' ? '==' : op });
+      i += op.length;
+    }
+  }
+  return tokens;
+};
+
+const parse = (tokens: Token[]): Node => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const parsePrimary = (): Node => {
+    const token = next();
+    if (!token) throw new ExpressionError('Unexpected end of expression');
+
+    if (token.type === 'number') return { kind: 'literal', value: Number(token.value) };
+    if (token.type === 'string') return { kind: 'literal', value: token.value };
+    if (token.type === 'op' && (token.value === '-' || token.value === '!')) {
+      return { kind: 'unary', op: token.value, operand: parsePrimary() };
+    }
+    if (token.type === 'paren' && token.value === '(') {
+      const inner = parseBinary(0);
+      if (next()?.value !== ')') throw new ExpressionError('Missing closing parenthesis');
+      return inner;
+    }
+    if (token.type === 'ident') {
+      const lower = token.value.toLowerCase();
+      if (lower === 'true' || lower === 'false') return { kind: 'literal', value: lower === 'true' };
+      if (lower === 'null') return { kind: 'literal', value: null };
+      if (peek()?.value === '(') {
+        next();
+        const args: Node[] = [];
+        while (peek() && peek().value !== ')') {
+          args.push(parseBinary(0));
+          if (peek()?.type === 'comma') next();
+        }
+        if (next()?.value !== ')') throw new ExpressionError(`Missing ")" after ${token.value}(`);
+        return { kind: 'call', name: lower, args };
+      }
+      return { kind: 'field', name: token.value };
+    }
+    throw new ExpressionError(`Unexpected "${token.value}"`);
+  };
+
+  const parseBinary = (minPrecedence: number): Node => {
+    let left = parsePrimary();
+    while (peek()?.type === 'op' && (PRECEDENCE[peek().value] ?? -1) > minPrecedence) {
+      const op = next().value;
+      const right = parseBinary(PRECEDENCE[op]);
+      left = { kind: 'binary', op, left, right };
+    }
+    return left;
+  };
+
+  const ast = parseBinary(0);
+  if (pos < tokens.length) throw new ExpressionError(`Unexpected "${tokens[pos].value}"`);
+  return ast;
+};
+
+/**
+ * Interprets a cell value as a number, accepting "1,234.50", "1.234,50 €" or "12%".
+ */
+export const toNumber = (value: ExpressionValue | undefined): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value === null || value === undefined) return null;
+  let text = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(text)) return null;
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  const parsed = Number(text);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const isEmpty = (value: ExpressionValue | undefined) =>
+  value === null || value === undefined || value === '' || value === 'N/A';
+
+const FUNCTIONS: Record<string, (...args: ExpressionValue[]) => ExpressionValue> = {
+  abs: (x) => Math.abs(toNumber(x) ?? 0),
+  round: (x, digits) => {
+    const factor = Math.pow(10, toNumber(digits) ?? 0);
+    return Math.round((toNumber(x) ?? 0) * factor) / factor;
+  },
+  min: (...xs) => Math.min(...xs.map(x => toNumber(x) ?? Infinity)),
+  max: (...xs) => Math.max(...xs.map(x => toNumber(x) ?? -Infinity)),
+  len: (x) => (isEmpty(x) ? 0 : String(x).length),
+  lower: (x) => (isEmpty(x) ? '' : String(x).toLowerCase()),
+  upper: (x) => (isEmpty(x) ? '' : String(x).toUpperCase()),
+  empty: (x) => isEmpty(x),
+  number: (x) => toNumber(x),
+  concat: (...xs) => xs.filter(x => !isEmpty(x)).join(' '),
+  // Equality within a tolerance: approx(a, b, 0.01)
+  approx: (a, b, tolerance) => {
+    const left = toNumber(a);
+    const right = toNumber(b);
+    if (left === null || right === null) return false;
+    return Math.abs(left - right) <= (toNumber(tolerance) ?? 0.01);
+  }
+};
+
+const evaluateNode = (node: Node, row: ExtractedItem): ExpressionValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field': {
+      if (!(node.name in row)) throw new ExpressionError(`Unknown field "${node.name}"`);
+      const value = row[node.name];
+      return value === 'N/A' ? null : value;
+    }
+    case 'unary': {
+      const operand = evaluateNode(node.operand, row);
+      return node.op === '!' ? !operand : -(toNumber(operand) ?? 0);
+    }
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      if (!fn) throw new ExpressionError(`Unknown function "${node.name}"`);
+      return fn(...node.args.map(arg => evaluateNode(arg, row)));
+    }
+    case 'binary': {
+      if (node.op === '&&') return !!evaluateNode(node.left, row) && !!evaluateNode(node.right, row);
+      if (node.op === '||') return !!evaluateNode(node.left, row) || !!evaluateNode(node.right, row);
+
+      const left = evaluateNode(node.left, row);
+      const right = evaluateNode(node.right, row);
+      const l = toNumber(left);
+      const r = toNumber(right);
+      const numeric = l !== null && r !== null;
+
+      switch (node.op) {
+        case '+':
+          if (!numeric && (typeof left === 'string' || typeof right === 'string')) return `${left ?? ''}${right ?? ''}`;
+          return (l ?? 0) + (r ?? 0);
+        case '-': return (l ?? 0) - (r ?? 0);
+        case '*': return (l ?? 0) * (r ?? 0);
+        case '/': return r ? (l ?? 0) / r : null;
+        case '%': return r ? (l ?? 0) % r : null;
+        case '==':
+        case '!=': {
+          const equal = numeric
+            ? Math.abs(l! - r!) < 1e-9
+            : isEmpty(left) && isEmpty(right)
+            ? true
+            : String(left ?? '').toLowerCase() === String(right ?? '').toLowerCase();
+          return node.op === '==' ? equal : !equal;
+        }
+        case '<': return numeric ? l! < r! : String(left) < String(right);
+        case '<=': return numeric ? l! <= r! : String(left) <= String(right);
+        case '>': return numeric ? l! > r! : String(left) > String(right);
+        case '>=': return numeric ? l! >= r! : String(left) >= String(right);
+      }
+      throw new ExpressionError(`Unknown operator "${node.op}"`);
+    }
+  }
+};
+
+const compiledCache = new Map<string, Node>();
+
+/**
+ * Parses an expression, throwing an ExpressionError with a readable message on bad syntax.
+ */
+export const compileExpression = (source: string): Node => {
+  const cached = compiledCache.get(source);
+  if (cached) return cached;
+  const ast = parse(tokenize(source));
+  compiledCache.set(source, ast);
+  return ast;
+};
+
+export const evaluateExpression = (source: string, row: ExtractedItem): ExpressionValue =>
+  evaluateNode(compileExpression(source), row);
+
+/**
+ * Returns the field names an expression refers to.
+ */
+export const expressionFields = (source: string): string[] => {
+  const fields = new Set<string>();
+  const walk = (node: Node) => {
+    if (node.kind === 'field') fields.add(node.name);
+    if (node.kind === 'unary') walk(node.operand);
+    if (node.kind === 'binary') {
+      walk(node.left);
+      walk(node.right);
+    }
+    if (node.kind === 'call') node.args.forEach(walk);
+  };
+  walk(compileExpression(source));
+  return Array.from(fields);
+};
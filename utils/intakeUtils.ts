@@ -0,0 +1,369 @@
+import * as UTIF from 'utif';
+import {
+  MAX_ARCHIVE_SIZE,
+  MAX_ATTACHMENT_DEPTH,
+  MAX_FILE_SIZE,
+  SPREADSHEET_FILE_TYPES,
+  SUPPORTED_FILE_TYPES,
+  TIFF_DEFAULT_DPI
+} from '../constants';
+import { archivePaths, docxToLines, readArchive } from './officeUtils';
+import { parseEml, parseMsg } from './mailUtils';
+import { PdfImagePage, bytesToBase64, jpegPagesToPdf, textLinesToPdf } from './pdfWriter';
+import { formatBytes } from './workspaceUtils';
+import { ZipEntry, readZipDirectory, readZipEntry, unpackedSize } from './zipUtils';
+
+type IntakeFormat =
+  | 'pdf' | 'png' | 'jpeg' | 'webp' | 'tiff' | 'heic'
+  | 'docx' | 'xlsx' | 'xls' | 'csv' | 'eml' | 'msg' | 'zip';
+
+export interface IntakeFile {
+  name: string;
+  mimeType: string;
+  base64: string;
+  // SHA-256 of the file as received, before any conversion
+  hash: string;
+}
+
+export interface IntakeRejection {
+  name: string;
+  reason: string;
+}
+
+export interface IntakeResult {
+  files: IntakeFile[];
+  rejected: IntakeRejection[];
+}
+
+export interface UploadEntry {
+  file: File;
+  // Path below the dropped or picked folder, or just the file name
+  name: string;
+}
+
+// A file inside an archive or attached to an email
+interface ContainedFile {
+  name: string;
+  bytes: Uint8Array;
+}
+
+// What the ZIP-based files of one upload may still unpack to, shared by every nesting level
+interface UnpackBudget {
+  remaining: number;
+}
+
+const FORMATS: Record<IntakeFormat, { label: string; mimeType: string; extensions: string[] }> = {
+  pdf: { label: 'a PDF', mimeType: 'application/pdf', extensions: ['pdf'] },
+  png: { label: 'a PNG image', mimeType: 'image/png', extensions: ['png'] },
+  jpeg: { label: 'a JPEG image', mimeType: 'image/jpeg', extensions: ['jpg', 'jpeg'] },
+  webp: { label: 'a WebP image', mimeType: 'image/webp', extensions: ['webp'] },
+  tiff: { label: 'a TIFF image', mimeType: 'image/tiff', extensions: ['tif', 'tiff'] },
+  heic: { label: 'a HEIC photo', mimeType: 'image/heic', extensions: ['heic', 'heif'] },
+  docx: { label: 'a Word document', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extensions: ['docx'] },
+  xlsx: { label: 'an Excel workbook', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extensions: ['xlsx'] },
+  xls: { label: 'an Excel workbook', mimeType: 'application/vnd.ms-excel', extensions: ['xls'] },
+  csv: { label: 'a CSV file', mimeType: 'text/csv', extensions: ['csv'] },
+  eml: { label: 'an email', mimeType: 'message/rfc822', extensions: ['eml'] },
+  msg: { label: 'an Outlook message', mimeType: 'application/vnd.ms-outlook', extensions: ['msg'] },
+  zip: { label: 'a ZIP archive', mimeType: 'application/zip', extensions: ['zip'] }
+};
+
+// ISO base media brands used by HEIC/HEIF photos
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+// Headers an email starts with; one of them must open the file
+const MAIL_HEADER = /^(received|return-path|from|to|subject|date|message-id|mime-version|delivered-to|x-[\w-]+):/i;
+
+const ZIP_SIGNATURE = [0x50, 0x4B, 0x03, 0x04];
+
+const extensionOf = (name: string) => (name.match(/\.([^.]+)$/)?.[1] || '').toLowerCase();
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+/**
+ * Identifies a file by its content rather than its name. The extension only settles
+ * between formats that cannot be told apart otherwise (CSV is plain text). ZIP-based
+ * formats are told apart by their entry names; pass the entries when already listed.
+ */
+export const sniffFormat = (bytes: Uint8Array, name: string, zipEntries?: ZipEntry[]): IntakeFormat | null => {
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46])) return 'pdf';
+  if (startsWith(bytes, [0x89, 0x50, 0x4E, 0x47])) return 'png';
+  if (startsWith(bytes, [0xFF, 0xD8, 0xFF])) return 'jpeg';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'webp';
+  if (startsWith(bytes, [0x49, 0x49, 0x2A, 0x00]) || startsWith(bytes, [0x4D, 0x4D, 0x00, 0x2A])) return 'tiff';
+  if (ascii(bytes, 4, 8) === 'ftyp' && HEIF_BRANDS.includes(ascii(bytes, 8, 12))) return 'heic';
+
+  if (startsWith(bytes, ZIP_SIGNATURE)) {
+    const paths = (zipEntries ?? readZipDirectory(bytes)).map(entry => entry.path);
+    if (paths.includes('word/document.xml')) return 'docx';
+    if (paths.includes('xl/workbook.xml')) return 'xlsx';
+    return 'zip';
+  }
+  if (startsWith(bytes, [0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1])) {
+    const paths = archivePaths(readArchive(bytes));
+    if (paths.some(path => path.startsWith('__substg1.0_') || path.startsWith('__properties_version1.0'))) return 'msg';
+    if (paths.some(path => path === 'Workbook' || path === 'Book')) return 'xls';
+    return null;
+  }
+
+  // Text formats: binary content rules them out
+  const head = bytes.subarray(0, 4096);
+  if (head.includes(0)) return null;
+  const text = new TextDecoder().decode(head).replace(/^\uFEFF/, '');
+  if (MAIL_HEADER.test(text.trimStart())) return 'eml';
+  if (extensionOf(name) === 'csv') return 'csv';
+  return null;
+};
+
+/**
+ * Why a file of this size cannot be queued, or null when it can. Checked before a file is
+ * read as well, so oversized files are never loaded.
+ */
+export const sizeRejection = (size: number, limit: number = MAX_FILE_SIZE): string | null => {
+  if (size === 0) return 'The file is empty';
+  if (size > limit) return `${formatBytes(size)} is over the ${formatBytes(limit)} limit`;
+  return null;
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of a file's content, hex encoded. Pages served over plain http have no Web Crypto,
+ * so they fall back to a 64-bit FNV-1a hash, which still tells duplicates apart.
+ */
+export const contentHash = async (bytes: Uint8Array): Promise<string> => {
+  if (globalThis.crypto?.subtle) return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)));
+  let hash = 0xcbf29ce484222325n;
+  for (const byte of bytes) hash = BigInt.asUintN(64, (hash ^ BigInt(byte)) * 0x100000001b3n);
+  return hash.toString(16).padStart(16, '0');
+};
+
+const unsupportedReason = (name: string): string => {
+  const extension = extensionOf(name);
+  const claimed = Object.values(FORMATS).find(format => format.extensions.includes(extension));
+  return claimed
+    ? `Named .${extension} but the content is not ${claimed.label}`
+    : 'Not a supported file (PDF, image, Word, Excel, CSV or email)';
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/jpeg', 0.85).split(',')[1];
+
+const rgbaToJpeg = (rgba: Uint8Array, width: number, height: number): string => {
+  const pixels = new Uint8ClampedArray(rgba);
+  // JPEG has no alpha: flatten onto white like a scan
+  for (let i = 3; i < pixels.length; i += 4) {
+    const alpha = pixels[i] / 255;
+    if (alpha === 1) continue;
+    for (let c = 1; c <= 3; c++) pixels[i - c] = Math.round(pixels[i - c] * alpha + 255 * (1 - alpha));
+    pixels[i] = 255;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+  ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+  return canvasToJpeg(canvas);
+};
+
+const tagNumber = (ifd: UTIF.IFD, tag: string): number | undefined => {
+  const value = ifd[tag];
+  if (typeof value === 'number') return value;
+  return Array.isArray(value) && value.length > 0 ? Number(value[0]) : undefined;
+};
+
+/**
+ * Converts a TIFF to a JPEG, or to a PDF with one page per TIFF page. Reduced-resolution
+ * copies (thumbnails) are skipped.
+ */
+const convertTiff = (name: string, bytes: Uint8Array): Omit<IntakeFile, 'hash'> => {
+  const buffer = bytes.slice().buffer;
+  const pages = UTIF.decode(buffer).filter(ifd => tagNumber(ifd, 't256') && !((tagNumber(ifd, 't254') || 0) & 1));
+  if (pages.length === 0) throw new Error('The TIFF has no pages');
+
+  const images: PdfImagePage[] = pages.map(ifd => {
+    UTIF.decodeImage(buffer, ifd);
+    return { base64: rgbaToJpeg(UTIF.toRGBA8(ifd), ifd.width, ifd.height), width: ifd.width, height: ifd.height };
+  });
+  if (images.length === 1) return { name, mimeType: 'image/jpeg', base64: images[0].base64 };
+
+  // XResolution, in dots per centimetre when ResolutionUnit is 3
+  const resolution = tagNumber(pages[0], 't282');
+  const dpi = resolution ? (tagNumber(pages[0], 't296') === 3 ? resolution * 2.54 : resolution) : TIFF_DEFAULT_DPI;
+  return { name, mimeType: 'application/pdf', base64: jpegPagesToPdf(images, dpi) };
+};
+
+/**
+ * Converts a HEIC photo to JPEG. Browsers that decode HEIC natively (Safari) do it
+ * themselves; elsewhere the decoder is loaded on first use.
+ */
+const convertHeic = async (name: string, bytes: Uint8Array): Promise<Omit<IntakeFile, 'hash'>> => {
+  const blob = new Blob([bytes], { type: 'image/heic' });
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return { name, mimeType: 'image/jpeg', base64: canvasToJpeg(canvas) };
+  } catch (error) {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob, toType: 'image/jpeg', quality: 0.85 });
+    const jpeg = Array.isArray(converted) ? converted[0] : converted;
+    return { name, mimeType: 'image/jpeg', base64: bytesToBase64(new Uint8Array(await jpeg.arrayBuffer())) };
+  }
+};
+
+const expandContents = async (name: string, contents: ContainedFile[], depth: number, budget: UnpackBudget): Promise<IntakeResult> => {
+  const result: IntakeResult = { files: [], rejected: [] };
+  for (const contained of contents) {
+    const expanded = await prepareUpload(contained.name, contained.bytes, depth + 1, budget);
+    result.files.push(...expanded.files);
+    result.rejected.push(...expanded.rejected.map(r => ({ ...r, name: `${name} › ${r.name}` })));
+  }
+  return result;
+};
+
+// Folders, and the metadata macOS and Windows leave in archives and folders
+const isIgnoredPath = (path: string) =>
+  path.endsWith('/') || path.startsWith('__MACOSX/') || /(^|\/)(\.[^/]*|Thumbs\.db|desktop\.ini)$/i.test(path);
+
+// Entries that may be archives or emails themselves, held to MAX_ARCHIVE_SIZE rather than MAX_FILE_SIZE
+const CONTAINER_EXTENSIONS = [...FORMATS.zip.extensions, ...FORMATS.eml.extensions, ...FORMATS.msg.extensions];
+
+/**
+ * The files in a ZIP archive, with their paths inside it as names. Entries declared larger
+ * than a queued file may be are rejected without being unpacked.
+ */
+const archiveContents = async (bytes: Uint8Array, entries: ZipEntry[]): Promise<{ contents: ContainedFile[]; rejected: IntakeRejection[] }> => {
+  const contents: ContainedFile[] = [];
+  const rejected: IntakeRejection[] = [];
+  for (const entry of entries) {
+    if (isIgnoredPath(entry.path)) continue;
+    const limit = CONTAINER_EXTENSIONS.includes(extensionOf(entry.path)) ? MAX_ARCHIVE_SIZE : MAX_FILE_SIZE;
+    const tooLarge = entry.size > limit ? sizeRejection(entry.size, limit) : null;
+    if (tooLarge) rejected.push({ name: entry.path, reason: tooLarge });
+    else contents.push({ name: entry.path, bytes: await readZipEntry(bytes, entry) });
+  }
+  return { contents, rejected };
+};
+
+/**
+ * Validates one uploaded file and turns it into queue entries: documents the pipeline reads
+ * directly are passed through, TIFF, HEIC and Word files are converted, and ZIP archives and
+ * emails are replaced by the files they contain (recursively, up to MAX_ATTACHMENT_DEPTH).
+ * Everything an upload unpacks, at every level, adds up to at most MAX_ARCHIVE_SIZE.
+ * Anything else is returned as a rejection with the reason.
+ */
+export const prepareUpload = async (
+  name: string,
+  bytes: Uint8Array,
+  depth: number = 0,
+  budget: UnpackBudget = { remaining: MAX_ARCHIVE_SIZE }
+): Promise<IntakeResult> => {
+  const reject = (reason: string): IntakeResult => ({ files: [], rejected: [{ name, reason }] });
+  const tooLarge = sizeRejection(bytes.length, MAX_ARCHIVE_SIZE);
+  if (tooLarge) return reject(tooLarge);
+
+  try {
+    // ZIP-based files are listed once, and their unpacked size checked before anything is inflated
+    const zipEntries = startsWith(bytes, ZIP_SIGNATURE) ? readZipDirectory(bytes) : undefined;
+    const unpacked = zipEntries ? unpackedSize(zipEntries) : 0;
+    if (unpacked > budget.remaining) {
+      return reject(depth === 0
+        ? `Unpacks to ${formatBytes(unpacked)}, over the ${formatBytes(MAX_ARCHIVE_SIZE)} limit`
+        : `Unpacks to ${formatBytes(unpacked)}, more than the ${formatBytes(MAX_ARCHIVE_SIZE)} limit leaves for the whole upload`);
+    }
+    budget.remaining -= unpacked;
+
+    const format = sniffFormat(bytes, name, zipEntries);
+    if (!format) return reject(unsupportedReason(name));
+
+    if (format === 'zip' || format === 'eml' || format === 'msg') {
+      if (depth >= MAX_ATTACHMENT_DEPTH) return reject(`Not expanded: nested more than ${MAX_ATTACHMENT_DEPTH} levels deep`);
+      const { contents, rejected } = format === 'zip'
+        ? await archiveContents(bytes, zipEntries!)
+        : { contents: format === 'eml' ? parseEml(bytes) : parseMsg(bytes), rejected: [] };
+      if (contents.length === 0 && rejected.length === 0) return reject(format === 'zip' ? 'The archive is empty' : 'The email has no attachments');
+      const result = await expandContents(name, contents, depth, budget);
+      result.rejected.unshift(...rejected.map(r => ({ ...r, name: `${name} › ${r.name}` })));
+      return result;
+    }
+
+    const sizeProblem = sizeRejection(bytes.length);
+    if (sizeProblem) return reject(sizeProblem);
+    let converted: Omit<IntakeFile, 'hash'>;
+    if (format === 'tiff') {
+      converted = convertTiff(name, bytes);
+    } else if (format === 'heic') {
+      converted = await convertHeic(name, bytes);
+    } else if (format === 'docx') {
+      converted = { name, mimeType: 'application/pdf', base64: textLinesToPdf(docxToLines(bytes)) };
+    } else {
+      const { mimeType } = FORMATS[format];
+      if (!SUPPORTED_FILE_TYPES.includes(mimeType) && !SPREADSHEET_FILE_TYPES.includes(mimeType)) return reject(unsupportedReason(name));
+      converted = { name, mimeType, base64: bytesToBase64(bytes) };
+    }
+    return { files: [{ ...converted, hash: await contentHash(bytes) }], rejected: [] };
+  } catch (error: any) {
+    return reject(`Could not be read: ${error?.message || error}`);
+  }
+};
+
+/**
+ * Uploads picked with a file or folder input, skipping hidden files of picked folders.
+ */
+export const entriesFromFileList = (list: FileList): UploadEntry[] =>
+  Array.from(list)
+    .map(file => ({ file, name: file.webkitRelativePath || file.name }))
+    .filter(entry => !isIgnoredPath(entry.name));
+
+const readDirectory = (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    // The listing comes in batches until an empty one
+    const next = () => reader.readEntries(batch => {
+      if (batch.length === 0) return resolve(entries);
+      entries.push(...batch);
+      next();
+    }, reject);
+    next();
+  });
+
+const walkEntry = async (entry: FileSystemEntry, found: UploadEntry[]) => {
+  const name = entry.fullPath.replace(/^\//, '');
+  if (isIgnoredPath(name)) return;
+  if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) await walkEntry(child, found);
+  } else if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    found.push({ file, name });
+  }
+};
+
+/**
+ * Files dropped onto the page, walking into dropped folders and their subfolders.
+ */
+export const entriesFromDataTransfer = async (dataTransfer: DataTransfer): Promise<UploadEntry[]> => {
+  // The item list is emptied once the drop event returns, so read it before awaiting
+  const dropped = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => ({ entry: item.webkitGetAsEntry(), file: item.getAsFile() }));
+
+  const found: UploadEntry[] = [];
+  for (const { entry, file } of dropped) {
+    if (entry) await walkEntry(entry, found);
+    else if (file) found.push({ file, name: file.name });
+  }
+  return found;
+};
@@ -0,0 +1,129 @@
+export type QueueState = 'running' | 'paused' | 'cancelled';
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+  }
+}
+
+export interface QueueControl {
+  readonly state: QueueState;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // Resolves once the queue is running again (or cancelled)
+  waitWhilePaused: () => Promise<void>;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  control?: QueueControl;
+  onRetry?: (attempt: number, error: any, delayMs: number) => void;
+}
+
+const MAX_DELAY_MS = 30000;
+
+const TRANSIENT_MESSAGE = /rate.?limit|quota|resource.?exhausted|unavailable|overloaded|deadline|timed? ?out|fetch failed|network|econnreset|socket hang up|try again/i;
+
+export const createQueueControl = (onChange?: (state: QueueState) => void): QueueControl => {
+  let state: QueueState = 'running';
+  let waiters: (() => void)[] = [];
+
+  const setState = (next: QueueState) => {
+    if (state === 'cancelled' || state === next) return;
+    state = next;
+    if (next !== 'paused') {
+      waiters.forEach(resolve => resolve());
+      waiters = [];
+    }
+    onChange?.(next);
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    pause: () => setState('paused'),
+    resume: () => setState('running'),
+    cancel: () => setState('cancelled'),
+    waitWhilePaused: () => state === 'paused' ? new Promise(resolve => waiters.push(resolve)) : Promise.resolve()
+  };
+};
+
+/**
+ * Rate limits (429), server errors (5xx) and network failures are worth retrying;
+ * anything else (bad request, invalid key, unparseable response) will fail again.
+ */
+export const isRetryableError = (error: any): boolean => {
+  const status = Number(error?.status ?? error?.code);
+  if (status === 429 || status === 408 || (status >= 500 && status < 600)) return true;
+  if (status >= 400 && status < 500) return false;
+  return TRANSIENT_MESSAGE.test(String(error?.message || ''));
+};
+
+/**
+ * Exponential backoff with up to 50% jitter so parallel workers do not retry in lockstep.
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number): number => {
+  const delay = Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay + Math.random() * delay * 0.5);
+};
+
+const sleep = (ms: number, control?: QueueControl) =>
+  new Promise<void>(resolve => {
+    const started = Date.now();
+    const tick = () => {
+      if (control?.state === 'cancelled' || Date.now() - started >= ms) resolve();
+      else setTimeout(tick, Math.min(250, ms));
+    };
+    tick();
+  });
+
+/**
+ * Runs `task`, retrying transient failures with exponential backoff.
+ * Throws CancelledError if the queue is cancelled while waiting to retry.
+ */
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error)) throw error;
+      const delay = backoffDelay(attempt + 1, options.baseDelayMs);
+      options.onRetry?.(attempt + 1, error, delay);
+      await sleep(delay, options.control);
+      await options.control?.waitWhilePaused();
+      if (options.control?.state === 'cancelled') throw new CancelledError();
+    }
+  }
+};
+
+/**
+ * Feeds jobs to `concurrency` workers. Pausing stops new jobs from starting (jobs already
+ * running finish); cancelling leaves the remaining jobs untouched. `worker` is expected
+ * to handle its own errors so one failing job never stops the others.
+ */
+export const runQueue = async <T>(
+  jobs: T[],
+  worker: (job: T) => Promise<void>,
+  concurrency: number,
+  control: QueueControl
+): Promise<void> => {
+  let next = 0;
+
+  const lane = async () => {
+    while (true) {
+      await control.waitWhilePaused();
+      if (control.state === 'cancelled' || next >= jobs.length) return;
+      const job = jobs[next++];
+      try {
+        await worker(job);
+      } catch (error) {
+        console.error('Queue job failed:', error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, jobs.length)) }, lane));
+};
@@ -0,0 +1,109 @@
+import { DocumentLocale, LanguageDetection, OcrLanguage, OcrLanguageSettings } from '../types';
+import {
+  DEFAULT_OCR_LANGUAGE_SETTINGS,
+  MIN_LANGUAGE_CONFIDENCE,
+  OCR_LANGUAGES,
+  OCR_LANGUAGE_STORAGE_KEY
+} from '../constants';
+import { getLocale } from './normalizeUtils';
+
+const SCRIPT_PATTERNS: Record<OcrLanguage['script'], RegExp> = {
+  Latin: /[a-zA-Z\u00C0-\u024F]/g,
+  Arabic: /[\u0600-\u06FF\u0750-\u077F]/g
+};
+
+// Letters that only some Latin-script languages use; each occurrence adds half a marker hit
+const DIACRITICS: Record<string, RegExp> = {
+  fra: /[éèêëàâçœîïôû]/g,
+  deu: /[äöüß]/g,
+  spa: /[ñ¿¡áíóú]/g
+};
+
+// Marker hits at which a language with no competitor is fully trusted
+const CONFIDENT_SCORE = 10;
+
+export const ocrLanguageOf = (id: string): OcrLanguage | undefined => OCR_LANGUAGES.find(l => l.id === id);
+
+/**
+ * Guesses the language of OCR or text-layer output among the candidates: the dominant
+ * script first, then marker words and diacritics among the languages written in it.
+ * Returns null when the text is too short or too mixed to tell.
+ */
+export const detectLanguage = (text: string, candidateIds: string[]): LanguageDetection | null => {
+  const candidates = candidateIds.map(ocrLanguageOf).filter((l): l is OcrLanguage => !!l);
+  if (candidates.length === 0) return null;
+
+  const scriptCounts = (Object.keys(SCRIPT_PATTERNS) as OcrLanguage['script'][])
+    .map(script => ({ script, count: (text.match(SCRIPT_PATTERNS[script]) || []).length }))
+    .sort((a, b) => b.count - a.count);
+  const letters = scriptCounts.reduce((sum, s) => sum + s.count, 0);
+  if (letters === 0) return null;
+  const { script, count } = scriptCounts[0];
+  const share = count / letters;
+
+  const inScript = candidates.filter(l => l.script === script);
+  if (inScript.length === 0) return null;
+  if (inScript.length === 1) {
+    return share >= MIN_LANGUAGE_CONFIDENCE
+      ? { language: inScript[0].id, confidence: Math.round(share * 100) / 100, source: 'auto' }
+      : null;
+  }
+
+  const tokens = text.toLowerCase().match(/[\p{L}]+/gu) || [];
+  const [best, second] = inScript
+    .map(language => {
+      const markers = new Set(language.markers);
+      const hits = tokens.filter(token => markers.has(token)).length;
+      const accents = DIACRITICS[language.id] ? (text.toLowerCase().match(DIACRITICS[language.id]) || []).length : 0;
+      return { id: language.id, score: hits + accents / 2 };
+    })
+    .sort((a, b) => b.score - a.score);
+  if (best.score === 0) return null;
+
+  const confidence = share * Math.min(1, best.score / CONFIDENT_SCORE) * (best.score - second.score) / best.score;
+  return confidence >= MIN_LANGUAGE_CONFIDENCE
+    ? { language: best.id, confidence: Math.round(confidence * 100) / 100, source: 'auto' }
+    : null;
+};
+
+/**
+ * The Tesseract languages to read a document with: the detected language alone, which
+ * recognises better than the whole combination, or every configured language.
+ */
+export const ocrLanguagesFor = (settings: OcrLanguageSettings, detection?: LanguageDetection | null): string[] =>
+  detection ? [detection.language] : settings.languages;
+
+/**
+ * The language a document is assumed to be in when nothing was detected: the configured
+ * one, as long as only one is configured.
+ */
+export const configuredLanguage = (settings: OcrLanguageSettings): LanguageDetection | undefined =>
+  settings.languages.length === 1 ? { language: settings.languages[0], confidence: 1, source: 'configured' } : undefined;
+
+/**
+ * The locale to parse a document's numbers and dates with: the locale of its detected
+ * language when it has one, otherwise the locale chosen for the batch.
+ */
+export const localeForLanguage = (detection: LanguageDetection | undefined, fallback: DocumentLocale): DocumentLocale => {
+  const localeId = detection?.source === 'auto' ? ocrLanguageOf(detection.language)?.localeId : null;
+  return localeId ? getLocale(localeId) : fallback;
+};
+
+export const loadOcrLanguageSettings = (): OcrLanguageSettings => {
+  try {
+    const raw = localStorage.getItem(OCR_LANGUAGE_STORAGE_KEY);
+    if (!raw) return DEFAULT_OCR_LANGUAGE_SETTINGS;
+    const saved = JSON.parse(raw);
+    // Drop languages no longer offered
+    const languages = Array.isArray(saved.languages) ? saved.languages.filter((id: string) => ocrLanguageOf(id)) : [];
+    return languages.length > 0
+      ? { ...DEFAULT_OCR_LANGUAGE_SETTINGS, ...saved, languages }
+      : DEFAULT_OCR_LANGUAGE_SETTINGS;
+  } catch (error) {
+    console.warn('Could not load OCR language settings:', error);
+    return DEFAULT_OCR_LANGUAGE_SETTINGS;
+  }
+};
+
+export const saveOcrLanguageSettings = (settings: OcrLanguageSettings) =>
+  localStorage.setItem(OCR_LANGUAGE_STORAGE_KEY, JSON.stringify(settings));
@@ -0,0 +1,69 @@
+import { OcrWord } from '../types';
+
+export interface TextLine {
+  page: number;
+  y: number;
+  height: number;
+  words: OcrWord[];
+}
+
+// Widest line layoutText produces, in characters; smaller print is packed tighter
+const MAX_LAYOUT_COLUMNS = 200;
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Groups words into visual lines, page by page, top to bottom.
+ */
+export const groupLines = (words: OcrWord[]): TextLine[] => {
+  const sorted = [...words].sort((a, b) =>
+    a.page - b.page || (a.bbox.y + a.bbox.height / 2) - (b.bbox.y + b.bbox.height / 2)
+  );
+  const lines: TextLine[] = [];
+  sorted.forEach(word => {
+    const center = word.bbox.y + word.bbox.height / 2;
+    const last = lines[lines.length - 1];
+    if (last && last.page === word.page && Math.abs(center - last.y) < Math.max(last.height, word.bbox.height) * 0.5) {
+      last.words.push(word);
+      last.y = (last.y * (last.words.length - 1) + center) / last.words.length;
+      last.height = Math.max(last.height, word.bbox.height);
+    } else {
+      lines.push({ page: word.page, y: center, height: word.bbox.height, words: [word] });
+    }
+  });
+  lines.forEach(line => line.words.sort((a, b) => a.bbox.x - b.bbox.x));
+  return lines;
+};
+
+/**
+ * Lays the words of one page out as plain text: one row per visual line, words padded to
+ * their horizontal position so table columns stay aligned, and a blank row where the page
+ * leaves a wide vertical gap.
+ */
+export const layoutText = (words: OcrWord[]): string => {
+  const visible = words.filter(w => w.text.trim());
+  if (visible.length === 0) return '';
+  const charWidth = Math.max(
+    median(visible.map(w => w.bbox.width / Math.max(1, w.text.length))),
+    1 / MAX_LAYOUT_COLUMNS
+  );
+  const left = Math.min(...visible.map(w => w.bbox.x));
+
+  const rows: string[] = [];
+  let previous: TextLine | null = null;
+  groupLines(visible).forEach(line => {
+    if (previous && line.y - previous.y > Math.max(line.height, previous.height) * 2.5) rows.push('');
+    let row = '';
+    line.words.forEach(word => {
+      const column = Math.round((word.bbox.x - left) / charWidth);
+      row += ' '.repeat(Math.max(row ? 1 : 0, column - row.length)) + word.text;
+    });
+    rows.push(row);
+    previous = line;
+  });
+  return rows.join('\n');
+};
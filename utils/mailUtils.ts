@@ -0,0 +1,167 @@
+import { archivePaths, readArchive, readArchiveEntry } from './officeUtils';
+
+export interface MailAttachment {
+  name: string;
+  // As declared by the email; the content is sniffed again before it is queued
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Email bodies are handled as binary strings: one character per byte
+const toBinaryString = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+const fromBinaryString = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xFF;
+  return bytes;
+};
+
+const decodeCharset = (bytes: Uint8Array, charset: string): string => {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch (error) {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const decodeQuotedPrintable = (text: string): string =>
+  text.replace(/=\r?\n/g, '').replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?RmFjdHVyZS5wZGY=?=
+const decodeEncodedWords = (text: string): string =>
+  text
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, data: string) => {
+      const binary = encoding.toUpperCase() === 'B' ? atob(data) : decodeQuotedPrintable(data.replace(/_/g, ' '));
+      return decodeCharset(fromBinaryString(binary), charset);
+    });
+
+const parseHeaders = (block: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  // Continuation lines start with whitespace
+  block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+  });
+  return headers;
+};
+
+/**
+ * A parameter of a structured header such as Content-Type or Content-Disposition,
+ * including RFC 2231 forms (name*=utf-8''..., name*0*=...).
+ */
+const headerParam = (header: string | undefined, name: string): string | undefined => {
+  if (!header) return undefined;
+  const params: Record<string, string> = {};
+  header.split(';').slice(1).forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq < 0) return;
+    params[part.slice(0, eq).trim().toLowerCase()] = part.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1');
+  });
+
+  const extended = Object.keys(params)
+    .filter(key => key === `${name}*` || key.startsWith(`${name}*`))
+    .sort((a, b) => (Number(a.match(/\*(\d+)/)?.[1]) || 0) - (Number(b.match(/\*(\d+)/)?.[1]) || 0));
+  if (extended.length > 0) {
+    const joined = extended.map(key => params[key]).join('');
+    const match = joined.match(/^([^']*)'[^']*'(.*)$/);
+    const charset = match ? match[1] : 'utf-8';
+    const encoded = match ? match[2] : joined;
+    return decodeCharset(fromBinaryString(encoded.replace(/%([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))), charset);
+  }
+  return params[name] !== undefined ? decodeEncodedWords(params[name]) : undefined;
+};
+
+const splitPart = (raw: string): MimePart => {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) return { headers: parseHeaders(raw), body: '' };
+  return { headers: parseHeaders(raw.slice(0, match.index)), body: raw.slice(match.index + match[0].length) };
+};
+
+const collectAttachments = (part: MimePart, found: MailAttachment[]) => {
+  const contentType = part.headers['content-type'] || 'text/plain';
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+  if (mimeType.startsWith('multipart/')) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (!boundary) return;
+    const sections = part.body.split(`--${boundary}`);
+    // Skip the preamble and everything after the closing delimiter; the line break before
+    // each delimiter belongs to the delimiter
+    sections.slice(1).forEach(section => {
+      if (section.startsWith('--')) return;
+      collectAttachments(splitPart(section.replace(/^\r?\n/, '').replace(/\r?\n$/, '')), found);
+    });
+    return;
+  }
+  // Forwarded emails carry their own attachments
+  if (mimeType === 'message/rfc822') {
+    collectAttachments(splitPart(part.body), found);
+    return;
+  }
+
+  const disposition = part.headers['content-disposition'];
+  const name = headerParam(disposition, 'filename') || headerParam(contentType, 'name');
+  if (!name) return;
+
+  const encoding = (part.headers['content-transfer-encoding'] || '').toLowerCase();
+  const binary = encoding === 'base64'
+    ? atob(part.body.replace(/[^A-Za-z0-9+/=]/g, ''))
+    : encoding === 'quoted-printable' ? decodeQuotedPrintable(part.body) : part.body;
+  found.push({ name, mimeType, bytes: fromBinaryString(binary) });
+};
+
+/**
+ * Attachments of an .eml (RFC 822 / MIME) email, including those of forwarded emails.
+ */
+export const parseEml = (bytes: Uint8Array): MailAttachment[] => {
+  const found: MailAttachment[] = [];
+  collectAttachments(splitPart(toBinaryString(bytes)), found);
+  return found;
+};
+
+// MAPI properties of an attachment storage in an Outlook .msg file
+const MSG_ATTACH_DATA = '__substg1.0_37010102';
+const MSG_NAME_PROPERTIES = ['3707', '3704', '3001'];
+const MSG_MIME_PROPERTY = '370E';
+
+const msgString = (container: any, storage: string, property: string): string | undefined => {
+  // 001F is UTF-16, 001E the sender's code page
+  const unicode = readArchiveEntry(container, `${storage}/__substg1.0_${property}001F`);
+  if (unicode) return new TextDecoder('utf-16le').decode(unicode).replace(/\0+$/, '');
+  const ansi = readArchiveEntry(container, `${storage}/__substg1.0_${property}001E`);
+  return ansi ? decodeCharset(ansi, 'windows-1252').replace(/\0+$/, '') : undefined;
+};
+
+/**
+ * File attachments of an Outlook .msg file. Attached Outlook items (embedded messages)
+ * are not files and are skipped.
+ */
+export const parseMsg = (bytes: Uint8Array): MailAttachment[] => {
+  const container = readArchive(bytes);
+  const storages = new Set(
+    archivePaths(container)
+      .map(path => path.match(/^(__attach_version1\.0_#[0-9A-F]{8})\//i)?.[1])
+      .filter((storage): storage is string => !!storage)
+  );
+
+  const found: MailAttachment[] = [];
+  storages.forEach(storage => {
+    const data = readArchiveEntry(container, `${storage}/${MSG_ATTACH_DATA}`);
+    if (!data) return;
+    const name = MSG_NAME_PROPERTIES.map(property => msgString(container, storage, property)).find(Boolean) || storage;
+    found.push({ name, mimeType: msgString(container, storage, MSG_MIME_PROPERTY) || 'application/octet-stream', bytes: data });
+  });
+  return found;
+};
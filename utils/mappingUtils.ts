@@ -0,0 +1,181 @@
+import { CellFormat, ExtractedItem, MappingColumn, MappingProfile } from '../types';
+import { MAPPING_PROFILE_STORE } from '../constants';
+import { compileExpression, evaluateExpression } from './expression';
+import { deleteRecord, getAllRecords, putRecord } from './dbUtils';
+
+const VENDOR_FIELD = /^(vendor|supplier|seller|merchant|issuer|company|vendor_name|supplier_name)$/i;
+
+const newColumnId = () => `col-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const fieldColumn = (field: string, header: string = field): MappingColumn => ({
+  id: newColumnId(),
+  header,
+  kind: 'field',
+  sources: [field]
+});
+
+/**
+ * One pass-through column per extracted field, in field order.
+ */
+export const defaultColumns = (fields: string[]): MappingColumn[] => fields.map(f => fieldColumn(f));
+
+/**
+ * Appends pass-through columns for fields the profile does not mention yet, so applying
+ * an older profile never silently drops newly extracted data.
+ */
+export const withMissingFields = (columns: MappingColumn[], fields: string[]): MappingColumn[] => {
+  const covered = new Set(columns.flatMap(c => c.kind === 'field' || c.kind === 'merge' ? c.sources : []));
+  return [...columns, ...fields.filter(f => !covered.has(f)).map(f => fieldColumn(f))];
+};
+
+/**
+ * Display names for the results table: original field -> exported header.
+ */
+export const columnLabels = (columns: MappingColumn[]): Record<string, string> =>
+  Object.fromEntries(columns.filter(c => c.kind === 'field').map(c => [c.sources[0], c.header]));
+
+export const fieldFingerprint = (fields: string[]): string[] => Array.from(new Set(fields)).sort();
+
+export const detectVendor = (data: ExtractedItem[]): string | null => {
+  const key = Object.keys(data[0] || {}).find(k => VENDOR_FIELD.test(k));
+  if (!key) return null;
+  const row = data.find(r => r[key] !== null && String(r[key]).trim() !== '');
+  return row ? String(row[key]).trim() : null;
+};
+
+/**
+ * Picks the auto-apply profile for a result set. A vendor pattern match wins over a
+ * profile that only matches on the set of extracted fields.
+ */
+export const findMatchingProfile = (
+  profiles: MappingProfile[],
+  data: ExtractedItem[],
+  fields: string[]
+): MappingProfile | null => {
+  const candidates = profiles.filter(p => p.autoApply);
+  const vendor = detectVendor(data)?.toLowerCase();
+  if (vendor) {
+    const byVendor = candidates.find(p => p.vendorPatterns.some(pattern => pattern.trim() && vendor.includes(pattern.trim().toLowerCase())));
+    if (byVendor) return byVendor;
+  }
+  const fingerprint = fieldFingerprint(fields).join('|');
+  return candidates.find(p => p.fieldFingerprint.length > 0 && p.fieldFingerprint.join('|') === fingerprint) || null;
+};
+
+/**
+ * Returns a readable problem with the column set, or null when it can be applied.
+ */
+export const checkColumns = (columns: MappingColumn[]): string | null => {
+  const visible = columns.filter(c => !c.hidden);
+  const headers = visible.map(c => c.header.trim());
+  if (headers.some(h => !h)) return 'Every visible column needs a header';
+  const duplicate = headers.find((h, idx) => headers.indexOf(h) !== idx);
+  if (duplicate) return `Header "${duplicate}" is used twice`;
+  for (const column of visible) {
+    if (column.kind === 'merge' && column.sources.length === 0) return `"${column.header}" merges no fields`;
+    if (column.kind === 'computed') {
+      try {
+        compileExpression(column.value || '');
+      } catch (error: any) {
+        return `"${column.header}": ${error.message}`;
+      }
+    }
+  }
+  return null;
+};
+
+const columnValue = (column: MappingColumn, row: ExtractedItem): ExtractedItem[string] => {
+  switch (column.kind) {
+    case 'field':
+      return row[column.sources[0]] ?? null;
+    case 'merge': {
+      const parts = column.sources.map(s => row[s]).filter(v => v !== null && v !== undefined && String(v).trim() !== '');
+      return parts.length > 0 ? parts.join(column.separator ?? ' ') : null;
+    }
+    case 'constant':
+      return column.value ?? null;
+    case 'computed':
+      try {
+        const value = evaluateExpression(column.value || '', row);
+        return typeof value === 'boolean' ? String(value) : value;
+      } catch (error) {
+        return null;
+      }
+  }
+};
+
+/**
+ * Produces the exported rows: visible columns only, in profile order, renamed, with merged,
+ * constant and computed columns filled in. Cell formats follow pass-through columns.
+ */
+export const applyColumns = (
+  data: ExtractedItem[],
+  cellFormats: Record<string, CellFormat>[],
+  columns: MappingColumn[]
+): { rows: ExtractedItem[]; cellFormats: Record<string, CellFormat>[] } => {
+  const visible = columns.filter(c => !c.hidden);
+  return {
+    rows: data.map(row => Object.fromEntries(visible.map(c => [c.header, columnValue(c, row)]))),
+    cellFormats: data.map((_, idx) => {
+      const formats: Record<string, CellFormat> = {};
+      visible.forEach(c => {
+        const format = c.kind === 'field' ? cellFormats[idx]?.[c.sources[0]] : undefined;
+        if (format) formats[c.header] = format;
+      });
+      return formats;
+    })
+  };
+};
+
+export const loadProfiles = async (): Promise<MappingProfile[]> => {
+  try {
+    const profiles = await getAllRecords<MappingProfile>(MAPPING_PROFILE_STORE);
+    return profiles.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.warn('Could not load mapping profiles:', error);
+    return [];
+  }
+};
+
+export const saveProfile = (profile: MappingProfile) => putRecord(MAPPING_PROFILE_STORE, profile);
+
+export const deleteProfile = (id: string) => deleteRecord(MAPPING_PROFILE_STORE, id);
+
+export const profilesToJson = (profiles: MappingProfile[]): string =>
+  JSON.stringify({ version: 1, profiles }, null, 2);
+
+/**
+ * Reads profiles exported by profilesToJson (or a bare array of profiles).
+ * Throws with a readable message when the file is not a profile export.
+ */
+export const parseProfilesJson = (text: string): MappingProfile[] => {
+  const parsed = JSON.parse(text);
+  const list: any[] = Array.isArray(parsed) ? parsed : parsed?.profiles;
+  if (!Array.isArray(list)) throw new Error('File does not contain mapping profiles');
+
+  return list.map((raw, idx) => {
+    if (!raw || typeof raw.name !== 'string' || !Array.isArray(raw.columns)) {
+      throw new Error(`Profile ${idx + 1} is missing a name or columns`);
+    }
+    const columns: MappingColumn[] = raw.columns.map((c: any) => ({
+      id: typeof c.id === 'string' ? c.id : newColumnId(),
+      header: String(c.header ?? ''),
+      kind: ['field', 'merge', 'constant', 'computed'].includes(c.kind) ? c.kind : 'field',
+      sources: Array.isArray(c.sources) ? c.sources.map(String) : [],
+      separator: typeof c.separator === 'string' ? c.separator : undefined,
+      value: typeof c.value === 'string' ? c.value : undefined,
+      hidden: Boolean(c.hidden)
+    }));
+    const problem = checkColumns(columns);
+    if (problem) throw new Error(`Profile "${raw.name}": ${problem}`);
+    return {
+      id: typeof raw.id === 'string' ? raw.id : `profile-${Date.now().toString(36)}-${idx}`,
+      name: raw.name,
+      columns,
+      vendorPatterns: Array.isArray(raw.vendorPatterns) ? raw.vendorPatterns.map(String) : [],
+      fieldFingerprint: Array.isArray(raw.fieldFingerprint) ? raw.fieldFingerprint.map(String) : [],
+      autoApply: raw.autoApply !== false,
+      updatedAt: Date.now()
+    };
+  });
+};
@@ -0,0 +1,281 @@
+import {
+  CellFormat,
+  DocumentHeader,
+  DocumentLocale,
+  ExtractedItem,
+  ExtractionSchema,
+  RecordSet,
+  SchemaFieldType
+} from '../types';
+import { DEFAULT_LOCALE_ID, DOCUMENT_LOCALES, LOCALE_STORAGE_KEY, NULL_MARKERS } from '../constants';
+
+type CellValue = ExtractedItem[string];
+
+export interface NormalizedValue {
+  value: CellValue;
+  format?: CellFormat;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '$': 'USD',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  'CHF': 'CHF',
+  'DH': 'MAD',
+  'MAD': 'MAD',
+  'د.م.': 'MAD'
+};
+
+const ISO_CURRENCY = /\b(EUR|USD|GBP|CHF|JPY|CAD|AUD|MAD|SEK|NOK|DKK|PLN|CZK|INR|CNY|TND|DZD)\b/i;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, janv: 1, january: 1, janvier: 1, januar: 1, enero: 1, ene: 1,
+  feb: 2, fev: 2, févr: 2, february: 2, fevrier: 2, février: 2, februar: 2, febrero: 2,
+  mar: 3, march: 3, mars: 3, märz: 3, marz: 3, marzo: 3, mär: 3,
+  apr: 4, avr: 4, april: 4, avril: 4, abril: 4, abr: 4,
+  may: 5, mai: 5, mayo: 5,
+  jun: 6, june: 6, juin: 6, juni: 6, junio: 6,
+  jul: 7, july: 7, juil: 7, juillet: 7, juli: 7, julio: 7,
+  aug: 8, august: 8, aout: 8, août: 8, agosto: 8, ago: 8,
+  sep: 9, sept: 9, september: 9, septembre: 9, septiembre: 9,
+  oct: 10, october: 10, octobre: 10, oktober: 10, okt: 10, octubre: 10,
+  nov: 11, november: 11, novembre: 11, noviembre: 11,
+  dec: 12, déc: 12, december: 12, decembre: 12, décembre: 12, dezember: 12, dez: 12, diciembre: 12, dic: 12,
+  // Arabic, with the Maghreb names used in Morocco
+  يناير: 1, فبراير: 2, مارس: 3, أبريل: 4, ابريل: 4, مايو: 5, ماي: 5, يونيو: 6, يوليو: 7, يوليوز: 7,
+  أغسطس: 8, غشت: 8, سبتمبر: 9, شتنبر: 9, أكتوبر: 10, اكتوبر: 10, نوفمبر: 11, نونبر: 11, ديسمبر: 12, دجنبر: 12
+};
+
+/**
+ * Rewrites Arabic-Indic and Persian digits and the Arabic decimal and thousands
+ * separators as their ASCII equivalents.
+ */
+const toAsciiDigits = (text: string): string =>
+  text
+    .replace(/[\u0660-\u0669]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, d => String(d.charCodeAt(0) - 0x06F0))
+    .replace(/\u066B/g, ',')
+    .replace(/\u066C/g, '.');
+
+export const getLocale = (id: string): DocumentLocale =>
+  DOCUMENT_LOCALES.find(l => l.id === id) || DOCUMENT_LOCALES.find(l => l.id === DEFAULT_LOCALE_ID)!;
+
+export const isNullMarker = (value: CellValue | undefined): boolean =>
+  value === undefined || value === null ||
+  (typeof value === 'string' && (value.trim() === '' || NULL_MARKERS.includes(value.trim().toLowerCase())));
+
+export const detectCurrency = (text: string): string | undefined => {
+  const iso = text.match(ISO_CURRENCY);
+  if (iso) return iso[1].toUpperCase();
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => text.includes(s));
+  return symbol ? CURRENCY_SYMBOLS[symbol] : undefined;
+};
+
+/**
+ * Parses a localised amount such as "1.234,50", "1,234.50", "1 234,50", "(12.00)" or "12,00-".
+ * When both separators appear the last one is the decimal mark; otherwise the locale decides,
+ * except that a single separator followed by exactly three digits is read as grouping.
+ */
+export const parseLocaleNumber = (raw: string, locale: DocumentLocale): number | null => {
+  let text = toAsciiDigits(raw).trim();
+  const negative = /^\(.*\)$/.test(text) || /-\s*$/.test(text) || /^-/.test(text.replace(/^[^\d-]+/, ''));
+  text = text.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(text)) return null;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  let decimal: string | null;
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    decimal = lastComma > lastDot ? ',' : '.';
+  } else if (lastComma !== -1 || lastDot !== -1) {
+    const sep = lastComma !== -1 ? ',' : '.';
+    const parts = text.split(sep);
+    const trailing = parts[parts.length - 1].length;
+    decimal = parts.length > 2 || (sep !== locale.decimal && trailing === 3) ? null : sep;
+  } else {
+    decimal = null;
+  }
+
+  const grouping = decimal === ',' ? /\./g : decimal === '.' ? /,/g : /[.,]/g;
+  let normalized = text.replace(grouping, '');
+  if (decimal === ',') normalized = normalized.replace(',', '.');
+  const value = Number(normalized);
+  if (!Number.isFinite(value)) return null;
+  return negative ? -value : value;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += year >= 70 ? 1900 : 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Parses a date written in the document's convention and returns it as YYYY-MM-DD.
+ */
+export const parseLocaleDate = (raw: string, locale: DocumentLocale): string | null => {
+  const text = toAsciiDigits(raw).trim().toLowerCase();
+
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/);
+  if (match) {
+    const [a, b, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (locale.dateOrder === 'MDY' && a <= 12) return toIsoDate(year, a, b);
+    if (a > 12 && b <= 12) return toIsoDate(year, b, a);
+    if (b > 12 && a <= 12) return toIsoDate(year, a, b);
+    return toIsoDate(year, b, a);
+  }
+
+  // "12 Mar 2024", "12. März 2024", "March 12, 2024"
+  match = text.match(/^(\d{1,2})\.?\s+([\p{L}.]+)\s+(\d{2,4})$/u);
+  if (match) {
+    const month = MONTHS[match[2].replace(/\./g, '')];
+    if (month) return toIsoDate(Number(match[3]), month, Number(match[1]));
+  }
+  match = text.match(/^([\p{L}.]+)\s+(\d{1,2}),?\s+(\d{2,4})$/u);
+  if (match) {
+    const month = MONTHS[match[1].replace(/\./g, '')];
+    if (month) return toIsoDate(Number(match[3]), month, Number(match[2]));
+  }
+  return null;
+};
+
+const inferKind = (text: string, locale: DocumentLocale): SchemaFieldType | 'percent' => {
+  if (/%\s*$/.test(text)) return 'percent';
+  if (/^\(?[-+]?\s*[^\d\s]{0,4}\s*[\d][\d.,\s' ]*\s*[^\d\s]{0,4}\)?-?$/.test(text) && detectCurrency(text)) return 'currency';
+  if (/^\(?[-+]?[\d][\d.,\s' ]*\)?-?$/.test(text)) return 'number';
+  if (/^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}$/.test(text)) return 'date';
+  if (text.length <= 24 && /\d/.test(text) && parseLocaleDate(text, locale)) return 'date';
+  return 'string';
+};
+
+/**
+ * Normalises one cell. The schema field type is used when known; otherwise the kind is
+ * inferred from the raw text. Unparseable values are kept as-is rather than dropped.
+ */
+export const normalizeValue = (
+  value: CellValue | undefined,
+  locale: DocumentLocale,
+  fieldType?: SchemaFieldType
+): NormalizedValue => {
+  if (isNullMarker(value)) return { value: null };
+  if (typeof value === 'number') {
+    if (fieldType === 'currency') return { value, format: { kind: 'currency', currency: locale.currency } };
+    return { value, format: fieldType === 'number' ? { kind: 'number' } : undefined };
+  }
+
+  const text = String(value).trim();
+  const kind = fieldType || inferKind(toAsciiDigits(text), locale);
+
+  switch (kind) {
+    case 'percent': {
+      const n = parseLocaleNumber(text, locale);
+      return n === null ? { value: text } : { value: n, format: { kind: 'percent' } };
+    }
+    case 'currency': {
+      const n = parseLocaleNumber(text, locale);
+      if (n === null) return { value: text };
+      return { value: n, format: { kind: 'currency', currency: detectCurrency(text) || locale.currency } };
+    }
+    case 'number': {
+      const n = parseLocaleNumber(text, locale);
+      if (n === null) return { value: text };
+      return { value: n, format: /%\s*$/.test(text) ? { kind: 'percent' } : { kind: 'number' } };
+    }
+    case 'date': {
+      const iso = parseLocaleDate(text, locale);
+      return iso ? { value: iso, format: { kind: 'date' } } : { value: text };
+    }
+    default:
+      return { value: text };
+  }
+};
+
+/**
+ * Normalises every cell of the record set and stores the detected format in the cell metadata.
+ * A row-level "Currency" column, when present, overrides the locale's default currency.
+ */
+export const normalizeRecords = (
+  records: RecordSet,
+  locale: DocumentLocale,
+  schema: ExtractionSchema | null
+): RecordSet => {
+  const fieldTypes = Object.fromEntries((schema?.fields || []).map(f => [f.name, f.type]));
+  const currencyField = Object.keys(records.data[0] || {}).find(k => /^currency(_code)?$/i.test(k));
+  const data: ExtractedItem[] = [];
+
+  const rowMeta = records.data.map((row, idx) => {
+    const meta = records.rowMeta[idx] || { cells: {} };
+    const cells = { ...meta.cells };
+    const rowCurrency = currencyField && typeof row[currencyField] === 'string'
+      ? detectCurrency(String(row[currencyField]))
+      : undefined;
+    const rowLocale = rowCurrency ? { ...locale, currency: rowCurrency } : locale;
+    const next: ExtractedItem = {};
+
+    Object.entries(row).forEach(([field, value]) => {
+      const normalized = normalizeValue(value, rowLocale, fieldTypes[field]);
+      next[field] = normalized.value;
+      if (normalized.format) {
+        cells[field] = { ...(cells[field] || { confidence: 1 }), format: normalized.format };
+      }
+    });
+
+    data.push(next);
+    return { ...meta, cells };
+  });
+
+  return { ...records, data, rowMeta };
+};
+
+/**
+ * Normalises a document's header, then its line items in the header's currency when it names one.
+ */
+export const normalizeDocument = (
+  lines: RecordSet,
+  header: DocumentHeader | null,
+  locale: DocumentLocale,
+  schema: ExtractionSchema | null
+): { lines: RecordSet; header: DocumentHeader | null } => {
+  if (!header) return { lines: normalizeRecords(lines, locale, schema), header: null };
+
+  const normalized = normalizeRecords({ data: [header.fields], rowMeta: [header.meta] }, locale, schema);
+  const currencyField = Object.keys(header.fields).find(k => /^currency(_code)?$/i.test(k));
+  const currency = currencyField && typeof header.fields[currencyField] === 'string'
+    ? detectCurrency(String(header.fields[currencyField]))
+    : undefined;
+  return {
+    lines: normalizeRecords(lines, currency ? { ...locale, currency } : locale, schema),
+    header: { ...header, fields: normalized.data[0], meta: normalized.rowMeta[0] }
+  };
+};
+
+/**
+ * Formats a normalised value for display in the results table.
+ */
+export const formatForDisplay = (value: CellValue, format: CellFormat | undefined, localeId: string): string => {
+  if (value === null) return '';
+  if (!format || typeof value !== 'number') return String(value);
+  try {
+    switch (format.kind) {
+      case 'currency':
+        return new Intl.NumberFormat(localeId, { style: 'currency', currency: format.currency || 'EUR' }).format(value);
+      case 'percent':
+        return `${new Intl.NumberFormat(localeId, { maximumFractionDigits: 2 }).format(value)} %`;
+      default:
+        return new Intl.NumberFormat(localeId, { maximumFractionDigits: 6 }).format(value);
+    }
+  } catch (error) {
+    return String(value);
+  }
+};
+
+export const loadLocaleId = (): string => localStorage.getItem(LOCALE_STORAGE_KEY) || DEFAULT_LOCALE_ID;
+
+export const saveLocaleId = (id: string) => localStorage.setItem(LOCALE_STORAGE_KEY, id);
@@ -1,49 +1,402 @@
 
 import * as pdfjsLib from 'pdfjs-dist';
 import Tesseract from 'tesseract.js';
+import { FileData, OcrResult, OcrWord, PageOcrStatus, PreprocessSummary } from '../types';
+import {
+  DEFAULT_OCR_LANGUAGE_SETTINGS,
+  MIN_SKEW_CORRECTION,
+  OCR_CACHED_DOCUMENTS,
+  OCR_CACHED_IMAGES,
+  OCR_CACHED_PAGES,
+  OCR_CORE_PATH,
+  OCR_LANG_PATH,
+  OCR_WORKER_PATH,
+  PDF_OCR_DPI,
+  PDF_TEXT_LAYER_MIN_CHARS,
+  PDF_WORKER_PATH,
+  PREPROCESS_ANALYSIS_SIDE,
+  PREPROCESS_MAX_SIDE,
+  PREPROCESS_MIN_SIDE
+} from '../constants';
+import { RasterImage, detectOrientation, estimateSkew, rotateRaster } from './scanUtils';
+import { layoutText } from './layoutUtils';
 
-// Setup PDF.js worker using a compatible CDN source
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+// Served by the app, copied from the installed pdfjs-dist so the versions always match
+pdfjsLib.GlobalWorkerOptions.workerSrc = PDF_WORKER_PATH;
+
+const TESSERACT_OPTIONS = { workerPath: OCR_WORKER_PATH, corePath: OCR_CORE_PATH, langPath: OCR_LANG_PATH };
+
+const EMPTY_RESULT: OcrResult = { text: '', words: [] };
+
+// A file's content; parsed PDFs, rendered pages and preprocessed images are cached by its
+// content hash, and not cached without one
+export type CachedSource = Pick<FileData, 'base64' | 'contentHash'>;
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode image'));
+    img.src = dataUrl;
+  });
+
+const loadImageSize = async (dataUrl: string): Promise<{ width: number; height: number }> => {
+  const img = await loadImage(dataUrl);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
 
 /**
- * Extracts text from a PDF file using its built-in text layer.
+ * Splits a pdf.js text item into words, spreading the item's width across them by character offset.
  */
-export const extractTextFromPdf = async (base64: string): Promise<string> => {
-  try {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    const loadingTask = pdfjsLib.getDocument({ data: bytes });
-    const pdf = await loadingTask.promise;
-    let fullText = '';
-
-    for (let i = 1; i <= pdf.numPages; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items.map((item: any) => item.str).join(' ');
-      fullText += `--- Page ${i} ---\n${pageText}\n\n`;
+const textItemToWords = (item: any, page: number, viewportWidth: number, viewportHeight: number): OcrWord[] => {
+  const str: string = item.str || '';
+  if (!str.trim()) return [];
+
+  const [, , , , left, baseline] = item.transform;
+  const height = item.height || Math.abs(item.transform[3]) || 10;
+  const charWidth = str.length > 0 ? item.width / str.length : 0;
+  const words: OcrWord[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(str)) !== null) {
+    words.push({
+      text: match[0],
+      page,
+      confidence: 1,
+      bbox: {
+        x: (left + match.index * charWidth) / viewportWidth,
+        y: (viewportHeight - baseline - height) / viewportHeight,
+        width: (match[0].length * charWidth) / viewportWidth,
+        height: height / viewportHeight
+      }
+    });
+  }
+  return words;
+};
+
+/**
+ * Converts Tesseract's words to page-relative positions.
+ */
+const tesseractWords = (result: Tesseract.RecognizeResult, page: number, width: number, height: number): OcrWord[] =>
+  (result.data.words || []).map(word => ({
+    text: word.text,
+    page,
+    confidence: word.confidence / 100,
+    bbox: {
+      x: word.bbox.x0 / width,
+      y: word.bbox.y0 / height,
+      width: (word.bbox.x1 - word.bbox.x0) / width,
+      height: (word.bbox.y1 - word.bbox.y0) / height
     }
+  }));
 
-    return fullText;
+export interface PdfTextOptions {
+  // When set, pages without a usable text layer are rendered and OCR'd in these languages
+  ocrLanguages?: string[];
+  // Called whenever a page's status changes, with the status of every page
+  onPageStatus?: (statuses: PageOcrStatus[]) => void;
+}
+
+/**
+ * Extracts text and word positions from a PDF file, page by page: from the built-in text
+ * layer where there is one and, with ocrLanguages set, by OCR on pages that are scans.
+ * Page text keeps the visual lines and column positions of the words.
+ */
+export const extractTextFromPdf = async (source: CachedSource, options: PdfTextOptions = {}): Promise<OcrResult> => {
+  try {
+    return await withPdf(source, async pdf => {
+      const pageWords: OcrWord[][] = [];
+      const statuses: PageOcrStatus[] = [];
+
+      for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const viewport = page.getViewport({ scale: 1 });
+        const textContent = await page.getTextContent();
+        const words = textContent.items.flatMap((item: any) => textItemToWords(item, i, viewport.width, viewport.height));
+        const chars = words.reduce((sum, word) => sum + word.text.length, 0);
+        pageWords.push(words);
+        statuses.push(options.ocrLanguages && chars < PDF_TEXT_LAYER_MIN_CHARS ? 'queued' : 'text');
+      }
+
+      if (statuses.includes('queued')) {
+        const report = (index: number, status: PageOcrStatus) => {
+          statuses[index] = status;
+          options.onPageStatus?.([...statuses]);
+        };
+        options.onPageStatus?.([...statuses]);
+
+        let worker: Tesseract.Worker | null = null;
+        try {
+          worker = await Tesseract.createWorker(options.ocrLanguages!.join('+'), 1, TESSERACT_OPTIONS);
+          for (let index = 0; index < statuses.length; index++) {
+            if (statuses[index] !== 'queued') continue;
+            report(index, 'running');
+            try {
+              const image = await renderPage(pdf, index + 1, PDF_OCR_DPI / 72, 'image/png');
+              const result = await worker.recognize(image.dataUrl);
+              pageWords[index] = tesseractWords(result, index + 1, image.width, image.height);
+              report(index, 'done');
+            } catch (pageError) {
+              console.warn(`OCR failed on page ${index + 1}:`, pageError);
+              report(index, 'error');
+            }
+          }
+        } catch (workerError) {
+          console.error('Could not start OCR for scanned pages:', workerError);
+          statuses.forEach((status, index) => {
+            if (status === 'queued') report(index, 'error');
+          });
+        } finally {
+          await worker?.terminate();
+        }
+      }
+
+      return {
+        text: pageWords.map((words, index) => `--- Page ${index + 1} ---\n${layoutText(words)}\n\n`).join(''),
+        words: pageWords.flat()
+      };
+    });
   } catch (error) {
     console.error('Error extracting PDF text:', error);
-    return '';
+    return EMPTY_RESULT;
   }
 };
 
 /**
- * Performs OCR on an image file using Tesseract.js.
+ * Performs OCR on an image file using Tesseract.js. Several languages (OCR_LANGUAGES ids)
+ * are recognised together.
  */
-export const performImageOcr = async (base64: string, mimeType: string): Promise<string> => {
+export const performImageOcr = async (
+  base64: string,
+  mimeType: string,
+  languages: string[] = DEFAULT_OCR_LANGUAGE_SETTINGS.languages
+): Promise<OcrResult> => {
   try {
     const dataUrl = `data:${mimeType};base64,${base64}`;
-    const result = await Tesseract.recognize(dataUrl, 'eng');
-    return result.data.text;
+    const [result, size] = await Promise.all([
+      Tesseract.recognize(dataUrl, languages.join('+'), TESSERACT_OPTIONS),
+      loadImageSize(dataUrl)
+    ]);
+    return { text: result.data.text, words: tesseractWords(result, 1, size.width, size.height) };
   } catch (error) {
     console.error('Error performing OCR:', error);
-    return '';
+    return EMPTY_RESULT;
+  }
+};
+
+/**
+ * Promise cache keeping the most recently used entries up to a limit. Keys start with the
+ * content hash of their file so a file's entries can be dropped together.
+ */
+const boundedCache = <T>(limit: number, onEvict?: (value: Promise<T>) => void) => {
+  const entries = new Map<string, Promise<T>>();
+  const remove = (key: string) => {
+    const value = entries.get(key);
+    if (!value) return;
+    entries.delete(key);
+    onEvict?.(value);
+  };
+
+  return {
+    get: (key: string, load: () => Promise<T>): Promise<T> => {
+      let value = entries.get(key);
+      if (value) {
+        // Re-inserted to mark it as the most recently used
+        entries.delete(key);
+      } else {
+        const task = load();
+        task.catch(() => {
+          if (entries.get(key) === task) entries.delete(key);
+        });
+        value = task;
+      }
+      entries.set(key, value);
+      while (entries.size > limit) remove(entries.keys().next().value!);
+      return value;
+    },
+    release: (hash: string) =>
+      Array.from(entries.keys()).filter(key => key === hash || key.startsWith(`${hash}:`)).forEach(remove),
+    clear: () => Array.from(entries.keys()).forEach(remove)
+  };
+};
+
+// Calls still using each parsed PDF. A document the cache drops while in use is retired,
+// and destroyed by its last user instead
+const pdfUsers = new Map<Promise<pdfjsLib.PDFDocumentProxy>, number>();
+const retiredPdfs = new Set<Promise<pdfjsLib.PDFDocumentProxy>>();
+
+const destroyPdf = (task: Promise<pdfjsLib.PDFDocumentProxy>) => task.then(pdf => pdf.destroy()).catch(() => undefined);
+
+const documentCache = boundedCache<pdfjsLib.PDFDocumentProxy>(OCR_CACHED_DOCUMENTS, task => {
+  if (pdfUsers.has(task)) retiredPdfs.add(task);
+  else destroyPdf(task);
+});
+const pageImageCache = boundedCache<string>(OCR_CACHED_PAGES);
+
+/**
+ * Runs `use` with the parsed PDF, which stays open until `use` settles even if the cache
+ * drops it meanwhile. PDFs without a content hash are not cached and closed afterwards.
+ */
+const withPdf = async <T>({ base64, contentHash }: CachedSource, use: (pdf: pdfjsLib.PDFDocumentProxy) => Promise<T>): Promise<T> => {
+  const load = () => pdfjsLib.getDocument({ data: base64ToBytes(base64) }).promise;
+  const task = contentHash ? documentCache.get(contentHash, load) : load();
+  if (!contentHash) retiredPdfs.add(task);
+  pdfUsers.set(task, (pdfUsers.get(task) || 0) + 1);
+  try {
+    return await use(await task);
+  } finally {
+    const users = pdfUsers.get(task)! - 1;
+    if (users > 0) {
+      pdfUsers.set(task, users);
+    } else {
+      pdfUsers.delete(task);
+      if (retiredPdfs.delete(task)) destroyPdf(task);
+    }
   }
 };
+
+/**
+ * Returns the number of pages in a PDF file.
+ */
+export const getPdfPageCount = (source: CachedSource): Promise<number> => withPdf(source, async pdf => pdf.numPages);
+
+const renderPage = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  pageNumber: number,
+  scale: number,
+  type: 'image/png' | 'image/jpeg'
+): Promise<{ dataUrl: string; width: number; height: number }> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  return { dataUrl: canvas.toDataURL(type, 0.85), width: canvas.width, height: canvas.height };
+};
+
+/**
+ * Renders a single PDF page to a PNG (or JPEG) data URL. Results are cached per file and page.
+ */
+export const renderPdfPage = (
+  source: CachedSource,
+  pageNumber: number,
+  scale: number = 1.5,
+  type: 'image/png' | 'image/jpeg' = 'image/png'
+): Promise<string> => {
+  const render = () => withPdf(source, async pdf => (await renderPage(pdf, pageNumber, scale, type)).dataUrl);
+  return source.contentHash
+    ? pageImageCache.get(`${source.contentHash}:${pageNumber}:${scale}:${type}`, render)
+    : render();
+};
+
+export interface PreprocessedImage {
+  base64: string;
+  mimeType: string;
+  summary: PreprocessSummary;
+  // False when the image was already upright, straight and well sized
+  changed: boolean;
+}
+
+const preprocessCache = boundedCache<PreprocessedImage>(OCR_CACHED_IMAGES);
+
+const rasterOf = (img: HTMLImageElement, longSide: number): RasterImage => {
+  const scale = Math.min(1, longSide / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not supported');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { data: ctx.getImageData(0, 0, canvas.width, canvas.height).data, width: canvas.width, height: canvas.height };
+};
+
+/**
+ * Prepares an image for OCR and extraction: turns it upright, removes skew and resizes it
+ * so the longer side lies between PREPROCESS_MIN_SIDE (small photos and low-DPI scans are
+ * upscaled) and PREPROCESS_MAX_SIDE (huge photos shrink, which also cuts the upload).
+ * Orientation and skew are measured on a reduced copy. Results are cached per image.
+ */
+export const preprocessImage = (file: CachedSource & Pick<FileData, 'mimeType'>): Promise<PreprocessedImage> => {
+  const { base64, mimeType, contentHash } = file;
+  const prepare = async (): Promise<PreprocessedImage> => {
+    const img = await loadImage(`data:${mimeType};base64,${base64}`);
+    const analysis = rasterOf(img, PREPROCESS_ANALYSIS_SIDE);
+    const rotation = detectOrientation(analysis);
+    const measuredSkew = estimateSkew(rotateRaster(analysis, rotation));
+    const skew = Math.abs(measuredSkew) >= MIN_SKEW_CORRECTION ? measuredSkew : 0;
+
+    const longSide = Math.max(img.naturalWidth, img.naturalHeight);
+    const scale = longSide < PREPROCESS_MIN_SIDE
+      ? Math.min(3, PREPROCESS_MIN_SIDE / longSide)
+      : longSide > PREPROCESS_MAX_SIDE ? PREPROCESS_MAX_SIDE / longSide : 1;
+    const summary: PreprocessSummary = { rotation, skew, scale: Math.round(scale * 100) / 100 };
+    if (rotation === 0 && skew === 0 && scale === 1) return { base64, mimeType, summary, changed: false };
+
+    // Turn upright first, then rotate the other way by the measured tilt
+    const radians = (rotation - skew) * Math.PI / 180;
+    const sin = Math.abs(Math.sin(radians));
+    const cos = Math.abs(Math.cos(radians));
+    const width = img.naturalWidth * scale;
+    const height = img.naturalHeight * scale;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * cos + height * sin);
+    canvas.height = Math.round(width * sin + height * cos);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(radians);
+    ctx.drawImage(img, -width / 2, -height / 2, width, height);
+
+    return {
+      base64: canvas.toDataURL('image/jpeg', 0.85).split(',')[1],
+      mimeType: 'image/jpeg',
+      summary,
+      changed: true
+    };
+  };
+  return contentHash ? preprocessCache.get(contentHash, prepare) : prepare();
+};
+
+/**
+ * Drops everything cached for a file, e.g. once it is extracted or leaves the queue.
+ */
+export const releaseOcrCache = (contentHash: string | undefined) => {
+  if (!contentHash) return;
+  documentCache.release(contentHash);
+  pageImageCache.release(contentHash);
+  preprocessCache.release(contentHash);
+};
+
+export const clearOcrCache = () => {
+  documentCache.clear();
+  pageImageCache.clear();
+  preprocessCache.clear();
+};
+
+/**
+ * Data URL of an image file as OCR saw it, so word positions line up: the preprocessed
+ * copy when extraction used one, otherwise the original.
+ */
+export const imageSourceOf = async (file: Pick<FileData, 'base64' | 'contentHash' | 'mimeType' | 'preprocessed'>): Promise<string> => {
+  if (!file.preprocessed) return `data:${file.mimeType};base64,${file.base64}`;
+  const prepared = await preprocessImage(file);
+  return `data:${prepared.mimeType};base64,${prepared.base64}`;
+};
+
@@ -0,0 +1,99 @@
+import * as XLSX from 'xlsx';
+
+// Widest a table column is padded to in DOCX text; longer cells run past their column
+const MAX_DOCX_COLUMN = 40;
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Reads one entry of a ZIP (OOXML) or OLE compound file; SheetJS ships a reader for both.
+ * Paths are relative to the archive root, e.g. "word/document.xml".
+ */
+export const readArchiveEntry = (container: any, path: string): Uint8Array | null => {
+  const entry = XLSX.CFB.find(container, `/${path}`);
+  return entry?.content ? new Uint8Array(entry.content) : null;
+};
+
+export const readArchive = (bytes: Uint8Array): any => XLSX.CFB.read(bytes, { type: 'array' });
+
+// Placeholder entry SheetJS adds to every container it reads
+const SHEETJS_PLACEHOLDER = '\u0001Sh33tJ5';
+
+/**
+ * Paths of every file in an archive read with readArchive, without the root entry.
+ */
+export const archivePaths = (container: any): string[] =>
+  (container.FullPaths as string[])
+    .map(path => path.replace(/^[^/]*\//, ''))
+    .filter(path => path && !path.endsWith('/') && path !== SHEETJS_PLACEHOLDER);
+
+const paragraphText = (paragraph: Element): string => {
+  let text = '';
+  paragraph.querySelectorAll('*').forEach(node => {
+    if (node.namespaceURI !== WORD_NS) return;
+    if (node.localName === 't') text += node.textContent || '';
+    else if (node.localName === 'tab') text += '    ';
+    else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+  });
+  return text;
+};
+
+const childrenNamed = (element: Element, name: string) =>
+  Array.from(element.children).filter(child => child.namespaceURI === WORD_NS && child.localName === name);
+
+const tableLines = (table: Element): string[] => {
+  const rows = childrenNamed(table, 'tr').map(row =>
+    childrenNamed(row, 'tc').map(cell => childrenNamed(cell, 'p').map(paragraphText).join(' ').replace(/\s+/g, ' ').trim())
+  );
+  const widths: number[] = [];
+  rows.forEach(cells => cells.forEach((cell, i) => {
+    widths[i] = Math.min(MAX_DOCX_COLUMN, Math.max(widths[i] || 0, cell.length));
+  }));
+  return rows.map(cells => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd());
+};
+
+/**
+ * Plain text of a Word document body: one line per paragraph, tables laid out as padded
+ * columns so row structure survives.
+ */
+export const docxToLines = (bytes: Uint8Array): string[] => {
+  const xml = readArchiveEntry(readArchive(bytes), 'word/document.xml');
+  if (!xml) throw new Error('Not a Word document (word/document.xml is missing)');
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(xml), 'application/xml');
+  const body = doc.getElementsByTagNameNS(WORD_NS, 'body')[0];
+  if (!body) throw new Error('The Word document has no body');
+
+  const lines: string[] = [];
+  Array.from(body.children).forEach(block => {
+    if (block.namespaceURI !== WORD_NS) return;
+    if (block.localName === 'p') lines.push(...paragraphText(block).split('\n'));
+    else if (block.localName === 'tbl') lines.push('', ...tableLines(block), '');
+  });
+  return lines;
+};
+
+export interface SheetTable {
+  name: string;
+  // Rows of cell values, the heading row included; dates are YYYY-MM-DD strings
+  rows: (string | number | null)[][];
+}
+
+const cellValue = (value: unknown): string | number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'number') return value;
+  return String(value);
+};
+
+/**
+ * Reads every sheet of an XLSX, XLS or CSV file. CSV cells stay text so amounts are parsed
+ * with the document locale later, like extracted values.
+ */
+export const readSpreadsheet = (base64: string, mimeType: string): SheetTable[] => {
+  const workbook = XLSX.read(base64, { type: 'base64', cellDates: true, raw: mimeType === 'text/csv' });
+  return workbook.SheetNames.map(name => ({
+    name,
+    rows: XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, blankrows: false, defval: null })
+      .map(row => row.map(cellValue))
+  }));
+};
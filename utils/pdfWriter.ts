@@ -0,0 +1,167 @@
+export interface PdfImagePage {
+  // JPEG, without the data URL prefix
+  base64: string;
+  width: number;
+  height: number;
+}
+
+const encoder = new TextEncoder();
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large documents do not overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Collects numbered objects and writes them with the cross-reference table a PDF reader
+ * needs. Object 1 must be the catalog.
+ */
+const pdfDocument = () => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+  const finish = (): string => {
+    const xrefOffset = length;
+    const count = offsets.length;
+    write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+    for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const bytes = new Uint8Array(length);
+    let position = 0;
+    chunks.forEach(chunk => {
+      bytes.set(chunk, position);
+      position += chunk.length;
+    });
+    return bytesToBase64(bytes);
+  };
+
+  write('%PDF-1.4\n%âãÏÓ\n');
+  return { object, finish };
+};
+
+/**
+ * Builds a PDF with one JPEG per page, embedded as-is (DCTDecode) so nothing is
+ * re-compressed. Pages are sized from the pixel dimensions at the given resolution.
+ * Returns the file as base64, like every other queue payload.
+ */
+export const jpegPagesToPdf = (pages: PdfImagePage[], dpi: number = 150): string => {
+  const pdf = pdfDocument();
+
+  // Objects: 1 catalog, 2 page tree, then page, image and content stream for each page
+  const pageId = (index: number) => 3 + index * 3;
+  pdf.object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  pdf.object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const widthPt = (page.width * 72 / dpi).toFixed(2);
+    const heightPt = (page.height * 72 / dpi).toFixed(2);
+    const jpeg = base64ToBytes(page.base64);
+    const content = encoder.encode(`q ${widthPt} 0 0 ${heightPt} 0 0 cm /Im0 Do Q`);
+
+    pdf.object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${widthPt} ${heightPt}] /Resources << /XObject << /Im0 ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R >>`);
+    pdf.object(id + 1, `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`, jpeg);
+    pdf.object(id + 2, `<< /Length ${content.length} >>`, content);
+  });
+
+  return pdf.finish();
+};
+
+// A4 in points, and the margin kept around the text
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+// Courier glyphs are 0.6 em wide
+const COURIER_ADVANCE = 0.6;
+
+// Windows-1252 positions of the characters Latin-1 does not cover
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8A, '‹': 0x8B, 'Œ': 0x8C, 'Ž': 0x8E, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9A, '›': 0x9B, 'œ': 0x9C, 'ž': 0x9E, 'Ÿ': 0x9F
+};
+
+// Hex string in WinAnsiEncoding; characters it cannot show become "?"
+const winAnsiHex = (text: string) =>
+  Array.from(text).map(char => {
+    const code = char.charCodeAt(0);
+    const byte = WIN_ANSI_EXTRAS[char] ?? (code >= 0x20 && code <= 0xFF && (code < 0x7F || code >= 0xA0) ? code : 0x3F);
+    return byte.toString(16).padStart(2, '0');
+  }).join('');
+
+const wrapLine = (line: string, width: number): string[] => {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > width) {
+    const space = rest.lastIndexOf(' ', width);
+    const cut = space > width / 2 ? space : width;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut).replace(/^ /, '');
+  }
+  parts.push(rest);
+  return parts;
+};
+
+/**
+ * Typesets plain text lines into an A4 PDF with a real text layer, in Courier so padded
+ * table columns stay aligned. The font shrinks (down to 6pt) to fit the longest line, and
+ * lines that still do not fit are wrapped. Returns the file as base64.
+ */
+export const textLinesToPdf = (lines: string[]): string => {
+  const usable = PAGE_WIDTH - MARGIN * 2;
+  const longest = Math.max(1, ...lines.map(line => line.length));
+  const fontSize = Math.max(6, Math.min(10, usable / (longest * COURIER_ADVANCE)));
+  const columns = Math.floor(usable / (fontSize * COURIER_ADVANCE));
+  const leading = fontSize * 1.25;
+  const perPage = Math.floor((PAGE_HEIGHT - MARGIN * 2) / leading);
+
+  const wrapped = lines.flatMap(line => wrapLine(line.replace(/\s+$/, ''), columns));
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(1, wrapped.length); i += perPage) pages.push(wrapped.slice(i, i + perPage));
+
+  const pdf = pdfDocument();
+  // Objects: 1 catalog, 2 page tree, 3 font, then page and content stream for each page
+  const pageId = (index: number) => 4 + index * 2;
+  pdf.object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  pdf.object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  pdf.object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((pageLines, i) => {
+    const id = pageId(i);
+    const text = pageLines.map(line => `<${winAnsiHex(line)}> Tj T*`).join('\n');
+    const content = encoder.encode(
+      `BT /F1 ${fontSize.toFixed(2)} Tf ${leading.toFixed(2)} TL ${MARGIN} ${(PAGE_HEIGHT - MARGIN - fontSize).toFixed(2)} Td\n${text}\nET`
+    );
+    pdf.object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${id + 1} 0 R >>`);
+    pdf.object(id + 1, `<< /Length ${content.length} >>`, content);
+  });
+
+  return pdf.finish();
+};
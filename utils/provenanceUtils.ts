@@ -0,0 +1,45 @@
+import { ExtractedItem, RowMeta, RowSource } from '../types';
+
+// Provenance columns of the results table and the export, in order
+export const PROVENANCE_COLUMNS = [
+  { key: 'Source_File_ID', label: 'File ID' },
+  { key: 'Source_File', label: 'File' },
+  { key: 'Source_Page', label: 'Page' },
+  { key: 'Extracted_At', label: 'Extracted' },
+  { key: 'Extraction_Provider', label: 'Provider' },
+  { key: 'Extraction_Model', label: 'Model' },
+  { key: 'Prompt_Version', label: 'Prompt' }
+];
+
+/**
+ * Stamps extracted rows with how and when they were extracted.
+ */
+export const withSource = (rowMeta: RowMeta[], source: RowSource): RowMeta[] =>
+  rowMeta.map(meta => ({ ...meta, source }));
+
+/**
+ * A row's provenance keyed like PROVENANCE_COLUMNS. Rows extracted before provenance was
+ * recorded, and rows added by hand, only know their file and page.
+ */
+export const provenanceOf = (meta: RowMeta | undefined, fileNames: Record<string, string>): ExtractedItem => ({
+  Source_File_ID: meta?.fileId ?? null,
+  Source_File: meta?.source?.fileName ?? (meta?.fileId ? fileNames[meta.fileId] ?? null : null),
+  Source_Page: meta?.page ?? null,
+  Extracted_At: meta?.source?.extractedAt ?? null,
+  Extraction_Provider: meta?.source?.provider ?? null,
+  Extraction_Model: meta?.source?.model ?? null,
+  Prompt_Version: meta?.source?.promptVersion ?? null
+});
+
+/**
+ * Brings each file's rows together. Files keep the position of their first row and rows
+ * keep their order within a file, so an existing grouping (e.g. by document type) survives.
+ */
+export const groupByFile = (indices: number[], rowMeta: RowMeta[]): number[] => {
+  const firstSeen = new Map<string | undefined, number>();
+  indices.forEach((idx, position) => {
+    const fileId = rowMeta[idx]?.fileId;
+    if (!firstSeen.has(fileId)) firstSeen.set(fileId, position);
+  });
+  return [...indices].sort((a, b) => firstSeen.get(rowMeta[a]?.fileId)! - firstSeen.get(rowMeta[b]?.fileId)!);
+};
@@ -0,0 +1,244 @@
+import { CellEdit, DocumentHeader, ExtractedItem, RecordSet, RowMeta } from '../types';
+
+type CellValue = ExtractedItem[string];
+
+// Keeps the history bounded on long review sessions
+const MAX_HISTORY = 100;
+
+export interface EditHistory {
+  past: RecordSet[];
+  present: RecordSet;
+  future: RecordSet[];
+}
+
+export const EMPTY_RECORDS: RecordSet = { data: [], rowMeta: [] };
+
+export const createHistory = (present: RecordSet = EMPTY_RECORDS): EditHistory => ({
+  past: [],
+  present,
+  future: []
+});
+
+/**
+ * Records a new state, dropping anything that could previously be redone.
+ */
+export const pushHistory = (history: EditHistory, next: RecordSet): EditHistory => ({
+  past: [...history.past, history.present].slice(-MAX_HISTORY),
+  present: next,
+  future: []
+});
+
+export const undoHistory = (history: EditHistory): EditHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+};
+
+export const redoHistory = (history: EditHistory): EditHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+};
+
+const isBlank = (value: CellValue | undefined) =>
+  value === undefined || value === null || value === '' || value === 'N/A';
+
+/**
+ * Marks a cell as edited, keeping the value from the first time it was changed.
+ */
+const markEdited = (meta: RowMeta, field: string, original: CellValue | undefined): RowMeta => {
+  if (meta.edits?.[field]) return meta;
+  const edit: CellEdit = { original: original ?? null, editedAt: new Date().toISOString() };
+  return { ...meta, edits: { ...meta.edits, [field]: edit } };
+};
+
+/**
+ * Converts text typed into a cell back into a value, keeping numbers numeric.
+ */
+export const parseCellInput = (input: string, previous: CellValue | undefined): CellValue => {
+  const text = input.trim();
+  if (text === '') return null;
+  if (typeof previous === 'number' && text !== '' && !isNaN(Number(text))) return Number(text);
+  return text;
+};
+
+export const editCell = (records: RecordSet, row: number, field: string, value: CellValue): RecordSet => {
+  const current = records.data[row]?.[field];
+  if (current === value || (isBlank(current) && isBlank(value))) return records;
+
+  return {
+    ...records,
+    data: records.data.map((item, idx) => idx === row ? { ...item, [field]: value } : item),
+    rowMeta: records.rowMeta.map((meta, idx) => idx === row ? markEdited(meta, field, current) : meta)
+  };
+};
+
+/**
+ * Edits a document-level field. The header is created when the document has none yet.
+ */
+export const editDocumentField = (records: RecordSet, fileId: string, field: string, value: CellValue): RecordSet => {
+  const documents = records.documents || [];
+  const existing = documents.find(doc => doc.fileId === fileId);
+  const current = existing?.fields[field];
+  if (current === value || (isBlank(current) && isBlank(value))) return records;
+
+  const header: DocumentHeader = existing
+    ? { ...existing, fields: { ...existing.fields, [field]: value }, meta: markEdited(existing.meta, field, current) }
+    : { fileId, fields: { [field]: value }, meta: markEdited({ fileId, cells: {} }, field, current) };
+  return {
+    ...records,
+    documents: existing ? documents.map(doc => doc === existing ? header : doc) : [...documents, header]
+  };
+};
+
+/**
+ * Inserts an empty row after `afterRow` (or at the end), attached to the same source file.
+ */
+export const insertRow = (records: RecordSet, headers: string[], afterRow: number = records.data.length - 1): RecordSet => {
+  const position = Math.min(records.data.length, afterRow + 1);
+  const template = records.rowMeta[afterRow];
+  const row: ExtractedItem = Object.fromEntries(headers.map(h => [h, null]));
+  const meta: RowMeta = { fileId: template?.fileId, page: template?.page, cells: {}, manual: true };
+
+  return {
+    ...records,
+    data: [...records.data.slice(0, position), row, ...records.data.slice(position)],
+    rowMeta: [...records.rowMeta.slice(0, position), meta, ...records.rowMeta.slice(position)]
+  };
+};
+
+/**
+ * Pins a row to a catalog SKU (null for no catalog product), or with undefined lets it be
+ * matched automatically again.
+ */
+export const setCatalogSku = (records: RecordSet, row: number, sku: string | null | undefined): RecordSet => {
+  const meta = records.rowMeta[row];
+  if (!meta || meta.catalogSku === sku) return records;
+  const { catalogSku, ...rest } = meta;
+  return {
+    ...records,
+    rowMeta: records.rowMeta.map((m, idx) => idx === row ? (sku === undefined ? rest : { ...rest, catalogSku: sku }) : m)
+  };
+};
+
+export const deleteRows = (records: RecordSet, rows: number[]): RecordSet => {
+  const removed = new Set(rows);
+  return {
+    ...records,
+    data: records.data.filter((_, idx) => !removed.has(idx)),
+    rowMeta: records.rowMeta.filter((_, idx) => !removed.has(idx))
+  };
+};
+
+/**
+ * Drops the rows and header extracted from one file, e.g. before it is extracted again.
+ */
+export const removeFileRecords = (records: RecordSet, fileId: string): RecordSet => {
+  const kept = records.rowMeta.map(meta => meta.fileId !== fileId);
+  if (kept.every(Boolean) && !records.documents?.some(doc => doc.fileId === fileId)) return records;
+  return {
+    ...records,
+    data: records.data.filter((_, idx) => kept[idx]),
+    rowMeta: records.rowMeta.filter((_, idx) => kept[idx]),
+    documents: records.documents?.filter(doc => doc.fileId !== fileId)
+  };
+};
+
+/**
+ * Splits a row that the model merged from several lines. Cells holding multi-line text are
+ * distributed one line per new row; single-valued cells are repeated on each row.
+ * A row without any line breaks is duplicated so it can be edited apart by hand.
+ */
+export const splitRow = (records: RecordSet, row: number): RecordSet => {
+  const item = records.data[row];
+  const meta = records.rowMeta[row];
+  if (!item || !meta) return records;
+
+  const lines: Record<string, string[]> = {};
+  Object.entries(item).forEach(([field, value]) => {
+    if (typeof value === 'string' && value.includes('\n')) {
+      lines[field] = value.split('\n').map(l => l.trim()).filter(Boolean);
+    }
+  });
+  const count = Math.max(2, ...Object.values(lines).map(l => l.length));
+
+  const newRows: ExtractedItem[] = [];
+  const newMeta: RowMeta[] = [];
+  for (let i = 0; i < count; i++) {
+    const next: ExtractedItem = { ...item };
+    let nextMeta: RowMeta = { ...meta, cells: { ...meta.cells } };
+    Object.entries(lines).forEach(([field, values]) => {
+      next[field] = values[i] ?? null;
+      delete nextMeta.cells[field];
+      nextMeta = markEdited(nextMeta, field, item[field]);
+    });
+    if (i > 0 && Object.keys(lines).length === 0) nextMeta = { ...nextMeta, manual: true };
+    newRows.push(next);
+    newMeta.push(nextMeta);
+  }
+
+  return {
+    ...records,
+    data: [...records.data.slice(0, row), ...newRows, ...records.data.slice(row + 1)],
+    rowMeta: [...records.rowMeta.slice(0, row), ...newMeta, ...records.rowMeta.slice(row + 1)]
+  };
+};
+
+const mergeValues = (values: CellValue[]): CellValue => {
+  const present = values.filter(v => !isBlank(v));
+  if (present.length === 0) return null;
+  if (new Set(present.map(String)).size === 1) return present[0];
+  if (present.every(v => typeof v === 'string')) return present.join(' ');
+  return present.find(v => typeof v === 'number') ?? present[0];
+};
+
+/**
+ * Merges rows the model wrongly split into one, placed at the first selected position.
+ * Text fragments are joined; for conflicting numbers the first value wins.
+ */
+export const mergeRows = (records: RecordSet, rows: number[]): RecordSet => {
+  const sorted = Array.from(new Set(rows)).sort((a, b) => a - b);
+  if (sorted.length < 2) return records;
+
+  const first = sorted[0];
+  const items = sorted.map(idx => records.data[idx]);
+  const fields = Array.from(new Set(items.flatMap(item => Object.keys(item))));
+  const merged: ExtractedItem = {};
+  let meta: RowMeta = { ...records.rowMeta[first], cells: { ...records.rowMeta[first].cells } };
+
+  fields.forEach(field => {
+    const value = mergeValues(items.map(item => item[field]));
+    merged[field] = value;
+    if (value !== items[0][field]) {
+      delete meta.cells[field];
+      meta = markEdited(meta, field, items[0][field]);
+    }
+  });
+
+  const removed = new Set(sorted.slice(1));
+  return {
+    ...records,
+    data: records.data.map((item, idx) => idx === first ? merged : item).filter((_, idx) => !removed.has(idx)),
+    rowMeta: records.rowMeta.map((m, idx) => idx === first ? meta : m).filter((_, idx) => !removed.has(idx))
+  };
+};
+
+/**
+ * Describes the human changes made to a row, for the optional export audit column.
+ */
+export const describeEdits = (item: ExtractedItem, meta?: RowMeta): string => {
+  const parts: string[] = [];
+  if (meta?.manual) parts.push('Row added manually');
+  Object.entries(meta?.edits || {}).forEach(([field, edit]) => {
+    const before = isBlank(edit.original) ? 'empty' : `"${edit.original}"`;
+    const after = isBlank(item[field]) ? 'empty' : `"${item[field]}"`;
+    parts.push(`${field}: ${before} -> ${after}`);
+  });
+  return parts.join('; ');
+};
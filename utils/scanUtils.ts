@@ -0,0 +1,493 @@
+/**
+ * Document scanning on raw RGBA pixels: edge detection, perspective correction,
+ * orientation and skew estimation, and enhancement. Works on anything shaped like
+ * ImageData so it stays independent of the canvas.
+ */
+
+export interface RasterImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in the order top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export type ScanEnhancement = 'none' | 'contrast' | 'binarize';
+
+export interface ScannedPage {
+  id: string;
+  // JPEG, without the data URL prefix
+  base64: string;
+  width: number;
+  height: number;
+}
+
+// Clockwise quarter turns that bring a page upright
+export type Orientation = 0 | 90 | 180 | 270;
+
+// A detected outline covering less of the frame than this is more likely noise than a page
+const MIN_PAGE_AREA = 0.15;
+const MAX_PAGE_AREA = 0.98;
+
+const luminance = (image: RasterImage): Float32Array => {
+  const gray = new Float32Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2];
+  }
+  return gray;
+};
+
+const boxBlur = (gray: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const out = new Float32Array(gray.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const yy = y + dy;
+        if (yy < 0 || yy >= height) continue;
+        for (let dx = -radius; dx <= radius; dx++) {
+          const xx = x + dx;
+          if (xx < 0 || xx >= width) continue;
+          sum += gray[yy * width + xx];
+          count++;
+        }
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+  return out;
+};
+
+/**
+ * Threshold separating the two main brightness populations of the image.
+ */
+const otsuThreshold = (gray: Float32Array): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[Math.min(255, Math.max(0, Math.round(v)))]++);
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let level = 0; level < 256; level++) {
+    countBelow += histogram[level];
+    if (countBelow === 0) continue;
+    const countAbove = total - countBelow;
+    if (countAbove === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+const largestComponent = (mask: Uint8Array, width: number, height: number): number[] => {
+  const seen = new Uint8Array(mask.length);
+  let largest: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const component: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const idx = stack.pop()!;
+      component.push(idx);
+      const x = idx % width;
+      const neighbours = [
+        x > 0 ? idx - 1 : -1,
+        x < width - 1 ? idx + 1 : -1,
+        idx >= width ? idx - width : -1,
+        idx < mask.length - width ? idx + width : -1
+      ];
+      neighbours.forEach(n => {
+        if (n >= 0 && mask[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      });
+    }
+    if (component.length > largest.length) largest = component;
+  }
+  return largest;
+};
+
+export const quadArea = (quad: Quad): number =>
+  Math.abs(quad.reduce((sum, p, i) => {
+    const next = quad[(i + 1) % 4];
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+
+const isConvex = (quad: Quad) => {
+  const signs = quad.map((p, i) => {
+    const a = quad[(i + 1) % 4];
+    const b = quad[(i + 2) % 4];
+    return Math.sign((a.x - p.x) * (b.y - a.y) - (a.y - p.y) * (b.x - a.x));
+  });
+  return signs.every(s => s === signs[0] && s !== 0);
+};
+
+/**
+ * Finds the outline of a sheet of paper lighter than its background: the largest bright
+ * region after Otsu thresholding, reduced to its four extreme corners. Returns null when
+ * no plausible page is in view. Run it on a downscaled frame; it is not meant for full size.
+ */
+export const detectDocumentQuad = (image: RasterImage): Quad | null => {
+  const { width, height } = image;
+  const gray = boxBlur(luminance(image), width, height, 2);
+  const threshold = otsuThreshold(gray);
+  const mask = new Uint8Array(gray.length);
+  gray.forEach((v, i) => { mask[i] = v > threshold ? 1 : 0; });
+
+  const region = largestComponent(mask, width, height);
+  if (region.length < gray.length * MIN_PAGE_AREA) return null;
+
+  let topLeft = region[0], topRight = region[0], bottomRight = region[0], bottomLeft = region[0];
+  const sum = (idx: number) => (idx % width) + Math.floor(idx / width);
+  const diff = (idx: number) => (idx % width) - Math.floor(idx / width);
+  region.forEach(idx => {
+    if (sum(idx) < sum(topLeft)) topLeft = idx;
+    if (sum(idx) > sum(bottomRight)) bottomRight = idx;
+    if (diff(idx) > diff(topRight)) topRight = idx;
+    if (diff(idx) < diff(bottomLeft)) bottomLeft = idx;
+  });
+  const point = (idx: number): Point => ({ x: idx % width, y: Math.floor(idx / width) });
+  const quad: Quad = [point(topLeft), point(topRight), point(bottomRight), point(bottomLeft)];
+
+  const coverage = quadArea(quad) / (width * height);
+  if (coverage < MIN_PAGE_AREA || coverage > MAX_PAGE_AREA || !isConvex(quad)) return null;
+  return quad;
+};
+
+export const scaleQuad = (quad: Quad, factor: number): Quad =>
+  quad.map(p => ({ x: p.x * factor, y: p.y * factor })) as Quad;
+
+/**
+ * Size of the de-warped page: the longer of each pair of opposite edges, capped at maxSide.
+ */
+export const warpedSize = (quad: Quad, maxSide: number): { width: number; height: number } => {
+  const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const [tl, tr, br, bl] = quad;
+  const width = Math.max(distance(tl, tr), distance(bl, br));
+  const height = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const solve = (matrix: number[][], values: number[]): number[] => {
+  const n = values.length;
+  const a = matrix.map((row, i) => [...row, values[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col || a[col][col] === 0) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  return a.map((row, i) => row[n] / row[i]);
+};
+
+/**
+ * Homography taking the output rectangle (0,0)-(width,height) onto the quad.
+ */
+const rectToQuad = (quad: Quad, width: number, height: number): number[] => {
+  const corners = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const matrix: number[][] = [];
+  const values: number[] = [];
+  corners.forEach((c, i) => {
+    const { x, y } = quad[i];
+    matrix.push([c.x, c.y, 1, 0, 0, 0, -c.x * x, -c.y * x]);
+    values.push(x);
+    matrix.push([0, 0, 0, c.x, c.y, 1, -c.x * y, -c.y * y]);
+    values.push(y);
+  });
+  return [...solve(matrix, values), 1];
+};
+
+/**
+ * Maps the quad of the source image onto an upright width x height image, sampling
+ * bilinearly. This both crops to the page and removes the camera's perspective.
+ */
+export const warpPerspective = (source: RasterImage, quad: Quad, width: number, height: number): RasterImage => {
+  const [h0, h1, h2, h3, h4, h5, h6, h7, h8] = rectToQuad(quad, width, height);
+  const out = new Uint8ClampedArray(width * height * 4);
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = x + 0.5;
+      const v = y + 0.5;
+      const w = h6 * u + h7 * v + h8;
+      const sx = Math.min(maxX, Math.max(0, (h0 * u + h1 * v + h2) / w - 0.5));
+      const sy = Math.min(maxY, Math.max(0, (h3 * u + h4 * v + h5) / w - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const target = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = source.data[(y0 * source.width + x0) * 4 + c] * (1 - fx) + source.data[(y0 * source.width + x1) * 4 + c] * fx;
+        const bottom = source.data[(y1 * source.width + x0) * 4 + c] * (1 - fx) + source.data[(y1 * source.width + x1) * 4 + c] * fx;
+        out[target + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { data: out, width, height };
+};
+
+const percentile = (gray: Float32Array, fraction: number) => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[Math.min(255, Math.max(0, Math.round(v)))]++);
+  const target = gray.length * fraction;
+  let seen = 0;
+  for (let level = 0; level < 256; level++) {
+    seen += histogram[level];
+    if (seen >= target) return level;
+  }
+  return 255;
+};
+
+/**
+ * Stretches the brightness range so faded print and grey paper become dark on white.
+ */
+const stretchContrast = (image: RasterImage): RasterImage => {
+  const gray = luminance(image);
+  const low = percentile(gray, 0.02);
+  const high = percentile(gray, 0.98);
+  // A blank or almost uniform page has nothing to stretch
+  if (high - low < 32) return image;
+  const scale = 255 / (high - low);
+  const out = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < image.data.length; i += 4) {
+    out[i] = (image.data[i] - low) * scale;
+    out[i + 1] = (image.data[i + 1] - low) * scale;
+    out[i + 2] = (image.data[i + 2] - low) * scale;
+    out[i + 3] = 255;
+  }
+  return { data: out, width: image.width, height: image.height };
+};
+
+/**
+ * Black-and-white conversion with a threshold local to each pixel's neighbourhood
+ * (Bradley's method), so shadows across a receipt do not swallow the text.
+ */
+const binarize = (image: RasterImage, sensitivity: number = 0.15): RasterImage => {
+  const { width, height } = image;
+  const gray = luminance(image);
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(4, Math.floor(Math.max(width, height) / 32));
+  const out = new Uint8ClampedArray(image.data.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const area = (x1 - x0) * (y1 - y0);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1] - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const value = gray[y * width + x] * area < sum * (1 - sensitivity) ? 0 : 255;
+      const i = (y * width + x) * 4;
+      out[i] = out[i + 1] = out[i + 2] = value;
+      out[i + 3] = 255;
+    }
+  }
+  return { data: out, width, height };
+};
+
+export const enhanceScan = (image: RasterImage, mode: ScanEnhancement): RasterImage => {
+  switch (mode) {
+    case 'contrast':
+      return stretchContrast(image);
+    case 'binarize':
+      return binarize(image);
+    default:
+      return image;
+  }
+};
+
+interface InkMask {
+  ink: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const inkMask = (image: RasterImage): InkMask => {
+  const gray = luminance(image);
+  const threshold = otsuThreshold(gray);
+  const ink = new Uint8Array(gray.length);
+  gray.forEach((v, i) => { ink[i] = v <= threshold ? 1 : 0; });
+  return { ink, width: image.width, height: image.height };
+};
+
+const rotateMask = ({ ink, width, height }: InkMask): InkMask => {
+  // 90 degrees clockwise: (x, y) -> (height - 1 - y, x)
+  const rotated = new Uint8Array(ink.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      rotated[x * height + (height - 1 - y)] = ink[y * width + x];
+    }
+  }
+  return { ink: rotated, width: height, height: width };
+};
+
+const profileOf = ({ ink, width, height }: InkMask, axis: 'rows' | 'columns'): number[] => {
+  const profile = new Array(axis === 'rows' ? height : width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (ink[y * width + x]) profile[axis === 'rows' ? y : x]++;
+    }
+  }
+  return profile;
+};
+
+const variance = (values: number[]) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, values.length);
+};
+
+/**
+ * Whether horizontal text lines read upside down. Latin script has more ascenders
+ * (b, d, h, k, l, capitals) than descenders (g, p, q, y), so on an upright line more
+ * ink sits above the x-height band than below it.
+ */
+const looksUpsideDown = (mask: InkMask): boolean => {
+  const rows = profileOf(mask, 'rows');
+  const peak = Math.max(...rows);
+  if (peak === 0) return false;
+
+  let above = 0;
+  let below = 0;
+  let start = -1;
+  rows.forEach((count, y) => {
+    const inLine = count > peak * 0.05;
+    if (inLine && start === -1) start = y;
+    if ((!inLine || y === rows.length - 1) && start !== -1) {
+      const band = rows.slice(start, inLine ? y + 1 : y);
+      start = -1;
+      if (band.length < 4) return;
+      const bandPeak = Math.max(...band);
+      const coreTop = band.findIndex(c => c >= bandPeak * 0.5);
+      const coreBottom = band.length - 1 - [...band].reverse().findIndex(c => c >= bandPeak * 0.5);
+      above += band.slice(0, coreTop).reduce((sum, c) => sum + c, 0);
+      below += band.slice(coreBottom + 1).reduce((sum, c) => sum + c, 0);
+    }
+  });
+  return below > above * 1.15;
+};
+
+/**
+ * Estimates how far a page is turned from upright. Text lines make the ink profile
+ * across lines far more uneven than the profile along them, which tells upright from
+ * sideways; the ascender test then tells the two remaining directions apart.
+ */
+export const detectOrientation = (image: RasterImage): Orientation => {
+  const mask = inkMask(image);
+  const sideways = variance(profileOf(mask, 'columns')) > variance(profileOf(mask, 'rows')) * 1.5;
+  if (!sideways) return looksUpsideDown(mask) ? 180 : 0;
+  return looksUpsideDown(rotateMask(mask)) ? 270 : 90;
+};
+
+export const rotateRaster = (image: RasterImage, orientation: Orientation): RasterImage => {
+  let result = image;
+  for (let turn = 0; turn < orientation / 90; turn++) {
+    const { data, width, height } = result;
+    const rotated = new Uint8ClampedArray(data.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const from = (y * width + x) * 4;
+        const to = (x * height + (height - 1 - y)) * 4;
+        rotated[to] = data[from];
+        rotated[to + 1] = data[from + 1];
+        rotated[to + 2] = data[from + 2];
+        rotated[to + 3] = data[from + 3];
+      }
+    }
+    result = { data: rotated, width: height, height: width };
+  }
+  return result;
+};
+
+// Pages are rarely photographed or scanned more askew than this
+const MAX_SKEW_DEGREES = 10;
+
+// Ink pixels sampled for the skew search, enough for a stable profile
+const SKEW_SAMPLE_POINTS = 40000;
+
+/**
+ * Angle in degrees (clockwise positive) by which the text lines of an upright page are
+ * tilted, found by the projection profile method: the angle at which the ink, projected
+ * across the lines, gives the sharpest line/gap pattern.
+ */
+export const estimateSkew = (image: RasterImage): number => {
+  const { ink, width, height } = inkMask(image);
+  const total = ink.reduce((sum, v) => sum + v, 0);
+  if (total === 0) return 0;
+  const stride = Math.max(1, Math.floor(total / SKEW_SAMPLE_POINTS));
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let seen = 0;
+  for (let i = 0; i < ink.length; i++) {
+    if (ink[i] && seen++ % stride === 0) {
+      xs.push(i % width);
+      ys.push(Math.floor(i / width));
+    }
+  }
+
+  const offset = width;
+  const sharpness = (degrees: number) => {
+    const radians = degrees * Math.PI / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const bins = new Float64Array(height + 2 * width + 1);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] * cos - xs[i] * sin) + offset]++;
+    }
+    return bins.reduce((sum, count) => sum + count * count, 0);
+  };
+  const search = (from: number, to: number, step: number) => {
+    let best = from;
+    let bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const score = sharpness(angle);
+      if (score > bestScore) {
+        bestScore = score;
+        best = angle;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+  return Math.round(search(coarse - 0.5, coarse + 0.5, 0.1) * 10) / 10 || 0;
+};
+
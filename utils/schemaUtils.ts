@@ -0,0 +1,180 @@
+import { Schema, Type } from '@google/genai';
+import { ExtractedItem, ExtractionSchema, FieldIssue, SchemaField } from '../types';
+import { DEFAULT_SCHEMAS, SCHEMA_STORAGE_KEY } from '../constants';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Reserved per-row keys the model fills in alongside the schema fields
+export const CONFIDENCE_KEY = '_confidence';
+export const PAGE_KEY = '_page';
+
+const isEmptyValue = (value: ExtractedItem[string] | undefined) =>
+  value === undefined || value === null || value === '' || value === 'N/A';
+
+const fieldToSchema = (field: SchemaField): Schema => {
+  const base: Schema = {
+    description: field.description || undefined,
+    nullable: !field.required
+  };
+
+  switch (field.type) {
+    case 'number':
+    case 'currency':
+      return { ...base, type: Type.NUMBER };
+    case 'date':
+      return { ...base, type: Type.STRING, description: `${field.description} (ISO 8601, YYYY-MM-DD)`.trim() };
+    case 'enum':
+      return { ...base, type: Type.STRING, format: 'enum', enum: field.options?.length ? field.options : undefined };
+    default:
+      return { ...base, type: Type.STRING };
+  }
+};
+
+export const isDocumentField = (field: SchemaField) => field.scope === 'document';
+
+/**
+ * Fields read once per document (vendor, dates, totals...).
+ */
+export const documentFieldsOf = (schema: ExtractionSchema | null): SchemaField[] =>
+  (schema?.fields || []).filter(isDocumentField);
+
+/**
+ * Fields read for every line item.
+ */
+export const lineFieldsOf = (schema: ExtractionSchema | null): SchemaField[] =>
+  (schema?.fields || []).filter(f => !isDocumentField(f));
+
+const confidenceSchema = (fields: SchemaField[]): Schema => ({
+  type: Type.OBJECT,
+  description: 'Your confidence (0 to 1) that each extracted value is correct',
+  properties: Object.fromEntries(fields.map(f => [f.name, { type: Type.NUMBER, nullable: true }]))
+});
+
+/**
+ * Builds the Gemini `responseSchema` for a user-defined extraction schema.
+ */
+export const buildResponseSchema = (schema: ExtractionSchema): Schema => {
+  const headerFields = documentFieldsOf(schema);
+  const lineFields = lineFieldsOf(schema);
+
+  const lineItems: Schema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        ...Object.fromEntries(lineFields.map(f => [f.name, fieldToSchema(f)])),
+        [PAGE_KEY]: { type: Type.INTEGER, nullable: true, description: '1-based page the row was read from' },
+        [CONFIDENCE_KEY]: confidenceSchema(lineFields)
+      },
+      required: lineFields.filter(f => f.required).map(f => f.name),
+      propertyOrdering: [...lineFields.map(f => f.name), PAGE_KEY, CONFIDENCE_KEY]
+    }
+  };
+  if (headerFields.length === 0) {
+    return { type: Type.OBJECT, properties: { line_items: lineItems }, required: ['line_items'] };
+  }
+
+  return {
+    type: Type.OBJECT,
+    properties: {
+      header: {
+        type: Type.OBJECT,
+        properties: {
+          ...Object.fromEntries(headerFields.map(f => [f.name, fieldToSchema(f)])),
+          [CONFIDENCE_KEY]: confidenceSchema(headerFields)
+        },
+        required: headerFields.filter(f => f.required).map(f => f.name),
+        propertyOrdering: [...headerFields.map(f => f.name), CONFIDENCE_KEY]
+      },
+      line_items: lineItems
+    },
+    required: ['header', 'line_items'],
+    propertyOrdering: ['header', 'line_items']
+  };
+};
+
+const checkFieldValue = (field: SchemaField, value: string | number): string | null => {
+  switch (field.type) {
+    case 'number':
+    case 'currency': {
+      if (typeof value === 'number') return Number.isFinite(value) ? null : 'Not a finite number';
+      const cleaned = value.replace(/\s/g, '').replace(/[^\d.,-]/g, '');
+      return cleaned && !isNaN(Number(cleaned.replace(/,/g, ''))) ? null : `Expected a ${field.type} value`;
+    }
+    case 'date': {
+      const text = String(value).trim();
+      if (ISO_DATE.test(text) && !isNaN(Date.parse(text))) return null;
+      return 'Expected a date in YYYY-MM-DD format';
+    }
+    case 'enum': {
+      const options = field.options || [];
+      if (options.length === 0) return null;
+      const text = String(value).trim().toLowerCase();
+      return options.some(o => o.toLowerCase() === text) ? null : `Expected one of: ${options.join(', ')}`;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Validates a single extracted row against the schema's field types and required flags.
+ */
+export const validateRow = (row: ExtractedItem, schema: ExtractionSchema): FieldIssue[] => {
+  const issues: FieldIssue[] = [];
+
+  schema.fields.forEach(field => {
+    const value = row[field.name];
+    if (isEmptyValue(value)) {
+      if (field.required) issues.push({ field: field.name, message: 'Required value is missing' });
+      return;
+    }
+    const message = checkFieldValue(field, value as string | number);
+    if (message) issues.push({ field: field.name, message });
+  });
+
+  return issues;
+};
+
+/**
+ * Combines the schemas of a batch that mixes document types into one for the table and
+ * export columns. Fields keep the first definition seen and are never required, since
+ * each row only carries the fields of its own schema.
+ */
+export const mergeSchemas = (list: ExtractionSchema[]): ExtractionSchema | null => {
+  const distinct = list.filter((schema, idx) => list.findIndex(s => s.id === schema.id) === idx);
+  if (distinct.length <= 1) return distinct[0] || null;
+
+  const fields: SchemaField[] = [];
+  distinct.forEach(schema => schema.fields.forEach(field => {
+    if (!fields.some(f => f.name === field.name)) fields.push({ ...field, required: false });
+  }));
+  return {
+    id: distinct.map(s => s.id).join('+'),
+    name: distinct.map(s => s.name).join(' + '),
+    description: 'Fields of all document types in the batch.',
+    fields
+  };
+};
+
+/**
+ * Loads the built-in schemas followed by any custom schemas saved in the browser.
+ */
+export const loadSchemas = (): ExtractionSchema[] => {
+  try {
+    const raw = localStorage.getItem(SCHEMA_STORAGE_KEY);
+    const custom: ExtractionSchema[] = raw ? JSON.parse(raw) : [];
+    return [...DEFAULT_SCHEMAS, ...custom.filter(s => !s.builtIn)];
+  } catch (error) {
+    console.warn('Could not load saved schemas:', error);
+    return [...DEFAULT_SCHEMAS];
+  }
+};
+
+/**
+ * Persists the custom (non built-in) schemas to localStorage.
+ */
+export const saveSchemas = (schemas: ExtractionSchema[]) => {
+  const custom = schemas.filter(s => !s.builtIn);
+  localStorage.setItem(SCHEMA_STORAGE_KEY, JSON.stringify(custom));
+};
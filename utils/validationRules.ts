@@ -0,0 +1,367 @@
+import { ExtractedItem, ExtractionSchema, RowMeta, RuleConfig, RuleSeverity, RuleViolation } from '../types';
+import { DEFAULT_RULE_CONFIG, RULES_STORAGE_KEY } from '../constants';
+import { isDocumentField, validateRow } from './schemaUtils';
+import { evaluateExpression, expressionFields, ExpressionError, toNumber } from './expression';
+
+interface RuleContext {
+  data: ExtractedItem[];
+  rowMeta: RowMeta[];
+  schema: ExtractionSchema | null;
+  headers: string[];
+  tolerance: number;
+}
+
+type Finding = Omit<RuleViolation, 'ruleId' | 'ruleName' | 'severity'> & { severity?: RuleSeverity };
+
+export interface BuiltInRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: RuleSeverity;
+  check: (ctx: RuleContext) => Finding[];
+}
+
+// Column names recognised for each role, compared after lower-casing and replacing spaces/dashes with "_"
+const FIELD_ALIASES = {
+  quantity: /^(qty|quantity|quantite|quantité|menge|cantidad|units)$/,
+  unitPrice: /^(unit_?price|price|unit_?cost|prix_?unitaire|einzelpreis|precio_?unitario)$/,
+  lineTotal: /^(line_?total|total|amount|net_?amount|line_?amount|montant|betrag|importe)$/,
+  documentTotal: /^(invoice_?total|grand_?total|document_?total|total_?amount|total_?due|amount_?due)$/,
+  netTotal: /^(net_?total|sub_?total|total_?net)$/,
+  taxRate: /^(tax_?rate|vat_?rate|vat_?percent|tva|mwst)$/,
+  taxAmount: /^(tax|tax_?amount|vat|vat_?amount|tax_?total)$/,
+  issueDate: /^(invoice_?date|issue_?date|date|document_?date|booking_?date)$/,
+  dueDate: /^(due_?date|payment_?due)$/,
+  vendor: /^(vendor|supplier|seller|merchant|issuer|fournisseur|lieferant|proveedor)(_?name)?$/,
+  documentNumber: /^((invoice|document|receipt|bill)_?(number|no|id)|numero_?facture|rechnungs_?nummer)$/,
+  grossTotal: /^(gross_?total|total_?gross|total)$/,
+  sku: /^(sku|item_?code|product_?code|article_?(number|no)|part_?(number|no)|reference|ref)$/,
+  description: /^(description|item|product|designation|libelle|libellé|bezeichnung|descripcion)$/,
+  unit: /^(unit|uom|unit_?of_?measure|unite|unité|einheit|unidad)$/
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s-]+/g, '_');
+
+export const findField = (headers: string[], role: keyof typeof FIELD_ALIASES) =>
+  headers.find(h => FIELD_ALIASES[role].test(normalizeHeader(h)));
+
+// A role on the line items only: header fields are repeated on every line by joinHeaders
+const findLineField = (ctx: RuleContext, role: keyof typeof FIELD_ALIASES) =>
+  findField(ctx.headers.filter(h => !ctx.schema?.fields.some(f => f.name === h && isDocumentField(f))), role);
+
+const isEmpty = (value: ExtractedItem[string] | undefined) =>
+  value === undefined || value === null || value === '' || value === 'N/A';
+
+const formatAmount = (n: number) => n.toFixed(2);
+
+/**
+ * Parses ISO (2024-03-12), European (12/03/2024, 12.03.24) and written dates.
+ */
+export const parseDateValue = (value: ExtractedItem[string] | undefined): Date | null => {
+  if (isEmpty(value)) return null;
+  const text = String(value).trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  match = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return new Date(year, Number(match[2]) - 1, Number(match[1]));
+  }
+  const parsed = Date.parse(text);
+  return isNaN(parsed) ? null : new Date(parsed);
+};
+
+const dateFields = (ctx: RuleContext) => {
+  const fromSchema = ctx.schema?.fields.filter(f => f.type === 'date').map(f => f.name) || [];
+  return Array.from(new Set([...fromSchema, ...ctx.headers.filter(h => /date/i.test(h))]));
+};
+
+/**
+ * Groups row indices per source document, falling back to one group for all rows.
+ */
+const groupByDocument = (ctx: RuleContext): number[][] => {
+  const groups = new Map<string, number[]>();
+  ctx.data.forEach((_, idx) => {
+    const key = ctx.rowMeta[idx]?.fileId || 'batch';
+    groups.set(key, [...(groups.get(key) || []), idx]);
+  });
+  return Array.from(groups.values());
+};
+
+export const BUILT_IN_RULES: BuiltInRule[] = [
+  {
+    id: 'line-total',
+    name: 'Quantity × unit price = line total',
+    description: 'Each line total must equal its quantity multiplied by the unit price.',
+    severity: 'error',
+    check: (ctx) => {
+      const qty = findField(ctx.headers, 'quantity');
+      const price = findField(ctx.headers, 'unitPrice');
+      const total = findField(ctx.headers, 'lineTotal');
+      if (!qty || !price || !total) return [];
+
+      const findings: Finding[] = [];
+      ctx.data.forEach((row, idx) => {
+        const q = toNumber(row[qty]);
+        const p = toNumber(row[price]);
+        const t = toNumber(row[total]);
+        if (q === null || p === null || t === null) return;
+        const expected = q * p;
+        if (Math.abs(expected - t) > Math.max(ctx.tolerance, Math.abs(expected) * 0.001)) {
+          findings.push({
+            row: idx,
+            field: total,
+            message: `${q} × ${formatAmount(p)} = ${formatAmount(expected)}, but the line total is ${formatAmount(t)}`
+          });
+        }
+      });
+      return findings;
+    }
+  },
+  {
+    id: 'document-total',
+    name: 'Sum of lines = document total',
+    description: 'Line totals of each document must add up to its net total (or invoice total).',
+    severity: 'error',
+    check: (ctx) => {
+      const total = findLineField(ctx, 'lineTotal');
+      const docTotal = findField(ctx.headers, 'netTotal') || findField(ctx.headers, 'documentTotal');
+      if (!total || !docTotal) return [];
+
+      const findings: Finding[] = [];
+      groupByDocument(ctx).forEach(rows => {
+        const totalRow = rows.find(idx => toNumber(ctx.data[idx][docTotal]) !== null);
+        if (totalRow === undefined) return;
+        const expected = toNumber(ctx.data[totalRow][docTotal])!;
+        const sum = rows.reduce((acc, idx) => acc + (toNumber(ctx.data[idx][total]) ?? 0), 0);
+        if (Math.abs(sum - expected) > Math.max(ctx.tolerance, rows.length * 0.01)) {
+          findings.push({
+            row: totalRow,
+            field: docTotal,
+            message: `Lines add up to ${formatAmount(sum)} but the document total is ${formatAmount(expected)}`
+          });
+        }
+      });
+      return findings;
+    }
+  },
+  {
+    id: 'tax-rate',
+    name: 'Tax rate consistency',
+    description: 'Tax rates must be plausible percentages and match the tax amount on the line.',
+    severity: 'warning',
+    check: (ctx) => {
+      const rate = findField(ctx.headers, 'taxRate');
+      if (!rate) return [];
+      const amount = findLineField(ctx, 'taxAmount');
+      const net = findLineField(ctx, 'lineTotal');
+
+      const findings: Finding[] = [];
+      ctx.data.forEach((row, idx) => {
+        const r = toNumber(row[rate]);
+        if (r === null) return;
+        if (r < 0 || r > 100) {
+          findings.push({ row: idx, field: rate, severity: 'error', message: `Tax rate ${r}% is outside 0-100%` });
+          return;
+        }
+        if (r > 0 && r < 1) {
+          findings.push({ row: idx, field: rate, message: `Tax rate ${r} looks like a fraction, expected a percentage` });
+          return;
+        }
+        if (!amount || !net) return;
+        const a = toNumber(row[amount]);
+        const n = toNumber(row[net]);
+        if (a === null || n === null) return;
+        const expected = n * r / 100;
+        if (Math.abs(expected - a) > Math.max(ctx.tolerance, Math.abs(expected) * 0.01)) {
+          findings.push({
+            row: idx,
+            field: amount,
+            message: `${r}% of ${formatAmount(n)} is ${formatAmount(expected)}, but the tax amount is ${formatAmount(a)}`
+          });
+        }
+      });
+      return findings;
+    }
+  },
+  {
+    id: 'required-fields',
+    name: 'Required fields present',
+    description: 'Fields marked as required in the extraction schema must have a value.',
+    severity: 'error',
+    check: (ctx) => {
+      if (!ctx.schema) return [];
+      const required = ctx.schema.fields.filter(f => f.required);
+      const findings: Finding[] = [];
+      ctx.data.forEach((row, idx) => {
+        required.forEach(field => {
+          if (isEmpty(row[field.name])) findings.push({ row: idx, field: field.name, message: 'Required value is missing' });
+        });
+      });
+      return findings;
+    }
+  },
+  {
+    id: 'field-format',
+    name: 'Field types match schema',
+    description: 'Numbers, amounts, dates and enum values must match their schema field type.',
+    severity: 'warning',
+    check: (ctx) => {
+      if (!ctx.schema) return [];
+      const schema = ctx.schema;
+      const findings: Finding[] = [];
+      ctx.data.forEach((row, idx) => {
+        validateRow(row, schema)
+          .filter(issue => !isEmpty(row[issue.field]))
+          .forEach(issue => findings.push({ row: idx, field: issue.field, message: issue.message }));
+      });
+      return findings;
+    }
+  },
+  {
+    id: 'date-sanity',
+    name: 'Date sanity',
+    description: 'Dates must be readable, not in the future and due dates must follow issue dates.',
+    severity: 'warning',
+    check: (ctx) => {
+      const fields = dateFields(ctx);
+      const issue = findField(ctx.headers, 'issueDate');
+      const due = findField(ctx.headers, 'dueDate');
+      const tomorrow = Date.now() + 24 * 60 * 60 * 1000;
+      const earliest = new Date(1990, 0, 1).getTime();
+
+      const findings: Finding[] = [];
+      ctx.data.forEach((row, idx) => {
+        fields.forEach(field => {
+          if (isEmpty(row[field])) return;
+          const date = parseDateValue(row[field]);
+          if (!date) {
+            findings.push({ row: idx, field, message: `"${row[field]}" is not a recognisable date` });
+          } else if (field !== due && date.getTime() > tomorrow) {
+            findings.push({ row: idx, field, message: 'Date lies in the future' });
+          } else if (date.getTime() < earliest) {
+            findings.push({ row: idx, field, message: 'Date is implausibly old' });
+          }
+        });
+        if (issue && due) {
+          const issued = parseDateValue(row[issue]);
+          const dueDate = parseDateValue(row[due]);
+          if (issued && dueDate && dueDate < issued) {
+            findings.push({ row: idx, field: due, message: 'Due date is before the issue date' });
+          }
+        }
+      });
+      return findings;
+    }
+  }
+];
+
+/**
+ * Checks a custom rule's syntax, returning an error message or null when valid.
+ */
+export const checkRuleExpression = (expression: string): string | null => {
+  if (!expression.trim()) return 'Expression is empty';
+  try {
+    expressionFields(expression);
+    return null;
+  } catch (error: any) {
+    return error instanceof ExpressionError ? error.message : 'Invalid expression';
+  }
+};
+
+/**
+ * Runs all enabled built-in and custom rules over the extracted rows.
+ */
+export const runValidation = (
+  data: ExtractedItem[],
+  rowMeta: RowMeta[],
+  schema: ExtractionSchema | null,
+  config: RuleConfig
+): RuleViolation[] => {
+  const headers = Array.from(new Set([...(schema?.fields.map(f => f.name) || []), ...data.flatMap(r => Object.keys(r))]));
+  const ctx: RuleContext = { data, rowMeta, schema, headers, tolerance: config.tolerance };
+  const violations: RuleViolation[] = [];
+
+  BUILT_IN_RULES
+    .filter(rule => !config.disabledBuiltIns.includes(rule.id))
+    .forEach(rule => {
+      rule.check(ctx).forEach(finding => {
+        violations.push({ ruleId: rule.id, ruleName: rule.name, ...finding, severity: finding.severity || rule.severity });
+      });
+    });
+
+  config.customRules
+    .filter(rule => rule.enabled && !checkRuleExpression(rule.expression))
+    .forEach(rule => {
+      const fields = expressionFields(rule.expression);
+      data.forEach((row, idx) => {
+        try {
+          if (evaluateExpression(rule.expression, row)) return;
+        } catch (error) {
+          // Rows missing a referenced field are not applicable
+          return;
+        }
+        violations.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          row: idx,
+          field: fields.length === 1 ? fields[0] : undefined,
+          severity: rule.severity,
+          message: `Rule "${rule.name}" failed: ${rule.expression}`
+        });
+      });
+    });
+
+  return violations.sort((a, b) => a.row - b.row);
+};
+
+/**
+ * Runs the rules separately over the rows of each schema, for batches mixing document
+ * types: a bank statement row must not be flagged for lacking an invoice number.
+ */
+export const runValidationBySchema = (
+  data: ExtractedItem[],
+  rowMeta: RowMeta[],
+  schemaOf: (meta: RowMeta | undefined) => ExtractionSchema | null,
+  config: RuleConfig
+): RuleViolation[] => {
+  const groups = new Map<ExtractionSchema | null, number[]>();
+  data.forEach((_, idx) => {
+    const schema = schemaOf(rowMeta[idx]);
+    groups.set(schema, [...(groups.get(schema) || []), idx]);
+  });
+  if (groups.size <= 1) return runValidation(data, rowMeta, groups.keys().next().value ?? null, config);
+
+  return Array.from(groups.entries())
+    .flatMap(([schema, rows]) =>
+      runValidation(rows.map(idx => data[idx]), rows.map(idx => rowMeta[idx]), schema, config)
+        .map(violation => ({ ...violation, row: rows[violation.row] }))
+    )
+    .sort((a, b) => a.row - b.row);
+};
+
+/**
+ * Flattens violations into rows for the "Validation" export sheet.
+ */
+export const violationsToRows = (violations: RuleViolation[]): ExtractedItem[] =>
+  violations.map(v => ({
+    Row: v.row + 1,
+    Severity: v.severity,
+    Rule: v.ruleName,
+    Field: v.field || null,
+    Message: v.message
+  }));
+
+export const loadRuleConfig = (): RuleConfig => {
+  try {
+    const raw = localStorage.getItem(RULES_STORAGE_KEY);
+    return raw ? { ...DEFAULT_RULE_CONFIG, ...JSON.parse(raw) } : DEFAULT_RULE_CONFIG;
+  } catch (error) {
+    console.warn('Could not load validation rules:', error);
+    return DEFAULT_RULE_CONFIG;
+  }
+};
+
+export const saveRuleConfig = (config: RuleConfig) => {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(config));
+};
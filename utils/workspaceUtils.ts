@@ -0,0 +1,149 @@
+import { FileData, OcrStatus, WorkspaceBatch } from '../types';
+import { ACTIVE_BATCH_KEY, BATCH_STORE, PAYLOAD_STORE } from '../constants';
+import {
+  deleteRecord,
+  deleteRecords,
+  getAllRecords,
+  getKeysByIndex,
+  getRecord,
+  getRecordsByIndex,
+  putRecord,
+  putRecords
+} from './dbUtils';
+
+interface StoredPayload {
+  key: string;
+  batchId: string;
+  fileId: string;
+  base64: string;
+}
+
+export type WorkspaceFileData = FileData & { ocrStatus?: OcrStatus };
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+// Payloads already written this session, so autosave only writes new documents
+const storedPayloads = new Set<string>();
+
+const payloadKey = (batchId: string, fileId: string) => `${batchId}:${fileId}`;
+
+export const newBatchId = () => `batch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const payloadSize = (files: { base64: string }[]) =>
+  files.reduce((sum, f) => sum + Math.floor(f.base64.length * 0.75), 0);
+
+/**
+ * Saves the batch summary, records and mapping, writes payloads for newly queued
+ * documents and drops payloads of documents removed from the queue.
+ */
+export const saveBatch = async (
+  batch: Omit<WorkspaceBatch, 'files' | 'payloadBytes'>,
+  files: WorkspaceFileData[]
+): Promise<void> => {
+  const fresh = files.filter(f => !storedPayloads.has(payloadKey(batch.id, f.id)));
+  await putRecords<StoredPayload>(PAYLOAD_STORE, fresh.map(f => ({
+    key: payloadKey(batch.id, f.id),
+    batchId: batch.id,
+    fileId: f.id,
+    base64: f.base64
+  })));
+  fresh.forEach(f => storedPayloads.add(payloadKey(batch.id, f.id)));
+
+  const current = new Set(files.map(f => payloadKey(batch.id, f.id)));
+  const stale = (await getKeysByIndex(PAYLOAD_STORE, 'batchId', batch.id)).filter(key => !current.has(String(key)));
+  await deleteRecords(PAYLOAD_STORE, stale);
+  stale.forEach(key => storedPayloads.delete(String(key)));
+
+  await putRecord<WorkspaceBatch>(BATCH_STORE, {
+    ...batch,
+    files: files.map(({ base64, ...rest }) => rest),
+    payloadBytes: payloadSize(files)
+  });
+};
+
+/**
+ * Loads a batch with its document payloads. Files that were mid-extraction when the
+ * page closed come back as pending so the queue can resume them.
+ */
+export const loadBatch = async (id: string): Promise<{ batch: WorkspaceBatch; files: WorkspaceFileData[] } | null> => {
+  const batch = await getRecord<WorkspaceBatch>(BATCH_STORE, id);
+  if (!batch) return null;
+  const payloads = await getRecordsByIndex<StoredPayload>(PAYLOAD_STORE, 'batchId', id);
+  const byFile = new Map(payloads.map(p => [p.fileId, p.base64]));
+  payloads.forEach(p => storedPayloads.add(p.key));
+
+  const files: WorkspaceFileData[] = batch.files
+    .filter(f => byFile.has(f.id))
+    .map(f => ({
+      ...f,
+      base64: byFile.get(f.id)!,
+      status: f.status === 'processing' ? 'pending' : f.status,
+      ocrStatus: f.ocrStatus === 'running' ? 'idle' : f.ocrStatus
+    }));
+  return { batch, files };
+};
+
+export const listBatches = async (): Promise<WorkspaceBatch[]> => {
+  try {
+    const batches = await getAllRecords<WorkspaceBatch>(BATCH_STORE);
+    return batches.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.warn('Could not load batch history:', error);
+    return [];
+  }
+};
+
+export const deleteBatch = async (id: string): Promise<void> => {
+  const keys = await getKeysByIndex(PAYLOAD_STORE, 'batchId', id);
+  await deleteRecords(PAYLOAD_STORE, keys);
+  keys.forEach(key => storedPayloads.delete(String(key)));
+  await deleteRecord(BATCH_STORE, id);
+};
+
+/**
+ * Deletes every saved batch except `keepId` (the open workspace).
+ */
+export const purgeBatches = async (keepId: string | null): Promise<number> => {
+  const batches = await listBatches();
+  const doomed = batches.filter(b => b.id !== keepId);
+  for (const batch of doomed) await deleteBatch(batch.id);
+  return doomed.length;
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false)
+  ]);
+  return { usage: estimate.usage || 0, quota: estimate.quota || 0, persisted };
+};
+
+/**
+ * Asks the browser not to evict our data under storage pressure.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> =>
+  navigator.storage?.persist ? navigator.storage.persist() : false;
+
+export const loadActiveBatchId = (): string | null => localStorage.getItem(ACTIVE_BATCH_KEY);
+
+export const saveActiveBatchId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_BATCH_KEY, id);
+  else localStorage.removeItem(ACTIVE_BATCH_KEY);
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
@@ -0,0 +1,116 @@
+import { formatBytes } from './workspaceUtils';
+
+export interface ZipEntry {
+  path: string;
+  // As the central directory declares them, before anything is inflated
+  compressedSize: number;
+  size: number;
+  method: number;
+  // Offset of the entry's local header
+  offset: number;
+}
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+// The end-of-directory record is 22 bytes, followed by a comment of up to 64 KB
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xFFFF;
+
+// Sizes and counts that point to a ZIP64 record instead
+const ZIP64_MARKER = 0xFFFFFFFF;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/**
+ * Lists the entries of a ZIP archive from its central directory. Nothing is inflated, so
+ * names and declared sizes can be checked before any content is unpacked.
+ */
+export const readZipDirectory = (bytes: Uint8Array): ZipEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = bytes.length - END_RECORD_SIZE;
+  const stop = Math.max(0, end - MAX_COMMENT_SIZE);
+  while (end >= stop && view.getUint32(end, true) !== END_OF_DIRECTORY) end--;
+  if (end < stop) throw new Error('The ZIP central directory is missing');
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  if (count === 0xFFFF || position === ZIP64_MARKER) throw new Error('ZIP64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > bytes.length || view.getUint32(position, true) !== DIRECTORY_ENTRY) {
+      throw new Error('The ZIP central directory is damaged');
+    }
+    const flags = view.getUint16(position + 8, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const nameBytes = bytes.subarray(position + 46, position + 46 + nameLength);
+    // Bit 11 marks UTF-8 names; older tools write code page 437, read here as Latin-1
+    const path = flags & 0x800 ? new TextDecoder().decode(nameBytes) : String.fromCharCode(...nameBytes);
+    const entry: ZipEntry = {
+      path,
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      size: view.getUint32(position + 24, true),
+      offset: view.getUint32(position + 42, true)
+    };
+    if (flags & 0x1) throw new Error(`${path} is encrypted`);
+    if (entry.size === ZIP64_MARKER || entry.compressedSize === ZIP64_MARKER) throw new Error('ZIP64 archives are not supported');
+    entries.push(entry);
+    position += 46 + nameLength + view.getUint16(position + 30, true) + view.getUint16(position + 32, true);
+  }
+  return entries;
+};
+
+/**
+ * Total size the entries unpack to, as declared by the central directory.
+ */
+export const unpackedSize = (entries: ZipEntry[]) => entries.reduce((sum, entry) => sum + entry.size, 0);
+
+/**
+ * Inflates raw deflate data, giving up as soon as the output would pass the limit.
+ */
+const inflateRaw = async (data: Uint8Array, limit: number): Promise<Uint8Array> => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw new Error(`Unpacks to more than the ${formatBytes(limit)} its archive declares`);
+    }
+    chunks.push(value);
+  }
+  const output = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+};
+
+/**
+ * Unpacks one entry listed by readZipDirectory. The output is held to the size the central
+ * directory declares, so an archive cannot unpack to more than was checked up front.
+ */
+export const readZipEntry = async (bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (entry.offset + 30 > bytes.length || view.getUint32(entry.offset, true) !== LOCAL_HEADER) {
+    throw new Error(`${entry.path} is damaged`);
+  }
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  let content: Uint8Array;
+  if (entry.method === METHOD_STORED) content = data;
+  else if (entry.method === METHOD_DEFLATED) content = await inflateRaw(data, entry.size);
+  else throw new Error(`${entry.path} uses an unsupported compression method`);
+  if (content.length !== entry.size) throw new Error(`${entry.path} is damaged`);
+  return content;
+};
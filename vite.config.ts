@@ -1,13 +1,78 @@
-
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readFileSync, readdirSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { Plugin, defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { OCR_CORE_PATH, OCR_LANGUAGES, OCR_LANG_PATH, OCR_WORKER_PATH, PDF_WORKER_PATH } from './constants';
+
+const fromPackage = (file: string) => fileURLToPath(new URL(`./node_modules/${file}`, import.meta.url));
+
+// URL path (without the leading slash) -> file on disk
+const OFFLINE_ASSETS: Record<string, string> = {
+  [PDF_WORKER_PATH.slice(1)]: fromPackage('pdfjs-dist/build/pdf.worker.min.mjs'),
+  [OCR_WORKER_PATH.slice(1)]: fromPackage('tesseract.js/dist/worker.min.js'),
+  // Only the LSTM builds: recognition always runs the LSTM engine
+  [`${OCR_CORE_PATH.slice(1)}/tesseract-core-lstm.wasm.js`]: fromPackage('tesseract.js-core/tesseract-core-lstm.wasm.js'),
+  [`${OCR_CORE_PATH.slice(1)}/tesseract-core-simd-lstm.wasm.js`]: fromPackage('tesseract.js-core/tesseract-core-simd-lstm.wasm.js'),
+  ...Object.fromEntries(OCR_LANGUAGES.map(language => [
+    `${OCR_LANG_PATH.slice(1)}/${language.id}.traineddata.gz`,
+    fromPackage(`@tesseract.js-data/${language.id}/4.0.0_best_int/${language.id}.traineddata.gz`)
+  ]))
+};
+
+const contentType = (path: string) =>
+  /\.m?js$/.test(path) ? 'text/javascript' : 'application/octet-stream';
+
+/**
+ * Serves the pdf.js worker, the Tesseract worker and core and the OCR language data from
+ * node_modules during development, and copies them into the build.
+ */
+const offlineAssets = (): Plugin => ({
+  name: 'docuextract-offline-assets',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const file = OFFLINE_ASSETS[(req.url || '').split('?')[0].slice(1)];
+      if (!file) return next();
+      res.setHeader('Content-Type', contentType(file));
+      res.end(readFileSync(file));
+    });
+  },
+  generateBundle() {
+    Object.entries(OFFLINE_ASSETS).forEach(([fileName, file]) => {
+      this.emitFile({ type: 'asset', fileName, source: readFileSync(file) });
+    });
+  }
+});
+
+/**
+ * Emits sw.js with the list of every built file, so the service worker can cache the
+ * whole app (code, OCR assets and language data) when it is installed. The cache name
+ * changes with the built content, which makes browsers pick up a new build.
+ */
+const serviceWorker = (): Plugin => ({
+  name: 'docuextract-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const publicFiles = readdirSync(fileURLToPath(new URL('./public', import.meta.url)));
+    const files = [...Object.keys(bundle), ...publicFiles].filter(name => !name.endsWith('.map'));
+    const precache = ['/', ...files.map(name => `/${name}`)];
+    const hash = createHash('sha256').update(precache.join('\n'));
+    Object.values(bundle).forEach(item => hash.update(item.type === 'chunk' ? item.code : item.source));
+    const version = hash.digest('hex').slice(0, 12);
+    const source = readFileSync(fileURLToPath(new URL('./pwa/sw.js', import.meta.url)), 'utf-8')
+      .replace('__CACHE_VERSION__', version)
+      .replace('__PRECACHE__', JSON.stringify(precache));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
 
 export default defineConfig({
-  plugins: [react()],
-  define: {
-    // This ensures process.env.API_KEY is available in the browser code
-    // Netlify will provide this during the build phase
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY)
+  plugins: [react(), offlineAssets(), serviceWorker()],
+  server: {
+    // The extraction endpoint keeps the Gemini key server-side; run it with `npm run server`
+    proxy: {
+      '/api': `http://localhost:${process.env.API_PORT || 8787}`
+    }
   },
   build: {
     outDir: 'dist',